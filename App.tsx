@@ -1,79 +1,209 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality, FunctionDeclaration, Type } from '@google/genai';
-import { Mic, Globe, StopCircle, Trash2, Activity, ChevronDown, Check, ImageIcon } from 'lucide-react';
-import { ConnectionStatus, TranscriptItem, LanguageOption } from './types';
-import { createPcmBlob, decodeAudioData, AUDIO_WORKLET_CODE } from './utils/audio';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Mic, Globe, StopCircle, Trash2, Activity, ChevronDown, Check, History, X, CircleDot, ArrowLeftRight, Search, Settings2, Star, BookText, AlertTriangle, MessagesSquare, Headphones, FileStack, Play, Square, AudioLines, Scissors, Images, Captions } from 'lucide-react';
+import { ConnectionStatus, TranscriptItem, LanguageOption, LanguagePair, SessionRecord, VadSettings, InputMode, GlossaryViolation, AudioDeviceSettings, InputSource, PlaybackSettings, BargeInSettings, VisualCaptureSettings, SubtitleSettings } from './types';
+import { DEFAULT_VAD_SETTINGS } from './utils/vad';
+import { loadSetting, saveSetting } from './utils/settings';
+import { TRANSCRIBE_LANGUAGE, loadLanguageCatalog, saveLanguageCatalog, visibleLanguages, describeLanguage, matchesLanguageQuery } from './utils/languageCatalog';
+import { LiveTransport, createGeminiTransport } from './utils/liveTransport';
+import { MockLiveTransport } from './utils/mockLiveTransport';
+import { MOCK_SCRIPTS } from './utils/mockLiveScripts';
+import { ANY_LANGUAGE, Glossaries, glossaryKey, loadGlossaries, saveGlossaries, buildGlossaryInstruction, findGlossaryViolations } from './utils/glossary';
+import { generateImage } from './utils/imageGeneration';
+import { streamTextReply } from './utils/textReply';
+import { ToolRegistry } from './utils/toolRegistry';
+import { ReminderTimers, ToolHost, createBuiltinTools } from './utils/builtinTools';
+import { DEFAULT_AUDIO_DEVICE_SETTINGS, DEFAULT_PLAYBACK_SETTINGS, DEFAULT_BARGE_IN_SETTINGS } from './utils/audioDevices';
+import { SOURCE_LABELS } from './utils/audioSources';
+import { DEFAULT_VISUAL_SETTINGS } from './utils/visualCapture';
+import { DEFAULT_SUBTITLE_SETTINGS, buildSubtitleCues } from './utils/subtitles';
+import { VoiceSettingsMap, loadVoiceSettings, saveVoiceSettings, resolveVoiceSettings, voiceSettingsKey, generateVoicePreview, playVoicePreview } from './utils/voiceSettings';
+import { useLiveSession } from './hooks/useLiveSession';
+import { useBatchQueue } from './hooks/useBatchQueue';
+import { useSubtitleBroadcast } from './hooks/useSubtitleChannel';
 import AudioVisualizer from './components/AudioVisualizer';
+import HistorySidebar from './components/HistorySidebar';
+import ExportMenu from './components/ExportMenu';
+import RecordingPanel from './components/RecordingPanel';
+import VadControls from './components/VadControls';
+import InputModeToggle from './components/InputModeToggle';
+import LanguageSettings from './components/LanguageSettings';
+import GlossaryPanel from './components/GlossaryPanel';
+import ReconnectBanner from './components/ReconnectBanner';
+import AudioDevicePanel from './components/AudioDevicePanel';
+import InputSourcePicker from './components/InputSourcePicker';
+import BatchPanel from './components/BatchPanel';
+import PlaybackControls from './components/PlaybackControls';
+import VoiceSettingsPanel from './components/VoiceSettingsPanel';
+import ImageGallery from './components/ImageGallery';
+import VisualCaptureControls from './components/VisualCaptureControls';
+import TextComposer from './components/TextComposer';
+import SubtitleMode from './components/SubtitleMode';
+import TranscriptImage from './components/TranscriptImage';
 
 const API_KEY = process.env.API_KEY;
 
-const LANGUAGES: LanguageOption[] = [
-  { code: 'none', name: 'Transcribe (Original)', flag: '🎙️' },
-  { code: 'zh', name: 'Chinese', flag: '🇨🇳' },
-  { code: 'en', name: 'English', flag: '🇺🇸' },
-  { code: 'ja', name: 'Japanese', flag: '🇯🇵' },
-  { code: 'es', name: 'Spanish', flag: '🇪🇸' },
-  { code: 'fr', name: 'French', flag: '🇫🇷' },
-  { code: 'ko', name: 'Korean', flag: '🇰🇷' },
-  { code: 'de', name: 'German', flag: '🇩🇪' },
-];
-
-const MAX_RETRIES = 3;
-
-// Tool definition for Image Generation
-const renderImageTool: FunctionDeclaration = {
-  name: 'render_image',
-  description: 'Generate an image based on a user request or description.',
-  parameters: {
-    type: Type.OBJECT,
-    properties: {
-      prompt: {
-        type: Type.STRING,
-        description: 'The detailed description of the image to generate.',
-      },
-    },
-    required: ['prompt'],
-  },
+// ?transport=mock[&script=<name>] swaps the Gemini backend for the scripted offline mock
+const createLiveTransport = (): LiveTransport | null => {
+  const params = new URLSearchParams(window.location.search);
+  if (params.get('transport') === 'mock') {
+    const script = MOCK_SCRIPTS[params.get('script') ?? 'translation'] ?? MOCK_SCRIPTS.translation;
+    const transport = new MockLiveTransport(script, { failConnects: Number(params.get('failConnects')) || 0 });
+    // Exposed so end-to-end tests can inspect what was sent upstream
+    (window as any).__linguaflowMockTransport = transport;
+    console.log(`Using mock Live transport (script: ${script.name})`);
+    return transport;
+  }
+  return API_KEY ? createGeminiTransport(API_KEY) : null;
+};
+
+const liveTransport = createLiveTransport();
+
+// Show a search box in the language menu once the list gets this long
+const LANGUAGE_SEARCH_THRESHOLD = 10;
+
+const formatClock = (sec: number) => {
+  const total = Math.floor(sec);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
 };
 
 const App: React.FC = () => {
   // State
-  const [status, setStatus] = useState<ConnectionStatus>(ConnectionStatus.DISCONNECTED);
-  const [transcripts, setTranscripts] = useState<TranscriptItem[]>([]);
-  const [currentInput, setCurrentInput] = useState<string>('');
-  const [currentOutput, setCurrentOutput] = useState<string>('');
+  const [languages, setLanguages] = useState<LanguageOption[]>(() => loadLanguageCatalog());
+  const [isLanguageSettingsOpen, setIsLanguageSettingsOpen] = useState(false);
+  const [langQuery, setLangQuery] = useState('');
+  const [glossaries, setGlossaries] = useState<Glossaries>(() => loadGlossaries());
+  const [isGlossaryOpen, setIsGlossaryOpen] = useState(false);
   const [selectedLang, setSelectedLang] = useState<string>('none');
+  const [interpreterPair, setInterpreterPair] = useState<LanguagePair | null>(null); // Non-null in two-way mode
+  const [pairDraft, setPairDraft] = useState<LanguagePair>(['zh', 'en']);
   const [isLangMenuOpen, setIsLangMenuOpen] = useState(false);
-  const [errorMsg, setErrorMsg] = useState<string | null>(null);
-  
-  // Audio Analyser State (Persistent)
-  const [audioAnalyser, setAudioAnalyser] = useState<AnalyserNode | null>(null);
-  
-  // Refs for Global Audio Context (Persistent across sessions)
-  const globalAudioContextRef = useRef<AudioContext | null>(null);
-  const globalAnalyserRef = useRef<AnalyserNode | null>(null);
-  const isWorkletLoadedRef = useRef<boolean>(false);
-
-  // Refs for Session Specifics
-  const sessionRef = useRef<any>(null);
-  const mediaStreamRef = useRef<MediaStream | null>(null);
-  const workletNodeRef = useRef<AudioWorkletNode | null>(null);
-  const sourceNodeRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  const [notice, setNotice] = useState<string | null>(null); // UI-level errors; session errors come from the client
+
+  // History State
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [historyRefreshToken, setHistoryRefreshToken] = useState(0);
+  const [viewingSession, setViewingSession] = useState<SessionRecord | null>(null);
+
+  // Recording State
+  const [isRecordingEnabled, setIsRecordingEnabled] = useState(true);
+
+  // Carry recent transcript into renewed Live sessions
+  const [carryContext, setCarryContext] = useState(() => loadSetting('carryContext', true));
+  const [lastRecordingId, setLastRecordingId] = useState<string | null>(null);
+  const [dismissedRecordingId, setDismissedRecordingId] = useState<string | null>(null);
   
-  // Output Audio Context (for playback)
-  const outputAudioContextRef = useRef<AudioContext | null>(null);
-  const nextStartTimeRef = useRef<number>(0);
-  const audioSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  // Voice Activity Detection State
+  const [vadSettings, setVadSettings] = useState<VadSettings>(() => loadSetting('vad', DEFAULT_VAD_SETTINGS));
+
+  // Audio Device State
+  const [audioDevices, setAudioDevices] = useState<AudioDeviceSettings>(() => loadSetting('audioDevices', DEFAULT_AUDIO_DEVICE_SETTINGS));
+  const [isDevicePanelOpen, setIsDevicePanelOpen] = useState(false);
+
+  // Model Speech Playback State
+  const [playback, setPlayback] = useState<PlaybackSettings>(() => loadSetting('playback', DEFAULT_PLAYBACK_SETTINGS));
+  const [bargeIn, setBargeIn] = useState<BargeInSettings>(() => loadSetting('bargeIn', DEFAULT_BARGE_IN_SETTINGS));
+
+  // Camera / Screen Frames State
+  const [visualSettings, setVisualSettings] = useState<VisualCaptureSettings>(() => loadSetting('visual', DEFAULT_VISUAL_SETTINGS));
+
+  // Presentation Mode State
+  const [isSubtitleModeOpen, setIsSubtitleModeOpen] = useState(false);
+  const [subtitleSettings, setSubtitleSettings] = useState<SubtitleSettings>(() => loadSetting('subtitles', DEFAULT_SUBTITLE_SETTINGS));
+
+  // Voice & Model State (per target language or interpreter pair)
+  const [voiceSettings, setVoiceSettings] = useState<VoiceSettingsMap>(() => loadVoiceSettings());
+  const [isVoicePanelOpen, setIsVoicePanelOpen] = useState(false);
+
+  // Input Source State (files are not remembered across reloads)
+  const [inputSource, setInputSource] = useState<InputSource>(() => loadSetting<InputSource>('inputSource', 'mic'));
+  const [inputFile, setInputFile] = useState<File | null>(null);
+  const [filePlaybackRate, setFilePlaybackRate] = useState(1);
+
+  // Batch Transcription State
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
+  const [isGalleryOpen, setIsGalleryOpen] = useState(false);
+  const [galleryRefreshToken, setGalleryRefreshToken] = useState(0);
+
+  // Input Mode State
+  const [inputMode, setInputMode] = useState<InputMode>(() => loadSetting<InputMode>('inputMode', 'continuous'));
 
   const scrollRef = useRef<HTMLDivElement>(null);
 
-  // Refs for real-time transcript accumulation
-  const currentTurnInputRef = useRef('');
-  const currentTurnOutputRef = useRef('');
+  const findLang = (code: string) =>
+    code === TRANSCRIBE_LANGUAGE.code ? TRANSCRIBE_LANGUAGE : languages.find(l => l.code === code);
+
+  // Glossary pair for a language selection; null in plain transcription mode
+  const glossaryPairFor = (langCode: string, pair: LanguagePair | null): LanguagePair | null =>
+    pair ?? (langCode === 'none' ? null : [ANY_LANGUAGE, langCode]);
+
+  const getSystemInstruction = (langCode: string, pair: LanguagePair | null = null) => {
+    const glossaryPair = glossaryPairFor(langCode, pair);
+    if (!glossaryPair) return getBaseInstruction(langCode, pair);
 
-  // Refs for Reconnection Logic
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const retryCountRef = useRef<number>(0);
+    const entries = glossaries[glossaryKey(glossaryPair)] ?? [];
+    const names = glossaryPair.map(code => {
+      const lang = languages.find(l => l.code === code);
+      return code === ANY_LANGUAGE ? 'the source language' : lang ? describeLanguage(lang) : code;
+    }) as [string, string];
+    return getBaseInstruction(langCode, pair) + buildGlossaryInstruction(entries, names, !!pair);
+  };
+
+  const getBaseInstruction = (langCode: string, pair: LanguagePair | null) => {
+    if (pair) {
+      const [a, b] = pair.map(code => {
+        const lang = languages.find(l => l.code === code);
+        return lang ? describeLanguage(lang) : code;
+      });
+      return `You are an expert two-way simultaneous interpreter between ${a} and ${b}. Work out which of the two languages the speaker is using: if they speak ${a}, translate into ${b}; if they speak ${b}, translate into ${a}. Output ONLY the translated text and speak it naturally. Never answer questions or add commentary - just interpret.`;
+    }
+    const lang = languages.find(l => l.code === langCode);
+    if (langCode === 'none') {
+      return "You are a helpful assistant. Your primary task is to listen to the user. If the user speaks, simply acknowledge it or answer briefly. You can also generate images if the user asks to 'draw' or 'generate an image' by using the render_image tool, change them with edit_image ('make it blue') or make alternatives with create_image_variations, and use your other tools to take notes, set reminders, search what was said earlier or switch to translating into another language. Be concise.";
+    }
+    if (lang?.instruction) return lang.instruction;
+    return `You are an expert simultaneous interpreter. Translate the user's speech into ${lang ? describeLanguage(lang) : langCode}. Output ONLY the translated text and speak it naturally. Do not add conversational filler. If the user shows you a camera or screen image and asks about it, translate the text visible in it.`;
+  };
+
+  // Built-in tools act on the app through this host, refreshed every render
+  const toolHostRef = useRef<ToolHost | null>(null);
+  const [toolRegistry] = useState(() => new ToolRegistry(createBuiltinTools(() => toolHostRef.current!)));
+  const [reminders] = useState(() => new ReminderTimers());
+
+  // Live session (audio graph, connection, transcript) runs in the headless client
+  const session = useLiveSession({
+    transport: liveTransport,
+    buildSystemInstruction: getSystemInstruction,
+    getVoiceSettings: (langCode, pair) => resolveVoiceSettings(voiceSettings, voiceSettingsKey(langCode, pair)),
+    tools: toolRegistry,
+    generateText: API_KEY ? (text, systemInstruction) => streamTextReply(API_KEY, text, systemInstruction) : undefined,
+    onSessionSaved: record => {
+      setHistoryRefreshToken(t => t + 1);
+      if (record.recordingId) setLastRecordingId(record.recordingId);
+    },
+    onNotice: setNotice,
+  });
+  const { status, currentInput, currentOutput, isSpeaking, isTalkHeld, startTalking, stopTalking, reconnect } = session;
+  // Archived sessions are shown in place of the live transcript
+  const transcripts = viewingSession ? viewingSession.items : session.transcripts;
+  const errorMsg = notice ?? session.error;
+  // Replay audio only exists for live transcripts, not archived sessions
+  const replayableIds = useMemo(() => new Set(viewingSession ? [] : session.replayableIds), [viewingSession, session.replayableIds]);
+
+  // Captions always follow the live session, also while an archived one is open
+  const subtitleCues = useMemo(
+    () => buildSubtitleCues(session.transcripts, currentInput, currentOutput, subtitleSettings),
+    [session.transcripts, currentInput, currentOutput, subtitleSettings]
+  );
+  useSubtitleBroadcast(subtitleCues, subtitleSettings);
+
+  // Reminders belong to the session that set them: drop them when it ends or the app goes away
+  useEffect(() => {
+    if (status === ConnectionStatus.DISCONNECTED || status === ConnectionStatus.ERROR) reminders.clear();
+  }, [status]);
+  useEffect(() => () => reminders.clear(), []);
+
+  // Batch jobs run in the background and land in history when finished
+  const batch = useBatchQueue(liveTransport, () => setHistoryRefreshToken(t => t + 1));
 
   // Auto-scroll
   useEffect(() => {
@@ -82,415 +212,252 @@ const App: React.FC = () => {
     }
   }, [transcripts, currentInput, currentOutput]);
 
-  // Initialize Audio Context Only Once
-  const initAudioContext = async () => {
-    if (globalAudioContextRef.current) {
-      if (globalAudioContextRef.current.state === 'suspended') {
-        await globalAudioContextRef.current.resume();
-      }
-      return globalAudioContextRef.current;
-    }
-
-    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-    const ctx = new AudioContextClass();
-    
-    if (!ctx.audioWorklet) {
-       throw new Error("AudioWorklet not supported");
-    }
-
-    // Create and configure Analyser once
-    const analyser = ctx.createAnalyser();
-    analyser.fftSize = 512;
-    analyser.smoothingTimeConstant = 0.1;
-    globalAnalyserRef.current = analyser;
-    setAudioAnalyser(analyser); // Triggers visualizer mount
-
-    globalAudioContextRef.current = ctx;
-    await ctx.resume();
-    return ctx;
-  };
+  useEffect(() => {
+    saveVoiceSettings(voiceSettings);
+  }, [voiceSettings]);
 
-  // Cleanup Function (Stops session, preserves context)
-  const stopSession = useCallback(async (fullDisconnect = false) => {
-    // Clear timers
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current);
-      reconnectTimeoutRef.current = null;
-    }
+  // Apply playback settings to the session, and remember them
+  useEffect(() => {
+    session.client.setPlaybackSettings(playback);
+    saveSetting('playback', playback);
+  }, [playback]);
 
-    // 1. Stop Media Stream
-    if (mediaStreamRef.current) {
-      mediaStreamRef.current.getTracks().forEach(track => track.stop());
-      mediaStreamRef.current = null;
-    }
+  useEffect(() => {
+    session.client.setBargeInSettings(bargeIn);
+    saveSetting('bargeIn', bargeIn);
+  }, [bargeIn]);
 
-    // 2. Disconnect Worklet & Source
-    if (workletNodeRef.current) {
-      workletNodeRef.current.port.onmessage = null;
-      workletNodeRef.current.disconnect();
-      workletNodeRef.current = null;
-    }
-    if (sourceNodeRef.current) {
-      sourceNodeRef.current.disconnect();
-      sourceNodeRef.current = null;
-    }
+  useEffect(() => {
+    session.client.setVisualSettings(visualSettings);
+    saveSetting('visual', visualSettings);
+  }, [visualSettings]);
 
-    // 3. Stop Output Audio
-    audioSourcesRef.current.forEach(source => {
-      try { source.stop(); } catch (e) {}
-    });
-    audioSourcesRef.current.clear();
-    nextStartTimeRef.current = 0;
+  useEffect(() => {
+    saveSetting('subtitles', subtitleSettings);
+  }, [subtitleSettings]);
 
-    // 4. Suspend Global Context (Save resources)
-    if (globalAudioContextRef.current && globalAudioContextRef.current.state === 'running') {
-       try { await globalAudioContextRef.current.suspend(); } catch (e) {}
-    }
+  // Apply VAD settings to the session, and remember them
+  useEffect(() => {
+    session.client.setVadSettings(vadSettings);
+    saveSetting('vad', vadSettings);
+  }, [vadSettings]);
 
-    // 5. Clean Session Refs
-    sessionRef.current = null;
-    
-    // CRITICAL FIX: Save any pending partial text to history before clearing
-    const pendingInput = currentTurnInputRef.current.trim();
-    const pendingOutput = currentTurnOutputRef.current.trim();
-    const now = new Date();
-
-    if (pendingInput || pendingOutput) {
-      setTranscripts(prev => {
-        const newItems = [...prev];
-        if (pendingInput) {
-          newItems.push({
-            id: Date.now() + '-saved-input',
-            role: 'user',
-            text: pendingInput,
-            isFinal: true,
-            timestamp: now
-          });
-        }
-        if (pendingOutput) {
-          newItems.push({
-            id: Date.now() + '-saved-output',
-            role: 'model',
-            text: pendingOutput,
-            isFinal: true,
-            timestamp: now
-          });
-        }
-        return newItems;
-      });
-    }
+  useEffect(() => {
+    session.client.setInputMode(inputMode);
+    saveSetting('inputMode', inputMode);
+  }, [inputMode]);
 
-    // Reset UI partials
-    setCurrentInput('');
-    setCurrentOutput('');
-    currentTurnInputRef.current = '';
-    currentTurnOutputRef.current = '';
-    
-    if (fullDisconnect) {
-      setStatus(ConnectionStatus.DISCONNECTED);
-    }
-  }, []);
+  useEffect(() => {
+    session.client.setRecordingEnabled(isRecordingEnabled);
+  }, [isRecordingEnabled]);
 
-  const getSystemInstruction = (langCode: string) => {
-    const lang = LANGUAGES.find(l => l.code === langCode);
-    if (langCode === 'none') {
-      return "You are a helpful assistant. Your primary task is to listen to the user. If the user speaks, simply acknowledge it or answer briefly. You can also generate images if the user asks to 'draw' or 'generate an image' by using the render_image tool. Be concise.";
-    }
-    return `You are an expert simultaneous interpreter. Translate the user's speech into ${lang?.name}. Output ONLY the translated text and speak it naturally. Do not add conversational filler.`;
-  };
+  useEffect(() => {
+    session.client.setAudioDevices(audioDevices);
+    saveSetting('audioDevices', audioDevices);
+  }, [audioDevices]);
 
-  const handleDisconnect = async () => {
-    retryCountRef.current = 0;
-    await stopSession(true);
-  };
+  useEffect(() => {
+    session.client.setInputSource(inputSource);
+    saveSetting('inputSource', inputSource);
+  }, [inputSource]);
 
-  // Generate Image Helper
-  const generateImageContent = async (prompt: string) => {
-    try {
-      if (!API_KEY) return;
-      const ai = new GoogleGenAI({ apiKey: API_KEY });
-      
-      setTranscripts(prev => [...prev, {
-        id: Date.now() + '-generating',
-        role: 'model',
-        text: `Generating image: "${prompt}"...`,
-        isFinal: true,
-        timestamp: new Date()
-      }]);
-
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: [{ text: prompt }] },
-      });
+  useEffect(() => {
+    session.client.setInputFile(inputFile, filePlaybackRate);
+  }, [inputFile, filePlaybackRate]);
 
-      let imageBase64 = null;
-      for (const part of response.candidates?.[0]?.content?.parts || []) {
-        if (part.inlineData) {
-           imageBase64 = part.inlineData.data;
-           break;
-        }
-      }
+  useEffect(() => {
+    session.client.setContextCarryover(carryContext);
+    saveSetting('carryContext', carryContext);
+  }, [carryContext]);
 
-      if (imageBase64) {
-         setTranscripts(prev => [...prev, {
-            id: Date.now() + '-image',
-            role: 'model',
-            text: `Here is an image of: ${prompt}`,
-            image: `data:image/png;base64,${imageBase64}`,
-            isFinal: true,
-            timestamp: new Date()
-         }]);
-         return "Image generated successfully and displayed to the user.";
-      } else {
-        return "Failed to generate image.";
-      }
+  useEffect(() => {
+    saveLanguageCatalog(languages);
+  }, [languages]);
 
-    } catch (e) {
-      console.error("Image generation failed", e);
-      return "Error occurred while generating image.";
+  useEffect(() => {
+    saveGlossaries(glossaries);
+  }, [glossaries]);
+
+  // Apply catalogue edits; a selected language that was removed falls back to plain transcription
+  const handleLanguagesChange = (next: LanguageOption[]) => {
+    setLanguages(next);
+    const exists = (code: string) => code === TRANSCRIBE_LANGUAGE.code || next.some(l => l.code === code);
+    if (!exists(selectedLang) || (interpreterPair && !interpreterPair.every(exists))) {
+      handleLanguageChange(TRANSCRIBE_LANGUAGE.code);
+    }
+    if (!pairDraft.every(exists)) {
+      const fallback = visibleLanguages(next);
+      if (fallback.length >= 2) setPairDraft([fallback[0].code, fallback[1].code]);
     }
   };
 
-  const onMessageReceived = useCallback(async (message: LiveServerMessage) => {
-    const inputTxt = message.serverContent?.inputTranscription?.text;
-    if (inputTxt) {
-      currentTurnInputRef.current += inputTxt;
-      setCurrentInput(currentTurnInputRef.current);
+  const startSession = () => {
+    if (!liveTransport) {
+      setNotice("API Key is missing in environment variables.");
+      return;
     }
-
-    const outputTxt = message.serverContent?.outputTranscription?.text;
-    if (outputTxt) {
-      currentTurnOutputRef.current += outputTxt;
-      setCurrentOutput(currentTurnOutputRef.current);
+    setNotice(null);
+    // Leave the archive view and start a fresh record
+    if (viewingSession) {
+      setViewingSession(null);
+      session.clearTranscripts();
     }
+    setLastRecordingId(null);
+    session.start();
+  };
 
-    if (message.toolCall) {
-      for (const fc of message.toolCall.functionCalls) {
-        if (fc.name === 'render_image') {
-          const prompt = (fc.args as any).prompt;
-          const result = await generateImageContent(prompt);
-          
-          if (sessionRef.current) {
-            sessionRef.current.sendToolResponse({
-              functionResponses: {
-                id: fc.id,
-                name: fc.name,
-                response: { result: result }
-              }
-            });
-          }
-        }
-      }
-    }
+  const handleDisconnect = () => session.stop();
 
-    if (message.serverContent?.turnComplete) {
-      const now = new Date();
-      const finalInput = currentTurnInputRef.current.trim();
-      const finalOutput = currentTurnOutputRef.current.trim();
-      
-      if (finalInput) {
-        setTranscripts(prev => [...prev, {
-          id: Date.now() + '-user',
-          role: 'user',
-          text: finalInput,
-          isFinal: true,
-          timestamp: now
-        }]);
-        currentTurnInputRef.current = '';
-        setCurrentInput('');
-      }
+  // While connected the client swaps the Live connection in place and marks the switch
+  const handleLanguageChange = (code: string) => {
+    setSelectedLang(code);
+    setInterpreterPair(null);
+    setIsLangMenuOpen(false);
+    const lang = findLang(code);
+    session.client.setLanguage(code, null, lang ? `${lang.flag} ${lang.name}` : code);
+  };
 
-      if (finalOutput) {
-        setTranscripts(prev => [...prev, {
-          id: Date.now() + '-model',
-          role: 'model',
-          text: finalOutput,
-          isFinal: true,
-          timestamp: now
-        }]);
-        currentTurnOutputRef.current = '';
-        setCurrentOutput('');
-      }
-    }
+  const handleInterpreterPairChange = (pair: LanguagePair) => {
+    setInterpreterPair(pair);
+    setIsLangMenuOpen(false);
+    const [a, b] = pair.map(code => findLang(code)?.name ?? code);
+    session.client.setLanguage(selectedLang, pair, `${a} ⇄ ${b} interpreting`);
+  };
 
-    if (message.serverContent?.interrupted) {
-      currentTurnOutputRef.current = '';
-      setCurrentOutput('');
-      audioSourcesRef.current.forEach(source => {
-        try { source.stop(); } catch (e) {}
-      });
-      audioSourcesRef.current.clear();
-      nextStartTimeRef.current = 0;
-    }
-  }, []);
+  toolHostRef.current = {
+    generateImage: API_KEY ? (prompt, source) => generateImage(API_KEY, prompt, source) : undefined,
+    onImageSaved: () => setGalleryRefreshToken(t => t + 1),
+    languages: () => visibleLanguages(languages),
+    setTargetLanguage: handleLanguageChange,
+    notify: setNotice,
+    reminders,
+  };
 
-  const startSession = async () => {
-    if (!API_KEY) {
-      setErrorMsg("API Key is missing in environment variables.");
+  const handleOpenSession = (record: SessionRecord) => {
+    if (status === ConnectionStatus.CONNECTED || status === ConnectionStatus.CONNECTING) {
+      setNotice("Stop the live session before opening one from history.");
       return;
     }
-    
-    setErrorMsg(null);
-    setStatus(ConnectionStatus.CONNECTING);
-
-    try {
-      // 1. Initialize Shared Audio Context
-      const inputCtx = await initAudioContext();
-      
-      // Initialize Output Context for playback (can be separate or same, keeping separate for simplicity with decoding)
-      if (!outputAudioContextRef.current || outputAudioContextRef.current.state === 'closed') {
-         const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-         outputAudioContextRef.current = new AudioContextClass();
-      }
-      await outputAudioContextRef.current.resume();
-
-      // 2. Load Audio Worklet (Once)
-      if (!isWorkletLoadedRef.current) {
-        const blob = new Blob([AUDIO_WORKLET_CODE], { type: 'application/javascript' });
-        const workletUrl = URL.createObjectURL(blob);
-        try {
-          await inputCtx.audioWorklet.addModule(workletUrl);
-          isWorkletLoadedRef.current = true;
-        } catch (e) {
-           console.warn("Worklet addModule error (likely already loaded):", e);
-           isWorkletLoadedRef.current = true; // Assume loaded if it fails usually
-        }
-      }
+    setNotice(null);
+    setViewingSession(record);
+    setIsHistoryOpen(false);
+  };
 
-      // 3. Get Mic Stream
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        audio: {
-            channelCount: 1,
-            echoCancellation: true,
-            autoGainControl: true,
-            noiseSuppression: true
-        } 
+  // Batch jobs use the language selection at the time they are added
+  const handleAddBatchFiles = async (files: File[]) => {
+    for (const file of files) {
+      await batch.queue.addFile(file, {
+        targetLang: selectedLang,
+        interpreterPair: interpreterPair ?? undefined,
+        instruction: getSystemInstruction(selectedLang, interpreterPair),
+        model: resolveVoiceSettings(voiceSettings, voiceSettingsKey(selectedLang, interpreterPair)).model,
       });
-      mediaStreamRef.current = stream;
+    }
+  };
 
-      // 4. Create Graph Nodes
-      const source = inputCtx.createMediaStreamSource(stream);
-      const workletNode = new AudioWorkletNode(inputCtx, 'recorder-processor');
-      
-      // Store Refs
-      sourceNodeRef.current = source;
-      workletNodeRef.current = workletNode;
-
-      // 5. Connect Graph: Source -> Analyser -> Worklet -> Destination
-      // We use the globalAnalyserRef which is already attached to state
-      if (globalAnalyserRef.current) {
-        source.connect(globalAnalyserRef.current);
-        globalAnalyserRef.current.connect(workletNode);
-      } else {
-        // Fallback if something weird happened
-        source.connect(workletNode);
-      }
-      workletNode.connect(inputCtx.destination);
-
-      // 6. Handle Data
-      workletNode.port.onmessage = (event) => {
-        if (!sessionRef.current) return;
-        const inputData = event.data;
-        const pcmBlob = createPcmBlob(inputData);
-        sessionRef.current.sendRealtimeInput({ media: pcmBlob }).catch(() => {});
-      };
-
-      // 7. Connect Gemini
-      const ai = new GoogleGenAI({ apiKey: API_KEY });
-      const instruction = getSystemInstruction(selectedLang);
-
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } }
-          },
-          systemInstruction: instruction,
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
-          tools: [{ functionDeclarations: [renderImageTool] }],
-        },
-        callbacks: {
-          onopen: () => {
-             console.log("Session Connected");
-             setStatus(ConnectionStatus.CONNECTED);
-             sessionPromise.then(sess => sessionRef.current = sess);
-             retryCountRef.current = 0; 
-          },
-          onmessage: (msg) => {
-             onMessageReceived(msg);
-
-             // Audio Playback
-             const base64Audio = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-             if (base64Audio && outputAudioContextRef.current) {
-                const ctx = outputAudioContextRef.current;
-                const startTime = Math.max(nextStartTimeRef.current, ctx.currentTime);
-
-                // console.log("base64Audio="+base64Audio);
-                
-                decodeAudioData(base64Audio, ctx, 24000).then(buffer => {
-                   const source = ctx.createBufferSource();
-                   source.buffer = buffer;
-                   source.connect(ctx.destination);
-                   source.start(startTime);
-                   nextStartTimeRef.current = startTime + buffer.duration;
-                   audioSourcesRef.current.add(source);
-                   source.onended = () => audioSourcesRef.current.delete(source);
-                }).catch(console.error);
-             }
-          },
-          onclose: (e) => {
-            console.log("Session Closed", e);
-            // If closed by server, just stop. 
-            // If closed manually, handleDisconnect handles state.
-            if (status !== ConnectionStatus.DISCONNECTED) {
-                 stopSession(true);
-            }
-          },
-          onerror: (err) => {
-            console.error("Session error:", err);
-            const message = err instanceof Error ? err.message : "Connection lost";
-            
-            if (retryCountRef.current < MAX_RETRIES) {
-              const nextRetry = retryCountRef.current + 1;
-              setStatus(ConnectionStatus.CONNECTING);
-              setErrorMsg(`Connection lost. Reconnecting (${nextRetry}/${MAX_RETRIES})...`);
-              retryCountRef.current = nextRetry;
-
-              stopSession(false).then(() => {
-                reconnectTimeoutRef.current = setTimeout(() => {
-                  startSession();
-                }, 2000);
-              });
-            } else {
-              setErrorMsg(message + " (Max retries reached)");
-              setStatus(ConnectionStatus.ERROR);
-              stopSession(false);
-            }
-          }
-        }
-      });
+  const handleOpenBatchJob = (record: SessionRecord) => {
+    handleOpenSession(record);
+    setIsBatchOpen(false);
+  };
 
-    } catch (e: any) {
-      console.error("Failed to start session:", e);
-      setErrorMsg(e.message || "Failed to access microphone or connect.");
-      setStatus(ConnectionStatus.ERROR);
-      stopSession(false);
-    }
+  const handleCloseArchive = () => {
+    setViewingSession(null);
+    session.clearTranscripts();
   };
 
-  const handleLanguageChange = async (code: string) => {
-    setSelectedLang(code);
-    setIsLangMenuOpen(false);
-    if (status === ConnectionStatus.CONNECTED) {
-      await handleDisconnect();
-      // Optional: Auto-restart with new language
-      // startSession(); 
-    }
+  // Hold Space to talk in push-to-talk mode (ignored while typing in a field)
+  useEffect(() => {
+    if (inputMode !== 'push-to-talk' || status !== ConnectionStatus.CONNECTED) return;
+
+    const isTypingTarget = (target: EventTarget | null) => {
+      const el = target as HTMLElement | null;
+      return !!el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.isContentEditable);
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTypingTarget(e.target)) return;
+      e.preventDefault();
+      if (!e.repeat) startTalking();
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTypingTarget(e.target)) return;
+      e.preventDefault();
+      stopTalking();
+    };
+    // Releasing the key in another window would otherwise leave the mic open
+    const onBlur = () => stopTalking();
+
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+    };
+  }, [inputMode, status]);
+
+  const activeLang = findLang(selectedLang);
+  const pairLangs = interpreterPair ? interpreterPair.map(findLang) : null;
+  const interpretableLanguages = visibleLanguages(languages);
+  const menuLanguages = [TRANSCRIBE_LANGUAGE, ...interpretableLanguages].filter(lang => matchesLanguageQuery(lang, langQuery));
+
+  // Voice and model settings follow the current language selection
+  const selectionLabel = pairLangs ? `${pairLangs[0]?.name} ⇄ ${pairLangs[1]?.name}` : activeLang?.name ?? selectedLang;
+  const voiceKey = voiceSettingsKey(selectedLang, interpreterPair);
+  const activeVoice = resolveVoiceSettings(voiceSettings, voiceKey);
+
+  const handlePreviewVoice = async (voiceName: string) => {
+    const clip = await generateVoicePreview(API_KEY!, voiceName, `Hi, I'm ${voiceName}. This is how your translations will sound.`);
+    if (!clip) throw new Error("No preview audio returned");
+    await playVoicePreview(clip, audioDevices.outputDeviceId);
   };
 
-  const activeLang = LANGUAGES.find(l => l.code === selectedLang);
+  // Interpreter turns show their direction instead of You/Translation, or just the pair when it is unknown
+  const turnLabel = (item: TranscriptItem) => {
+    const langLabel = (code: string) => {
+      const lang = findLang(code);
+      return `${lang?.flag ?? ''} ${lang?.name ?? code}`;
+    };
+    if (item.sourceLang && item.targetLang) return `${langLabel(item.sourceLang)} → ${langLabel(item.targetLang)}`;
+
+    const speaker = item.role === 'user'
+      ? (item.typed ? 'You (typed)' : item.source ? SOURCE_LABELS[item.source] : 'You')
+      : transcriptLangCode === 'none' ? 'Gemini' : 'Translation';
+    return item.interpreterPair ? `${speaker} · ${item.interpreterPair.map(langLabel).join(' ⇄ ')}` : speaker;
+  };
+  const recordingPanelId = viewingSession ? viewingSession.recordingId : lastRecordingId;
+  // Archived sessions are labelled with the language they were recorded in
+  const transcriptLangCode = viewingSession ? viewingSession.targetLang : selectedLang;
+
+  // Glossary for the language selection being edited, and the one the transcript was produced under
+  const activeGlossaryPair = glossaryPairFor(selectedLang, interpreterPair);
+  const transcriptGlossaryPair = viewingSession
+    ? glossaryPairFor(viewingSession.targetLang, viewingSession.interpreterPair ?? null)
+    : activeGlossaryPair;
+  const glossaryLabel = (code: string) => (code === ANY_LANGUAGE ? 'Any language' : findLang(code)?.name ?? code);
+
+  // Post-check finalised model turns against the glossary, using the source speech since the previous output
+  const glossaryViolations = useMemo(() => {
+    const result = new Map<string, GlossaryViolation[]>();
+    const entries = transcriptGlossaryPair ? glossaries[glossaryKey(transcriptGlossaryPair)] ?? [] : [];
+    if (!transcriptGlossaryPair || entries.length === 0) return result;
+
+    let sourceText = '';
+    for (const item of transcripts) {
+      if (item.role === 'system') {
+        sourceText = '';
+      } else if (item.role === 'user') {
+        sourceText += ' ' + item.text;
+      } else if (item.isFinal && sourceText) {
+        // In two-way mode, output into the pair's first language reads the glossary backwards
+        const reversed = transcriptGlossaryPair[0] !== ANY_LANGUAGE && item.targetLang === transcriptGlossaryPair[0];
+        const violations = findGlossaryViolations(sourceText, item.text, entries, reversed);
+        if (violations.length > 0) result.set(item.id, violations);
+        sourceText = '';
+      }
+    }
+    return result;
+  }, [transcripts, glossaries, transcriptGlossaryPair?.[0], transcriptGlossaryPair?.[1]]);
 
   return (
     <div className="h-screen bg-slate-950 text-slate-100 flex flex-col relative overflow-hidden font-sans selection:bg-blue-500/30">
@@ -508,21 +475,56 @@ const App: React.FC = () => {
             </div>
           </div>
 
-          <div className={`px-3 py-1.5 rounded-full text-xs font-semibold flex items-center gap-2 border backdrop-blur-md transition-all duration-300 ${
-            status === ConnectionStatus.CONNECTED 
-              ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20 shadow-[0_0_15px_rgba(16,185,129,0.2)]' 
-              : status === ConnectionStatus.CONNECTING 
-              ? 'bg-amber-500/10 text-amber-400 border-amber-500/20' 
-              : status === ConnectionStatus.ERROR
-              ? 'bg-red-500/10 text-red-400 border-red-500/20'
-              : 'bg-slate-800/50 text-slate-400 border-slate-700'
-          }`}>
-            <div className={`w-2 h-2 rounded-full ${
-              status === ConnectionStatus.CONNECTED ? 'bg-emerald-400 animate-pulse' : 
-              status === ConnectionStatus.CONNECTING ? 'bg-amber-400 animate-bounce' : 
-              status === ConnectionStatus.ERROR ? 'bg-red-500' : 'bg-slate-500'
-            }`} />
-            {status === ConnectionStatus.DISCONNECTED ? 'READY' : status === ConnectionStatus.CONNECTED ? 'LIVE' : status.toUpperCase()}
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setIsHistoryOpen(true)}
+              className="p-2.5 rounded-xl bg-slate-800/50 text-slate-400 hover:bg-slate-800 hover:text-slate-200 transition-colors border border-transparent hover:border-slate-700"
+              title="Session History"
+            >
+              <History size={18} />
+            </button>
+            <button
+              onClick={() => setIsBatchOpen(true)}
+              disabled={!liveTransport}
+              className="relative p-2.5 rounded-xl bg-slate-800/50 text-slate-400 hover:bg-slate-800 hover:text-slate-200 transition-colors border border-transparent hover:border-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Batch file transcription"
+            >
+              <FileStack size={18} />
+              {batch.jobs.some(job => job.status === 'running' || job.status === 'queued') && (
+                <span className="absolute top-1.5 right-1.5 w-2 h-2 rounded-full bg-blue-500 animate-pulse" />
+              )}
+            </button>
+            <button
+              onClick={() => setIsSubtitleModeOpen(true)}
+              className="p-2.5 rounded-xl bg-slate-800/50 text-slate-400 hover:bg-slate-800 hover:text-slate-200 transition-colors border border-transparent hover:border-slate-700"
+              title="Presentation mode: full-screen captions"
+            >
+              <Captions size={18} />
+            </button>
+            <button
+              onClick={() => setIsGalleryOpen(true)}
+              className="p-2.5 rounded-xl bg-slate-800/50 text-slate-400 hover:bg-slate-800 hover:text-slate-200 transition-colors border border-transparent hover:border-slate-700"
+              title="Image gallery"
+            >
+              <Images size={18} />
+            </button>
+
+            <div className={`px-3 py-1.5 rounded-full text-xs font-semibold flex items-center gap-2 border backdrop-blur-md transition-all duration-300 ${
+              status === ConnectionStatus.CONNECTED 
+                ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20 shadow-[0_0_15px_rgba(16,185,129,0.2)]' 
+                : status === ConnectionStatus.CONNECTING 
+                ? 'bg-amber-500/10 text-amber-400 border-amber-500/20' 
+                : status === ConnectionStatus.ERROR
+                ? 'bg-red-500/10 text-red-400 border-red-500/20'
+                : 'bg-slate-800/50 text-slate-400 border-slate-700'
+            }`}>
+              <div className={`w-2 h-2 rounded-full ${
+                status === ConnectionStatus.CONNECTED ? 'bg-emerald-400 animate-pulse' : 
+                status === ConnectionStatus.CONNECTING ? 'bg-amber-400 animate-bounce' : 
+                status === ConnectionStatus.ERROR ? 'bg-red-500' : 'bg-slate-500'
+              }`} />
+              {status === ConnectionStatus.DISCONNECTED ? 'READY' : status === ConnectionStatus.CONNECTED ? 'LIVE' : status.toUpperCase()}
+            </div>
           </div>
         </div>
       </header>
@@ -530,13 +532,43 @@ const App: React.FC = () => {
       {/* SCROLLABLE CONTENT */}
       <main className="flex-1 overflow-y-auto relative z-10 w-full">
         <div className="w-full max-w-3xl mx-auto px-4 py-6">
-          {/* Error Banner */}
-          {errorMsg && (
+          {/* Reconnect / Error Banner */}
+          {reconnect && !notice ? (
+             <ReconnectBanner reconnect={reconnect} onRetryNow={session.retryNow} />
+          ) : errorMsg && (
              <div className="w-full mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-sm text-center animate-pulse flex items-center justify-center gap-2">
                 <span>⚠️</span> {errorMsg}
              </div>
           )}
 
+          {/* Archived Session Banner */}
+          {viewingSession && (
+             <div className="w-full mb-4 px-4 py-3 bg-slate-900/80 border border-slate-700 rounded-xl text-sm flex items-center justify-between gap-3">
+                <div className="flex items-center gap-2 min-w-0 text-slate-300">
+                  <History size={16} className="text-slate-500 shrink-0" />
+                  <span className="truncate">
+                    <span className="font-medium">{viewingSession.title}</span>
+                    <span className="text-slate-500"> · {viewingSession.startedAt.toLocaleString()}</span>
+                  </span>
+                </div>
+                <button
+                  onClick={handleCloseArchive}
+                  className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs text-slate-400 hover:bg-slate-800 hover:text-slate-200 shrink-0"
+                >
+                  <X size={14} /> Close
+                </button>
+             </div>
+          )}
+
+          {/* Session Audio Downloads */}
+          {recordingPanelId && recordingPanelId !== dismissedRecordingId && status !== ConnectionStatus.CONNECTED && (
+            <RecordingPanel
+              recordingId={recordingPanelId}
+              title={viewingSession?.title}
+              onDismiss={() => setDismissedRecordingId(recordingPanelId)}
+            />
+          )}
+
           {/* Empty State */}
           {transcripts.length === 0 && !currentInput && (
             <div className="h-[60vh] flex flex-col items-center justify-center text-slate-600">
@@ -550,7 +582,13 @@ const App: React.FC = () => {
 
           {/* Transcripts */}
           <div className="space-y-6">
-            {transcripts.map((item) => (
+            {transcripts.map((item) => item.role === 'system' ? (
+              <div key={item.id} className="flex items-center gap-3 text-[11px] font-medium text-slate-500">
+                <div className="flex-1 h-px bg-slate-800" />
+                {item.text}
+                <div className="flex-1 h-px bg-slate-800" />
+              </div>
+            ) : (
               <div key={item.id} className={`flex w-full ${item.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                 <div className={`max-w-[85%] flex flex-col gap-1 ${item.role === 'user' ? 'items-end' : 'items-start'}`}>
                   
@@ -558,25 +596,51 @@ const App: React.FC = () => {
                   <div className={`px-5 py-3.5 rounded-2xl text-[15px] leading-relaxed shadow-sm whitespace-pre-wrap break-words ${
                     item.role === 'user' 
                     ? 'bg-blue-600 text-white rounded-tr-sm' 
-                    : 'bg-slate-800 text-slate-200 rounded-tl-sm border border-slate-700'
+                    : glossaryViolations.has(item.id)
+                      ? 'bg-slate-800 text-slate-200 rounded-tl-sm border border-amber-500/60'
+                      : 'bg-slate-800 text-slate-200 rounded-tl-sm border border-slate-700'
                   }`}>
                     {item.text}
+                    {item.interruption && <span className="text-slate-500">…</span>}
                   </div>
 
-                  {/* Image Display */}
-                  {item.image && (
-                    <div className="mt-2 rounded-xl overflow-hidden border border-slate-700 shadow-lg">
-                       <img src={item.image} alt="Generated content" className="max-w-full h-auto max-h-[400px] object-contain bg-black" />
-                       <div className="px-3 py-1.5 bg-slate-900/80 text-xs text-slate-400 flex items-center gap-1">
-                          <ImageIcon size={12} />
-                          Generated with Gemini
-                       </div>
+                  {/* Barge-in: how much of the cut-off turn was actually heard */}
+                  {item.interruption && (
+                    <div className="flex items-center gap-1.5 px-1 text-[11px] text-slate-500">
+                      <Scissors size={12} className="shrink-0" />
+                      {item.interruption.receivedMs > 0
+                        ? `Interrupted after ${(item.interruption.playedMs / 1000).toFixed(1)} s of ${(item.interruption.receivedMs / 1000).toFixed(1)} s`
+                        : 'Interrupted'}
                     </div>
                   )}
 
-                  <span className="text-[10px] text-slate-500 font-medium px-1">
-                    {item.role === 'user' ? 'You' : activeLang?.code === 'none' ? 'Gemini' : 'Translation'}
-                  </span>
+                  {/* Image Display */}
+                  {(item.image || item.imageId || item.imageStatus) && <TranscriptImage item={item} />}
+
+                  {/* Glossary post-check */}
+                  {glossaryViolations.get(item.id)?.map(v => (
+                    <div key={v.entry.id} className="flex items-center gap-1.5 px-1 text-[11px] text-amber-400/90">
+                      <AlertTriangle size={12} className="shrink-0" />
+                      {v.entry.doNotTranslate
+                        ? <span>"{v.found}" should be kept untranslated</span>
+                        : <span>"{v.found}" should be rendered as "{v.expected}"</span>}
+                    </div>
+                  ))}
+
+                  <div className="flex items-center gap-1.5 px-1">
+                    {replayableIds.has(item.id) && (
+                      <button
+                        onClick={() => session.replayingId === item.id ? session.stopReplay() : session.replay(item.id)}
+                        className="p-0.5 rounded text-slate-500 hover:text-slate-200 transition-colors"
+                        title={session.replayingId === item.id ? 'Stop replay' : 'Replay audio'}
+                      >
+                        {session.replayingId === item.id ? <Square size={11} /> : <Play size={11} />}
+                      </button>
+                    )}
+                    <span className="text-[10px] text-slate-500 font-medium">
+                      {turnLabel(item)}
+                    </span>
+                  </div>
                 </div>
               </div>
             ))}
@@ -613,59 +677,191 @@ const App: React.FC = () => {
          <div className="w-full max-w-3xl mx-auto px-4 pb-6 pt-2">
             
             {/* Visualizer Area */}
-            <div className="relative w-full h-16 bg-slate-900/50 rounded-xl border border-slate-800/60 backdrop-blur-sm overflow-hidden flex items-center justify-center mb-4 shrink-0 shadow-inner mt-2">
-              <AudioVisualizer 
-                isActive={status === ConnectionStatus.CONNECTED || status === ConnectionStatus.CONNECTING} 
-                analyser={audioAnalyser} 
+            <div className="relative w-full mb-4 mt-2 shrink-0">
+              <div className="relative w-full h-16 bg-slate-900/50 rounded-xl border border-slate-800/60 backdrop-blur-sm overflow-hidden flex items-center justify-center shadow-inner">
+                <AudioVisualizer 
+                  isActive={status === ConnectionStatus.CONNECTED || status === ConnectionStatus.CONNECTING} 
+                  analyser={session.analyser} 
+                />
+                
+                {session.fileProgress && (
+                   <div className="absolute left-3 bottom-1.5 text-[10px] font-mono text-slate-500 truncate max-w-[60%]">
+                      {session.fileProgress.name} · {formatClock(session.fileProgress.elapsedSec)} / {formatClock(session.fileProgress.durationSec)}
+                   </div>
+                )}
+
+                {!liveTransport && (
+                   <div className="absolute inset-0 flex items-center justify-center bg-slate-950/80 z-20 backdrop-blur-[2px]">
+                       <div className="px-4 py-2 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-xs font-mono">
+                          MISSING_API_KEY
+                       </div>
+                   </div>
+                )}
+              </div>
+
+              {/* Speaking/Silent indicator sits outside the clipped area so its popover can open */}
+              <VadControls
+                settings={vadSettings}
+                onChange={setVadSettings}
+                isSpeaking={isSpeaking}
+                isActive={status === ConnectionStatus.CONNECTED}
               />
-              
-              {!API_KEY && (
-                 <div className="absolute inset-0 flex items-center justify-center bg-slate-950/80 z-20 backdrop-blur-[2px]">
-                     <div className="px-4 py-2 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-xs font-mono">
-                        MISSING_API_KEY
-                     </div>
-                 </div>
-              )}
             </div>
 
             {/* Controls Bar */}
             <div className="w-full bg-slate-900/80 border border-slate-800 rounded-3xl p-2.5 flex items-center justify-between backdrop-blur-xl relative z-20">
               
-              {/* Left: Language Selector */}
-              <div className="relative">
-                 <button 
-                   onClick={() => setIsLangMenuOpen(!isLangMenuOpen)}
-                   disabled={status === ConnectionStatus.CONNECTING}
-                   className="flex items-center gap-2 px-4 py-3 rounded-2xl bg-slate-800 hover:bg-slate-700 text-slate-200 transition-all border border-slate-700/50 hover:border-slate-600 disabled:opacity-50"
-                 >
-                    <span className="text-lg">{activeLang?.flag}</span>
-                    <span className="text-sm font-medium hidden sm:inline-block">{activeLang?.name}</span>
-                    <ChevronDown size={16} className={`text-slate-400 transition-transform duration-200 ${isLangMenuOpen ? 'rotate-180' : ''}`} />
-                 </button>
+              {/* Left: Language Selector & Input Mode */}
+              <div className="flex items-center gap-2">
+                <div className="relative">
+                   <button 
+                     onClick={() => { setIsLangMenuOpen(!isLangMenuOpen); setLangQuery(''); }}
+                     disabled={status === ConnectionStatus.CONNECTING}
+                     className="flex items-center gap-2 px-4 py-3 rounded-2xl bg-slate-800 hover:bg-slate-700 text-slate-200 transition-all border border-slate-700/50 hover:border-slate-600 disabled:opacity-50"
+                   >
+                      <span className="text-lg">{pairLangs ? `${pairLangs[0]?.flag}⇄${pairLangs[1]?.flag}` : activeLang?.flag}</span>
+                      <span className="text-sm font-medium hidden sm:inline-block">
+                        {pairLangs ? `${pairLangs[0]?.name} ⇄ ${pairLangs[1]?.name}` : activeLang?.name}
+                      </span>
+                      <ChevronDown size={16} className={`text-slate-400 transition-transform duration-200 ${isLangMenuOpen ? 'rotate-180' : ''}`} />
+                   </button>
+
+                   {isLangMenuOpen && (
+                     <div className="absolute bottom-full left-0 mb-3 w-72 max-h-[70vh] overflow-y-auto bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl py-2 z-50">
+                        <div className="px-4 py-2 text-xs font-semibold text-slate-500 uppercase tracking-wider">Target Language</div>
+                        {interpretableLanguages.length + 1 > LANGUAGE_SEARCH_THRESHOLD && (
+                          <div className="px-3 pb-2">
+                            <div className="flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-800 border border-slate-700/50">
+                              <Search size={14} className="text-slate-500" />
+                              <input
+                                autoFocus
+                                value={langQuery}
+                                onChange={e => setLangQuery(e.target.value)}
+                                placeholder="Search languages..."
+                                className="flex-1 min-w-0 bg-transparent text-sm text-slate-200 placeholder-slate-500 outline-none"
+                              />
+                            </div>
+                          </div>
+                        )}
+                        {menuLanguages.length === 0 && (
+                          <div className="px-4 py-3 text-sm text-slate-500">No languages match.</div>
+                        )}
+                        {menuLanguages.map(lang => (
+                          <button
+                            key={lang.code}
+                            onClick={() => handleLanguageChange(lang.code)}
+                            className={`w-full px-4 py-3 flex items-center justify-between hover:bg-slate-800 transition-colors text-left ${!interpreterPair && selectedLang === lang.code ? 'bg-blue-900/20 text-blue-400' : 'text-slate-300'}`}
+                          >
+                             <div className="flex items-center gap-3">
+                               <span className="text-lg">{lang.flag}</span>
+                               <span className="text-sm font-medium">{lang.name}</span>
+                               {lang.favourite && <Star size={12} className="text-amber-400" fill="currentColor" />}
+                             </div>
+                             {!interpreterPair && selectedLang === lang.code && <Check size={16} />}
+                          </button>
+                        ))}
+
+                        {/* Two-way Interpreter */}
+                        <div className="mt-2 pt-2 border-t border-slate-800">
+                          <div className="px-4 py-2 text-xs font-semibold text-slate-500 uppercase tracking-wider">Interpreter (Two-way)</div>
+                          <div className="px-4 py-2 flex items-center gap-2">
+                            {[0, 1].map(side => (
+                              <React.Fragment key={side}>
+                                {side === 1 && <ArrowLeftRight size={16} className="text-slate-500 shrink-0" />}
+                                <select
+                                  value={pairDraft[side]}
+                                  onChange={e => {
+                                    const code = e.target.value;
+                                    setPairDraft(side === 0 ? [code, pairDraft[1]] : [pairDraft[0], code]);
+                                  }}
+                                  className="flex-1 min-w-0 px-2 py-2 rounded-xl bg-slate-800 border border-slate-700/50 text-sm text-slate-200 outline-none"
+                                >
+                                  {interpretableLanguages.map(lang => (
+                                    <option key={lang.code} value={lang.code}>{lang.flag} {lang.name}</option>
+                                  ))}
+                                </select>
+                              </React.Fragment>
+                            ))}
+                          </div>
+                          <button
+                            onClick={() => handleInterpreterPairChange(pairDraft)}
+                            disabled={pairDraft[0] === pairDraft[1]}
+                            className={`w-full px-4 py-3 flex items-center justify-between hover:bg-slate-800 transition-colors text-left text-sm font-medium disabled:opacity-40 disabled:cursor-not-allowed ${
+                              interpreterPair && interpreterPair[0] === pairDraft[0] && interpreterPair[1] === pairDraft[1] ? 'bg-blue-900/20 text-blue-400' : 'text-slate-300'
+                            }`}
+                          >
+                            Interpret both ways
+                            {interpreterPair && interpreterPair[0] === pairDraft[0] && interpreterPair[1] === pairDraft[1] && <Check size={16} />}
+                          </button>
+                        </div>
+
+                        <div className="mt-2 pt-2 border-t border-slate-800">
+                          <button
+                            onClick={() => { setIsLangMenuOpen(false); setIsLanguageSettingsOpen(true); }}
+                            className="w-full px-4 py-3 flex items-center gap-3 hover:bg-slate-800 transition-colors text-left text-sm font-medium text-slate-400 hover:text-slate-200"
+                          >
+                            <Settings2 size={16} /> Manage languages
+                          </button>
+                          <button
+                            onClick={() => { setIsLangMenuOpen(false); setIsGlossaryOpen(true); }}
+                            disabled={!activeGlossaryPair}
+                            className="w-full px-4 py-3 flex items-center gap-3 hover:bg-slate-800 transition-colors text-left text-sm font-medium text-slate-400 hover:text-slate-200 disabled:opacity-40 disabled:cursor-not-allowed"
+                            title={activeGlossaryPair ? undefined : "Choose a target language to edit its glossary"}
+                          >
+                            <BookText size={16} /> Glossary
+                            {activeGlossaryPair && (
+                              <span className="ml-auto text-xs text-slate-500">{glossaries[glossaryKey(activeGlossaryPair)]?.length ?? 0} terms</span>
+                            )}
+                          </button>
+                        </div>
+                     </div>
+                   )}
+                </div>
 
-                 {isLangMenuOpen && (
-                   <div className="absolute bottom-full left-0 mb-3 w-64 bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden py-2 z-50">
-                      <div className="px-4 py-2 text-xs font-semibold text-slate-500 uppercase tracking-wider">Target Language</div>
-                      {LANGUAGES.map(lang => (
-                        <button
-                          key={lang.code}
-                          onClick={() => handleLanguageChange(lang.code)}
-                          className={`w-full px-4 py-3 flex items-center justify-between hover:bg-slate-800 transition-colors text-left ${selectedLang === lang.code ? 'bg-blue-900/20 text-blue-400' : 'text-slate-300'}`}
-                        >
-                           <div className="flex items-center gap-3">
-                             <span className="text-lg">{lang.flag}</span>
-                             <span className="text-sm font-medium">{lang.name}</span>
-                           </div>
-                           {selectedLang === lang.code && <Check size={16} />}
-                        </button>
-                      ))}
-                   </div>
-                 )}
+                <InputSourcePicker
+                  source={inputSource}
+                  onChange={setInputSource}
+                  file={inputFile}
+                  onFileChange={setInputFile}
+                  playbackRate={filePlaybackRate}
+                  onPlaybackRateChange={setFilePlaybackRate}
+                  disabled={status === ConnectionStatus.CONNECTED || status === ConnectionStatus.CONNECTING}
+                />
+
+                <InputModeToggle
+                  mode={inputMode}
+                  onChange={setInputMode}
+                  disabled={status === ConnectionStatus.CONNECTED || status === ConnectionStatus.CONNECTING}
+                />
               </div>
 
               {/* Center: Main Action */}
               <div className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2">
-                {status === ConnectionStatus.CONNECTED ? (
+                {status === ConnectionStatus.CONNECTED && inputMode === 'push-to-talk' ? (
+                  <>
+                    <button
+                      onPointerDown={e => { e.currentTarget.setPointerCapture(e.pointerId); startTalking(); }}
+                      onPointerUp={stopTalking}
+                      onPointerCancel={stopTalking}
+                      onContextMenu={e => e.preventDefault()}
+                      className={`w-16 h-16 rounded-full flex items-center justify-center text-white transition-all transform select-none touch-none ${
+                        isTalkHeld
+                          ? 'bg-emerald-500 scale-110 shadow-[0_0_30px_rgba(16,185,129,0.6)]'
+                          : 'bg-blue-600 hover:bg-blue-500 shadow-[0_0_20px_rgba(37,99,235,0.4)]'
+                      }`}
+                      title="Hold to talk (or hold Space)"
+                    >
+                      <Mic size={28} className={isTalkHeld ? 'animate-pulse' : ''} />
+                    </button>
+                    <button
+                      onClick={handleDisconnect}
+                      className="absolute left-full top-1/2 -translate-y-1/2 ml-3 w-9 h-9 rounded-full bg-red-500 hover:bg-red-600 flex items-center justify-center text-white shadow-[0_0_12px_rgba(239,68,68,0.4)] transition-colors"
+                      title="End session"
+                    >
+                      <StopCircle size={16} fill="currentColor" />
+                    </button>
+                  </>
+                ) : status === ConnectionStatus.CONNECTED || reconnect ? (
                   <button 
                     onClick={handleDisconnect}
                     className="w-16 h-16 rounded-full bg-red-500 hover:bg-red-600 flex items-center justify-center text-white shadow-[0_0_20px_rgba(239,68,68,0.4)] hover:shadow-[0_0_30px_rgba(239,68,68,0.6)] transition-all transform hover:scale-105 active:scale-95 group"
@@ -675,7 +871,7 @@ const App: React.FC = () => {
                 ) : (
                   <button 
                     onClick={startSession}
-                    disabled={!API_KEY || status === ConnectionStatus.CONNECTING}
+                    disabled={!liveTransport || status === ConnectionStatus.CONNECTING}
                     className="w-16 h-16 rounded-full bg-blue-600 hover:bg-blue-500 flex items-center justify-center text-white shadow-[0_0_20px_rgba(37,99,235,0.4)] hover:shadow-[0_0_30px_rgba(37,99,235,0.6)] transition-all transform hover:scale-105 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed disabled:shadow-none"
                   >
                      {status === ConnectionStatus.CONNECTING ? (
@@ -689,11 +885,75 @@ const App: React.FC = () => {
 
               {/* Right: Utility */}
               <div className="flex items-center gap-2">
+                 <button
+                   onClick={() => setIsRecordingEnabled(!isRecordingEnabled)}
+                   disabled={status === ConnectionStatus.CONNECTED || status === ConnectionStatus.CONNECTING}
+                   className={`p-3 rounded-xl transition-colors border disabled:opacity-50 ${
+                     isRecordingEnabled
+                       ? 'bg-red-500/10 text-red-400 border-red-500/20 hover:bg-red-500/20'
+                       : 'bg-slate-800/50 text-slate-400 border-transparent hover:bg-slate-800 hover:text-slate-200 hover:border-slate-700'
+                   }`}
+                   title={isRecordingEnabled ? 'Session audio will be recorded' : 'Session audio recording is off'}
+                 >
+                   <CircleDot size={18} />
+                 </button>
+                 <button
+                   onClick={() => setIsDevicePanelOpen(true)}
+                   className="p-3 rounded-xl bg-slate-800/50 text-slate-400 hover:bg-slate-800 hover:text-slate-200 transition-colors border border-transparent hover:border-slate-700"
+                   title={session.micLabel ? `Audio devices (mic: ${session.micLabel})` : 'Audio devices'}
+                 >
+                   <Headphones size={18} />
+                 </button>
+                 <PlaybackControls
+                   settings={playback}
+                   onChange={setPlayback}
+                   bargeIn={bargeIn}
+                   onBargeInChange={setBargeIn}
+                   isActive={status === ConnectionStatus.CONNECTED}
+                 />
+                 <VisualCaptureControls
+                   source={session.visualSource}
+                   stream={session.visualStream}
+                   settings={visualSettings}
+                   onChange={setVisualSettings}
+                   onStart={session.startVisual}
+                   onStop={session.stopVisual}
+                   onSnap={async () => {
+                     await session.snapFrame();
+                     setGalleryRefreshToken(t => t + 1);
+                   }}
+                   isActive={status === ConnectionStatus.CONNECTED}
+                 />
+                 <button
+                   onClick={() => setIsVoicePanelOpen(true)}
+                   className="p-3 rounded-xl bg-slate-800/50 text-slate-400 hover:bg-slate-800 hover:text-slate-200 transition-colors border border-transparent hover:border-slate-700"
+                   title={`Voice & model: ${activeVoice.responseModality === 'text' ? 'text responses' : activeVoice.voiceName}`}
+                 >
+                   <AudioLines size={18} />
+                 </button>
+                 <button
+                   onClick={() => setCarryContext(!carryContext)}
+                   className={`p-3 rounded-xl transition-colors border ${
+                     carryContext
+                       ? 'bg-blue-500/10 text-blue-400 border-blue-500/20 hover:bg-blue-500/20'
+                       : 'bg-slate-800/50 text-slate-400 border-transparent hover:bg-slate-800 hover:text-slate-200 hover:border-slate-700'
+                   }`}
+                   title={carryContext
+                     ? 'Renewed sessions are seeded with the recent transcript'
+                     : 'Renewed sessions start without earlier context'}
+                 >
+                   <MessagesSquare size={18} />
+                 </button>
+                 <ExportMenu
+                   items={transcripts}
+                   targetLang={transcriptLangCode}
+                   title={viewingSession?.title}
+                 />
                  <button 
                    onClick={() => {
-                     setTranscripts([]);
-                     setCurrentInput('');
-                     setCurrentOutput('');
+                     session.clearTranscripts();
+                     setViewingSession(null);
+                     setLastRecordingId(null);
                    }}
                    className="p-3 rounded-xl bg-slate-800/50 text-slate-400 hover:bg-slate-800 hover:text-slate-200 transition-colors border border-transparent hover:border-slate-700"
                    title="Clear Transcript"
@@ -703,9 +963,94 @@ const App: React.FC = () => {
               </div>
 
             </div>
+
+            {/* Typed input: into the live session, or a one-off reply while disconnected */}
+            <TextComposer
+              onSend={session.sendText}
+              isLive={status === ConnectionStatus.CONNECTED}
+              disabled={!!viewingSession || status === ConnectionStatus.CONNECTING || (status !== ConnectionStatus.CONNECTED && !API_KEY)}
+            />
          </div>
       </div>
 
+      <HistorySidebar
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        languages={[TRANSCRIBE_LANGUAGE, ...languages]}
+        activeSessionId={viewingSession?.id ?? null}
+        refreshToken={historyRefreshToken}
+        onOpenSession={handleOpenSession}
+        onSessionDeleted={id => {
+          if (viewingSession?.id === id) handleCloseArchive();
+        }}
+      />
+
+      <LanguageSettings
+        isOpen={isLanguageSettingsOpen}
+        onClose={() => setIsLanguageSettingsOpen(false)}
+        languages={languages}
+        onChange={handleLanguagesChange}
+      />
+
+      {activeGlossaryPair && (
+        <GlossaryPanel
+          isOpen={isGlossaryOpen}
+          onClose={() => setIsGlossaryOpen(false)}
+          pair={activeGlossaryPair}
+          labels={[glossaryLabel(activeGlossaryPair[0]), glossaryLabel(activeGlossaryPair[1])]}
+          entries={glossaries[glossaryKey(activeGlossaryPair)] ?? []}
+          onChange={entries => setGlossaries(prev => ({ ...prev, [glossaryKey(activeGlossaryPair)]: entries }))}
+          isActive={status === ConnectionStatus.CONNECTED}
+        />
+      )}
+
+      <AudioDevicePanel
+        isOpen={isDevicePanelOpen}
+        onClose={() => setIsDevicePanelOpen(false)}
+        settings={audioDevices}
+        onChange={setAudioDevices}
+        activeMicLabel={session.micLabel}
+      />
+
+      <VoiceSettingsPanel
+        isOpen={isVoicePanelOpen}
+        onClose={() => setIsVoicePanelOpen(false)}
+        targetLabel={selectionLabel}
+        settings={activeVoice}
+        isCustomised={voiceKey in voiceSettings}
+        onChange={settings => setVoiceSettings(prev => ({ ...prev, [voiceKey]: settings }))}
+        onReset={() => setVoiceSettings(({ [voiceKey]: _, ...rest }) => rest)}
+        onPreview={API_KEY ? handlePreviewVoice : undefined}
+        isActive={status === ConnectionStatus.CONNECTED}
+      />
+
+      <BatchPanel
+        isOpen={isBatchOpen}
+        onClose={() => setIsBatchOpen(false)}
+        jobs={batch.jobs}
+        targetLabel={selectionLabel}
+        onAddFiles={handleAddBatchFiles}
+        onPause={id => batch.queue.pause(id)}
+        onResume={id => batch.queue.resume(id)}
+        onRetryFailed={id => batch.queue.retryFailed(id)}
+        onRemove={id => batch.queue.remove(id)}
+        onOpen={handleOpenBatchJob}
+      />
+
+      <ImageGallery
+        isOpen={isGalleryOpen}
+        onClose={() => setIsGalleryOpen(false)}
+        refreshToken={galleryRefreshToken}
+      />
+
+      <SubtitleMode
+        isOpen={isSubtitleModeOpen}
+        onClose={() => setIsSubtitleModeOpen(false)}
+        cues={subtitleCues}
+        settings={subtitleSettings}
+        onChange={setSubtitleSettings}
+      />
+
       {/* Ambient Background */}
       <div className="absolute inset-0 pointer-events-none z-0">
          <div className="absolute top-[-10%] left-[-10%] w-[50%] h-[50%] bg-blue-600/10 rounded-full blur-[120px]" />
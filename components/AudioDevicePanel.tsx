@@ -0,0 +1,224 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Headphones, X, Mic, Volume2, Check, Play } from 'lucide-react';
+import { AudioDeviceSettings } from '../types';
+import { AudioDeviceLists, buildMicConstraints, deviceLabel, listAudioDevices, playTestTone, requestDeviceLabels, supportsOutputSelection } from '../utils/audioDevices';
+
+interface AudioDevicePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: AudioDeviceSettings;
+  onChange: (settings: AudioDeviceSettings) => void;
+  activeMicLabel: string | null; // Mic the running session is capturing
+}
+
+interface LevelMeterProps {
+  context: AudioContext;
+  constraints: MediaTrackConstraints;
+}
+
+// Live input level for one microphone, drawn straight to the DOM to avoid re-rendering every frame
+const LevelMeter: React.FC<LevelMeterProps> = ({ context, constraints }) => {
+  const barRef = useRef<HTMLDivElement>(null);
+  const [failed, setFailed] = useState(false);
+  const constraintsKey = JSON.stringify(constraints);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let source: MediaStreamAudioSourceNode | null = null;
+    let frame = 0;
+    let cancelled = false;
+
+    navigator.mediaDevices.getUserMedia({ audio: constraints }).then(s => {
+      if (cancelled) {
+        s.getTracks().forEach(track => track.stop());
+        return;
+      }
+      stream = s;
+      source = context.createMediaStreamSource(s);
+      const analyser = context.createAnalyser();
+      analyser.fftSize = 1024;
+      source.connect(analyser);
+      const samples = new Float32Array(analyser.fftSize);
+
+      const draw = () => {
+        analyser.getFloatTimeDomainData(samples);
+        let sum = 0;
+        for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+        const db = 20 * Math.log10(Math.sqrt(sum / samples.length) || 1e-8);
+        // -60 dBFS..0 dBFS across the bar
+        const level = Math.min(1, Math.max(0, (db + 60) / 60));
+        if (barRef.current) barRef.current.style.width = `${Math.round(level * 100)}%`;
+        frame = requestAnimationFrame(draw);
+      };
+      draw();
+    }).catch(e => {
+      console.warn("Level meter could not open device", e);
+      if (!cancelled) setFailed(true);
+    });
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frame);
+      source?.disconnect();
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [context, constraintsKey]);
+
+  if (failed) return <span className="text-[11px] text-slate-500">Unavailable</span>;
+  return (
+    <div className="w-20 h-1.5 rounded-full bg-slate-800 overflow-hidden">
+      <div ref={barRef} className="h-full w-0 bg-emerald-500 transition-[width] duration-75" />
+    </div>
+  );
+};
+
+const toggles: { key: 'echoCancellation' | 'noiseSuppression' | 'autoGainControl'; label: string }[] = [
+  { key: 'echoCancellation', label: 'Echo cancellation' },
+  { key: 'noiseSuppression', label: 'Noise suppression' },
+  { key: 'autoGainControl', label: 'Automatic gain control' },
+];
+
+const rowClass = (selected: boolean) =>
+  `w-[calc(100%-1rem)] mx-2 px-3 py-2 rounded-xl flex items-center gap-3 text-left text-sm transition-colors ${
+    selected ? 'bg-slate-800 text-slate-100' : 'text-slate-300 hover:bg-slate-800/60'
+  }`;
+
+const AudioDevicePanel: React.FC<AudioDevicePanelProps> = ({ isOpen, onClose, settings, onChange, activeMicLabel }) => {
+  const [devices, setDevices] = useState<AudioDeviceLists>({ inputs: [], outputs: [] });
+  const [meterContext, setMeterContext] = useState<AudioContext | null>(null);
+  const [testing, setTesting] = useState<string | null>(null);
+
+  // Keep the lists fresh while open, including hot-plugged devices
+  useEffect(() => {
+    if (!isOpen) return;
+    const refresh = () => listAudioDevices().then(setDevices).catch(e => console.error("Failed to list devices", e));
+    refresh();
+    navigator.mediaDevices?.addEventListener?.('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener?.('devicechange', refresh);
+  }, [isOpen]);
+
+  // One context shared by the level meters, only while the panel is open
+  useEffect(() => {
+    if (!isOpen) return;
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    const ctx: AudioContext = new AudioContextClass();
+    setMeterContext(ctx);
+    return () => {
+      setMeterContext(null);
+      ctx.close().catch(() => {});
+    };
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const update = (patch: Partial<AudioDeviceSettings>) => onChange({ ...settings, ...patch });
+  const needsLabels = [...devices.inputs, ...devices.outputs].some(device => !device.label);
+
+  const handleAllow = async () => {
+    try {
+      await requestDeviceLabels();
+      setDevices(await listAudioDevices());
+    } catch (e) {
+      console.error("Microphone access denied", e);
+    }
+  };
+
+  const handleTest = async (sinkId: string) => {
+    setTesting(sinkId);
+    try {
+      await playTestTone(sinkId);
+    } catch (e) {
+      console.error("Test tone failed", e);
+    } finally {
+      setTesting(null);
+    }
+  };
+
+  const inputRows = [{ id: '', label: 'System default' }, ...devices.inputs.map((d, i) => ({ id: d.deviceId, label: deviceLabel(d, i) }))];
+  const outputRows = [{ id: '', label: 'System default' }, ...devices.outputs.map((d, i) => ({ id: d.deviceId, label: deviceLabel(d, i) }))];
+
+  return (
+    <div className="absolute inset-0 z-[60] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-slate-950/60 backdrop-blur-sm" onClick={onClose} />
+
+      <div className="relative w-full max-w-lg max-h-[85vh] bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-800">
+          <div className="flex items-center gap-2 text-slate-200 font-semibold">
+            <Headphones size={18} /> Audio devices
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg text-slate-400 hover:bg-slate-800 hover:text-slate-200">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto py-2">
+          {needsLabels && (
+            <div className="mx-4 my-2 px-3 py-2 rounded-xl bg-slate-800/60 text-xs text-slate-400 flex items-center justify-between gap-3">
+              <span>Device names are hidden until microphone access is granted.</span>
+              <button onClick={handleAllow} className="shrink-0 px-2.5 py-1 rounded-lg bg-slate-700 hover:bg-slate-600 text-slate-200">
+                Allow
+              </button>
+            </div>
+          )}
+
+          <div className="px-5 pt-2 pb-1 text-xs font-semibold text-slate-500 uppercase tracking-wider flex items-center gap-1.5">
+            <Mic size={12} /> Microphone
+          </div>
+          {inputRows.map(row => (
+            <button key={row.id || 'default'} onClick={() => update({ inputDeviceId: row.id })} className={rowClass(settings.inputDeviceId === row.id)}>
+              <span className="w-4 shrink-0 text-blue-400">{settings.inputDeviceId === row.id && <Check size={14} />}</span>
+              <span className="flex-1 min-w-0 truncate">
+                {row.label}
+                {row.id && row.label === activeMicLabel && <span className="ml-2 text-[11px] text-emerald-400">in use</span>}
+              </span>
+              {meterContext && (
+                <LevelMeter context={meterContext} constraints={buildMicConstraints({ ...settings, inputDeviceId: row.id })} />
+              )}
+            </button>
+          ))}
+
+          <div className="mx-4 mt-2 mb-3 px-3 py-2 rounded-xl bg-slate-800/40 space-y-1.5">
+            {toggles.map(toggle => (
+              <label key={toggle.key} className="flex items-center justify-between text-sm text-slate-300 cursor-pointer">
+                {toggle.label}
+                <input
+                  type="checkbox"
+                  checked={settings[toggle.key]}
+                  onChange={e => update({ [toggle.key]: e.target.checked })}
+                  className="accent-blue-500"
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="px-5 pt-2 pb-1 text-xs font-semibold text-slate-500 uppercase tracking-wider flex items-center gap-1.5">
+            <Volume2 size={12} /> Speaker
+          </div>
+          {supportsOutputSelection() ? (
+            outputRows.map(row => (
+              <div key={row.id || 'default'} className={rowClass(settings.outputDeviceId === row.id)}>
+                <button onClick={() => update({ outputDeviceId: row.id })} className="flex-1 min-w-0 flex items-center gap-3 text-left">
+                  <span className="w-4 shrink-0 text-blue-400">{settings.outputDeviceId === row.id && <Check size={14} />}</span>
+                  <span className="flex-1 min-w-0 truncate">{row.label}</span>
+                </button>
+                <button
+                  onClick={() => handleTest(row.id)}
+                  disabled={testing !== null}
+                  className="shrink-0 flex items-center gap-1 px-2 py-1 rounded-lg text-xs text-slate-400 hover:bg-slate-700 hover:text-slate-200 disabled:opacity-50"
+                  title="Play a test tone"
+                >
+                  <Play size={12} /> {testing === row.id ? 'Playing' : 'Test'}
+                </button>
+              </div>
+            ))
+          ) : (
+            <div className="px-5 py-2 text-sm text-slate-500">This browser always plays through the system default output.</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AudioDevicePanel;
@@ -0,0 +1,168 @@
+import React, { useRef, useState } from 'react';
+import { FileStack, X, Upload, Pause, Play, RotateCcw, Trash2, FolderOpen } from 'lucide-react';
+import { BatchJob, SessionRecord } from '../types';
+import { batchJobProgress, batchJobToSession } from '../utils/batchQueue';
+
+interface BatchPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  jobs: BatchJob[];
+  targetLabel: string; // What new jobs will be transcribed or translated into
+  onAddFiles: (files: File[]) => Promise<void>;
+  onPause: (id: string) => void;
+  onResume: (id: string) => void;
+  onRetryFailed: (id: string) => void;
+  onRemove: (id: string) => void;
+  onOpen: (record: SessionRecord) => void;
+}
+
+const ACCEPTED = '.wav,.mp3,.m4a,audio/wav,audio/mpeg,audio/mp4,audio/x-m4a';
+
+const STATUS_STYLES: Record<BatchJob['status'], string> = {
+  queued: 'text-slate-400',
+  running: 'text-blue-400',
+  paused: 'text-amber-400',
+  done: 'text-emerald-400',
+  failed: 'text-red-400',
+};
+
+const formatDuration = (ms: number) => {
+  const totalSec = Math.round(ms / 1000);
+  return `${Math.floor(totalSec / 60)}:${String(totalSec % 60).padStart(2, '0')}`;
+};
+
+const iconButton = "p-1.5 rounded-lg text-slate-500 hover:bg-slate-700 hover:text-slate-200 disabled:opacity-40 disabled:cursor-not-allowed";
+
+const BatchPanel: React.FC<BatchPanelProps> = ({
+  isOpen, onClose, jobs, targetLabel, onAddFiles, onPause, onResume, onRetryFailed, onRemove, onOpen,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [addError, setAddError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setIsAdding(true);
+    setAddError(null);
+    try {
+      await onAddFiles(files);
+    } catch (e: any) {
+      setAddError(e?.message || "Could not add the file.");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  return (
+    <div className="absolute inset-0 z-[60] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-slate-950/60 backdrop-blur-sm" onClick={onClose} />
+
+      <div className="relative w-full max-w-lg max-h-[85vh] bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-800">
+          <div className="flex items-center gap-2 text-slate-200 font-semibold">
+            <FileStack size={18} /> Batch transcription
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg text-slate-400 hover:bg-slate-800 hover:text-slate-200">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="px-4 pt-4">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            disabled={isAdding}
+            className={`w-full px-4 py-6 rounded-xl border-2 border-dashed flex flex-col items-center gap-2 text-sm transition-colors disabled:opacity-60 ${
+              isDragging ? 'border-blue-500 bg-blue-500/10 text-blue-300' : 'border-slate-700 text-slate-400 hover:border-slate-500 hover:text-slate-300'
+            }`}
+          >
+            <Upload size={20} />
+            {isAdding ? 'Decoding…' : 'Drop WAV, MP3 or M4A files, or click to choose'}
+            <span className="text-[11px] text-slate-500">New jobs use: {targetLabel}</span>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ACCEPTED}
+            multiple
+            className="hidden"
+            onChange={e => {
+              addFiles(Array.from(e.target.files ?? []));
+              e.target.value = '';
+            }}
+          />
+          {addError && <div className="mt-2 text-xs text-red-400">{addError}</div>}
+        </div>
+
+        <div className="flex-1 overflow-y-auto py-3">
+          {jobs.length === 0 && (
+            <div className="px-5 py-6 text-center text-sm text-slate-500">No batch jobs yet.</div>
+          )}
+          {jobs.map(job => {
+            const progress = batchJobProgress(job);
+            const failedChunks = job.chunks.filter(chunk => chunk.status === 'failed').length;
+            const hasResults = job.chunks.some(chunk => chunk.items && chunk.items.length > 0);
+            return (
+              <div key={job.id} className="mx-2 px-3 py-2.5 rounded-xl hover:bg-slate-800/60">
+                <div className="flex items-center gap-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-slate-200 truncate">{job.fileName}</div>
+                    <div className="text-[11px] text-slate-500">
+                      {formatDuration(job.durationMs)} · <span className={STATUS_STYLES[job.status]}>{job.status}</span>
+                      {' '}· {job.chunks.length - job.chunks.filter(c => c.status === 'pending').length}/{job.chunks.length} chunks
+                      {failedChunks > 0 && <span className="text-red-400"> · {failedChunks} failed</span>}
+                    </div>
+                  </div>
+                  {job.status === 'running' || job.status === 'queued' ? (
+                    <button onClick={() => onPause(job.id)} className={iconButton} title="Pause">
+                      <Pause size={14} />
+                    </button>
+                  ) : job.status === 'paused' ? (
+                    <button onClick={() => onResume(job.id)} className={iconButton} title="Resume">
+                      <Play size={14} />
+                    </button>
+                  ) : null}
+                  {failedChunks > 0 && job.status !== 'running' && (
+                    <button onClick={() => onRetryFailed(job.id)} className={iconButton} title="Retry failed chunks">
+                      <RotateCcw size={14} />
+                    </button>
+                  )}
+                  <button onClick={() => onOpen(batchJobToSession(job))} disabled={!hasResults} className={iconButton} title="Open transcript">
+                    <FolderOpen size={14} />
+                  </button>
+                  <button
+                    onClick={() => window.confirm(`Remove the job for ${job.fileName}? Results already in history are kept.`) && onRemove(job.id)}
+                    className={iconButton}
+                    title="Remove job"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+                <div className="mt-2 h-1 rounded-full bg-slate-800 overflow-hidden">
+                  <div
+                    className={`h-full transition-[width] duration-300 ${failedChunks > 0 ? 'bg-amber-500' : 'bg-blue-500'}`}
+                    style={{ width: `${Math.round(progress * 100)}%` }}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchPanel;
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import { ExportContent, ExportFormat, TranscriptItem } from '../types';
+import { exportTranscript, getExportFilename, getExportMimeType } from '../utils/transcriptExport';
+import { downloadBlob } from '../utils/download';
+import { inlineStoredImages } from '../utils/imageStore';
+
+interface ExportMenuProps {
+  items: TranscriptItem[];
+  targetLang: string;
+  title?: string;
+}
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'srt', label: 'SubRip (.srt)' },
+  { format: 'vtt', label: 'WebVTT (.vtt)' },
+  { format: 'md', label: 'Markdown (.md)' },
+  { format: 'json', label: 'JSON (.json)' },
+  { format: 'txt', label: 'Plain text (.txt)' },
+];
+
+const CONTENTS: { content: ExportContent; label: string }[] = [
+  { content: 'all', label: 'All' },
+  { content: 'user', label: 'Source' },
+  { content: 'model', label: 'Output' },
+  { content: 'paired', label: 'Paired' },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ items, targetLang, title }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [content, setContent] = useState<ExportContent>('all');
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsOpen(false);
+    // Stored images are inlined so the exported file stands alone
+    const text = exportTranscript(await inlineStoredImages(items), { format, content, targetLang, title });
+    downloadBlob(new Blob([text], { type: getExportMimeType(format) }), getExportFilename(format, title));
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={items.length === 0}
+        className="p-3 rounded-xl bg-slate-800/50 text-slate-400 hover:bg-slate-800 hover:text-slate-200 transition-colors border border-transparent hover:border-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+        title="Export Transcript"
+      >
+        <Download size={18} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full right-0 mb-3 w-60 bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden py-2 z-50">
+          <div className="px-4 py-2 text-xs font-semibold text-slate-500 uppercase tracking-wider">Include</div>
+          <div className="px-3 pb-2 grid grid-cols-4 gap-1">
+            {CONTENTS.map(opt => (
+              <button
+                key={opt.content}
+                onClick={() => setContent(opt.content)}
+                className={`px-1 py-1.5 rounded-lg text-[11px] font-medium transition-colors ${
+                  content === opt.content ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="px-4 py-2 text-xs font-semibold text-slate-500 uppercase tracking-wider border-t border-slate-800">Format</div>
+          {FORMATS.map(opt => (
+            <button
+              key={opt.format}
+              onClick={() => handleExport(opt.format)}
+              className="w-full px-4 py-2.5 text-left text-sm text-slate-300 hover:bg-slate-800 transition-colors"
+            >
+              {opt.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,172 @@
+import React, { useRef, useState } from 'react';
+import { BookText, X, Plus, Trash2, Upload, Download } from 'lucide-react';
+import { GlossaryEntry, LanguagePair } from '../types';
+import {
+  ANY_LANGUAGE,
+  createGlossaryEntry,
+  glossaryToCsv,
+  glossaryToTbx,
+  mergeGlossaryEntries,
+  parseGlossaryCsv,
+  parseGlossaryTbx,
+} from '../utils/glossary';
+import { downloadBlob } from '../utils/download';
+
+interface GlossaryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  pair: LanguagePair; // [ANY_LANGUAGE, target] for one-way translation
+  labels: [string, string]; // Column headings for the two sides
+  entries: GlossaryEntry[];
+  onChange: (entries: GlossaryEntry[]) => void;
+  isActive: boolean; // A live session is running; changes apply on the next connect
+}
+
+const inputClass = "w-full min-w-0 px-2.5 py-1.5 rounded-lg bg-slate-800 border border-slate-700/50 text-sm text-slate-200 placeholder-slate-500 outline-none focus:border-slate-500 disabled:opacity-40";
+
+const GlossaryPanel: React.FC<GlossaryPanelProps> = ({ isOpen, onClose, pair, labels, entries, onChange, isActive }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const update = (id: string, patch: Partial<GlossaryEntry>) =>
+    onChange(entries.map(e => (e.id === id ? { ...e, ...patch } : e)));
+
+  const fileStem = `glossary-${pair.map(code => (code === ANY_LANGUAGE ? 'any' : code)).join('-')}`;
+
+  const handleImport = async (file: File) => {
+    try {
+      const text = await file.text();
+      const imported = /\.(tbx|xml)$/i.test(file.name) ? parseGlossaryTbx(text, pair) : parseGlossaryCsv(text);
+      onChange(mergeGlossaryEntries(entries, imported));
+      setImportMessage(`Imported ${imported.length} term${imported.length === 1 ? '' : 's'} from ${file.name}.`);
+    } catch (e: any) {
+      console.error("Glossary import failed", e);
+      setImportMessage(e.message || "Could not read that file.");
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-[60] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-slate-950/60 backdrop-blur-sm" onClick={onClose} />
+
+      <div className="relative w-full max-w-2xl max-h-[85vh] bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-800">
+          <div className="flex items-center gap-2 text-slate-200 font-semibold">
+            <BookText size={18} /> Glossary
+            <span className="text-sm font-normal text-slate-500">{labels[0]} → {labels[1]}</span>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg text-slate-400 hover:bg-slate-800 hover:text-slate-200">
+            <X size={18} />
+          </button>
+        </div>
+
+        {isActive && (
+          <div className="px-5 py-2 text-xs text-amber-400/90 bg-amber-500/5 border-b border-slate-800">
+            Changes apply to the interpreter on the next connect; highlighting updates immediately.
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto px-5 py-3">
+          {entries.length === 0 ? (
+            <div className="py-10 text-center text-sm text-slate-500">
+              No terms yet. Add product names and jargon the interpreter should render consistently.
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-[11px] text-slate-500 uppercase tracking-wider">
+                  <th className="pb-2 font-semibold">{labels[0]}</th>
+                  <th className="pb-2 pl-2 font-semibold">{labels[1]}</th>
+                  <th className="pb-2 pl-2 font-semibold text-center" title="Do not translate">Keep</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(entry => (
+                  <tr key={entry.id}>
+                    <td className="py-1">
+                      <input value={entry.source} onChange={e => update(entry.id, { source: e.target.value })} placeholder="Term" className={inputClass} />
+                    </td>
+                    <td className="py-1 pl-2">
+                      <input
+                        value={entry.doNotTranslate ? entry.source : entry.target}
+                        disabled={entry.doNotTranslate}
+                        onChange={e => update(entry.id, { target: e.target.value })}
+                        placeholder="Required translation"
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="py-1 pl-2 text-center">
+                      <input
+                        type="checkbox"
+                        checked={entry.doNotTranslate}
+                        onChange={e => update(entry.id, { doNotTranslate: e.target.checked })}
+                        className="accent-blue-500"
+                        title="Do not translate"
+                      />
+                    </td>
+                    <td className="py-1 pl-1 text-right">
+                      <button
+                        onClick={() => onChange(entries.filter(e => e.id !== entry.id))}
+                        className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-800 hover:text-red-400"
+                        title="Remove"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {importMessage && <div className="px-5 pb-2 text-xs text-slate-400">{importMessage}</div>}
+
+        <div className="border-t border-slate-800 px-5 py-3 flex items-center justify-between gap-2">
+          <div className="flex items-center gap-1">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.tbx,.xml"
+              className="hidden"
+              onChange={e => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+            <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm text-slate-400 hover:bg-slate-800 hover:text-slate-200">
+              <Upload size={14} /> Import
+            </button>
+            <button
+              onClick={() => downloadBlob(new Blob([glossaryToCsv(entries)], { type: 'text/csv;charset=utf-8' }), `${fileStem}.csv`)}
+              disabled={entries.length === 0}
+              className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm text-slate-400 hover:bg-slate-800 hover:text-slate-200 disabled:opacity-40"
+            >
+              <Download size={14} /> CSV
+            </button>
+            <button
+              onClick={() => downloadBlob(new Blob([glossaryToTbx(entries, pair)], { type: 'application/x-tbx+xml' }), `${fileStem}.tbx`)}
+              disabled={entries.length === 0}
+              className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm text-slate-400 hover:bg-slate-800 hover:text-slate-200 disabled:opacity-40"
+            >
+              <Download size={14} /> TBX
+            </button>
+          </div>
+          <button
+            onClick={() => onChange([...entries, createGlossaryEntry()])}
+            className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm font-medium text-blue-400 hover:bg-slate-800"
+          >
+            <Plus size={14} /> Add term
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GlossaryPanel;
@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from 'react';
+import { History, Search, X, Pencil, Trash2, Check } from 'lucide-react';
+import { LanguageOption, SessionRecord, SessionSummary } from '../types';
+import { listSessions, getSession, renameSession, deleteSession } from '../utils/sessionStore';
+
+interface HistorySidebarProps {
+  isOpen: boolean;
+  onClose: () => void;
+  languages: LanguageOption[];
+  activeSessionId: string | null;
+  refreshToken: number; // Bump to reload the list after a session is saved
+  onOpenSession: (record: SessionRecord) => void;
+  onSessionDeleted: (id: string) => void;
+}
+
+const formatDuration = (start: Date, end: Date) => {
+  const totalSec = Math.max(0, Math.round((end.getTime() - start.getTime()) / 1000));
+  const m = Math.floor(totalSec / 60);
+  const s = totalSec % 60;
+  return m > 0 ? `${m}m ${s}s` : `${s}s`;
+};
+
+const HistorySidebar: React.FC<HistorySidebarProps> = ({
+  isOpen,
+  onClose,
+  languages,
+  activeSessionId,
+  refreshToken,
+  onOpenSession,
+  onSessionDeleted,
+}) => {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    // Debounce searches so we don't rescan the archive on every keystroke
+    const timer = setTimeout(() => {
+      listSessions(query)
+        .then(result => {
+          if (!cancelled) {
+            setSessions(result);
+            setLoadError(null);
+          }
+        })
+        .catch(e => {
+          console.error("Failed to load session history", e);
+          if (!cancelled) setLoadError("History is unavailable in this browser.");
+        });
+    }, 150);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isOpen, query, refreshToken]);
+
+  const handleOpen = async (id: string) => {
+    try {
+      const record = await getSession(id);
+      if (record) onOpenSession(record);
+      else setLoadError("That session no longer exists.");
+    } catch (e) {
+      console.error("Failed to open session", e);
+      setLoadError("Could not open the session.");
+    }
+  };
+
+  const commitRename = async (id: string) => {
+    try {
+      await renameSession(id, editTitle);
+      setSessions(prev => prev.map(s => (s.id === id && editTitle.trim() ? { ...s, title: editTitle.trim() } : s)));
+    } catch (e) {
+      console.error("Failed to rename session", e);
+      setLoadError("Could not rename the session.");
+    } finally {
+      setEditingId(null);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm("Delete this session from history?")) return;
+    try {
+      await deleteSession(id);
+      setSessions(prev => prev.filter(s => s.id !== id));
+      onSessionDeleted(id);
+    } catch (e) {
+      console.error("Failed to delete session", e);
+      setLoadError("Could not delete the session.");
+    }
+  };
+
+  const flagOf = (code: string) => languages.find(l => l.code === code)?.flag ?? '🌐';
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="absolute inset-0 z-[60] flex">
+      {/* Backdrop */}
+      <div className="flex-1 bg-slate-950/60 backdrop-blur-sm" onClick={onClose} />
+
+      <aside className="w-full max-w-sm h-full bg-slate-900 border-l border-slate-800 shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-800">
+          <div className="flex items-center gap-2 text-slate-200 font-semibold">
+            <History size={18} /> Session History
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg text-slate-400 hover:bg-slate-800 hover:text-slate-200">
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Search */}
+        <div className="px-4 py-3 border-b border-slate-800">
+          <div className="flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-800 border border-slate-700/50">
+            <Search size={16} className="text-slate-500" />
+            <input
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder="Search transcripts..."
+              className="flex-1 bg-transparent text-sm text-slate-200 placeholder-slate-500 outline-none"
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto py-2">
+          {loadError && <div className="px-5 py-3 text-sm text-red-400">{loadError}</div>}
+
+          {!loadError && sessions.length === 0 && (
+            <div className="px-5 py-10 text-center text-sm text-slate-500">
+              {query ? 'No sessions match your search.' : 'Finished sessions will appear here.'}
+            </div>
+          )}
+
+          {sessions.map(session => {
+            const flag = session.interpreterPair
+              ? `${flagOf(session.interpreterPair[0])}⇄${flagOf(session.interpreterPair[1])}`
+              : flagOf(session.targetLang);
+            const isActive = session.id === activeSessionId;
+            return (
+              <div
+                key={session.id}
+                className={`group mx-2 mb-1 px-3 py-3 rounded-xl cursor-pointer transition-colors ${
+                  isActive ? 'bg-blue-900/20 border border-blue-500/20' : 'hover:bg-slate-800 border border-transparent'
+                }`}
+                onClick={() => editingId !== session.id && handleOpen(session.id)}
+              >
+                {editingId === session.id ? (
+                  <div className="flex items-center gap-2" onClick={e => e.stopPropagation()}>
+                    <input
+                      autoFocus
+                      value={editTitle}
+                      onChange={e => setEditTitle(e.target.value)}
+                      onKeyDown={e => {
+                        if (e.key === 'Enter') commitRename(session.id);
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="flex-1 px-2 py-1 rounded-lg bg-slate-800 border border-slate-600 text-sm text-slate-200 outline-none"
+                    />
+                    <button onClick={() => commitRename(session.id)} className="p-1.5 rounded-lg text-emerald-400 hover:bg-slate-700">
+                      <Check size={16} />
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium text-slate-200 truncate">
+                        <span className="mr-1.5">{flag}</span>{session.title}
+                      </div>
+                      <div className="text-[11px] text-slate-500 mt-0.5">
+                        {session.startedAt.toLocaleDateString()} · {formatDuration(session.startedAt, session.endedAt)} · {session.itemCount} items
+                      </div>
+                      {session.snippet && (
+                        <div className="text-xs text-slate-400 mt-1.5 line-clamp-2">{session.snippet}</div>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity" onClick={e => e.stopPropagation()}>
+                      <button
+                        onClick={() => { setEditingId(session.id); setEditTitle(session.title); }}
+                        className="p-1.5 rounded-lg text-slate-400 hover:bg-slate-700 hover:text-slate-200"
+                        title="Rename"
+                      >
+                        <Pencil size={14} />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(session.id)}
+                        className="p-1.5 rounded-lg text-slate-400 hover:bg-slate-700 hover:text-red-400"
+                        title="Delete"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default HistorySidebar;
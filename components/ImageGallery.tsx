@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { Images, X, Download, Trash2, ArrowLeft } from 'lucide-react';
+import { GeneratedImage, ImageOrigin } from '../types';
+import { deleteImage, listImages } from '../utils/imageStore';
+import { downloadBlob } from '../utils/download';
+import { useImageUrl } from '../hooks/useImageUrl';
+
+interface ImageGalleryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  refreshToken: number; // Bumped whenever a new image is saved
+}
+
+const ORIGIN_LABELS: Record<ImageOrigin, string> = {
+  generate: 'Generated',
+  edit: 'Edited',
+  variation: 'Variation',
+  snapshot: 'Snapshot',
+};
+
+const iconButton = "p-1.5 rounded-lg text-slate-500 hover:bg-slate-700 hover:text-slate-200";
+
+const imageFileName = (image: GeneratedImage) =>
+  `${image.id}.${image.data.type.split('/')[1] || 'png'}`;
+
+const GalleryImage: React.FC<{ image: GeneratedImage; className: string }> = ({ image, className }) => {
+  const url = useImageUrl(image.id);
+  return url
+    ? <img src={url} alt={image.prompt} className={className} />
+    : <div className={`${className} bg-slate-800`} />;
+};
+
+const ImageGallery: React.FC<ImageGalleryProps> = ({ isOpen, onClose, refreshToken }) => {
+  const [images, setImages] = useState<GeneratedImage[]>([]);
+  const [selected, setSelected] = useState<GeneratedImage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    listImages()
+      .then(list => {
+        setImages(list);
+        setError(null);
+      })
+      .catch(e => {
+        console.error("Failed to load images", e);
+        setError("Could not load the gallery.");
+      });
+  }, [isOpen, refreshToken]);
+
+  if (!isOpen) return null;
+
+  const handleDelete = async (image: GeneratedImage) => {
+    if (!window.confirm("Delete this image? Transcripts that show it will lose it.")) return;
+    try {
+      await deleteImage(image.id);
+      setImages(prev => prev.filter(i => i.id !== image.id));
+      if (selected?.id === image.id) setSelected(null);
+    } catch (e) {
+      console.error("Failed to delete image", e);
+      setError("Could not delete the image.");
+    }
+  };
+
+  const describe = (image: GeneratedImage) => {
+    const parent = image.parentId ? images.find(i => i.id === image.parentId) : undefined;
+    return `${ORIGIN_LABELS[image.origin]}${parent ? ` from "${parent.prompt}"` : ''} · ${image.createdAt.toLocaleString()}`;
+  };
+
+  return (
+    <div className="absolute inset-0 z-[60] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-slate-950/60 backdrop-blur-sm" onClick={onClose} />
+
+      <div className="relative w-full max-w-3xl max-h-[85vh] bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-800">
+          <div className="flex items-center gap-2 text-slate-200 font-semibold">
+            {selected ? (
+              <button onClick={() => setSelected(null)} className={iconButton} title="Back to all images">
+                <ArrowLeft size={16} />
+              </button>
+            ) : (
+              <Images size={18} />
+            )}
+            Image gallery
+            <span className="text-xs font-normal text-slate-500">{images.length}</span>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg text-slate-400 hover:bg-slate-800 hover:text-slate-200">
+            <X size={18} />
+          </button>
+        </div>
+
+        {error && <div className="px-5 pt-3 text-xs text-red-400">{error}</div>}
+
+        {selected ? (
+          <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-3">
+            <GalleryImage image={selected} className="w-full max-h-[60vh] object-contain rounded-xl bg-black" />
+            <div className="flex items-start gap-2">
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-slate-200">{selected.prompt}</div>
+                <div className="text-[11px] text-slate-500">{describe(selected)}</div>
+              </div>
+              <button onClick={() => downloadBlob(selected.data, imageFileName(selected))} className={iconButton} title="Download">
+                <Download size={14} />
+              </button>
+              <button onClick={() => handleDelete(selected)} className={iconButton} title="Delete image">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-4">
+            {images.length === 0 && (
+              <div className="py-6 text-center text-sm text-slate-500">No images yet. Ask "Draw a cat" during a session.</div>
+            )}
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {images.map(image => (
+                <button
+                  key={image.id}
+                  onClick={() => setSelected(image)}
+                  className="text-left rounded-xl overflow-hidden border border-slate-800 hover:border-slate-600 bg-slate-950/40 transition-colors"
+                >
+                  <GalleryImage image={image} className="w-full aspect-square object-cover" />
+                  <div className="px-2.5 py-2">
+                    <div className="text-xs text-slate-300 truncate" title={image.prompt}>{image.prompt}</div>
+                    <div className="text-[10px] text-slate-500">
+                      {ORIGIN_LABELS[image.origin]} · {image.createdAt.toLocaleDateString()}
+                    </div>
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImageGallery;
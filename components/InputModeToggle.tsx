@@ -0,0 +1,37 @@
+import React from 'react';
+import { Radio, Hand } from 'lucide-react';
+import { InputMode } from '../types';
+
+interface InputModeToggleProps {
+  mode: InputMode;
+  onChange: (mode: InputMode) => void;
+  disabled?: boolean;
+}
+
+const MODES: { mode: InputMode; label: string; title: string; icon: React.ReactNode }[] = [
+  { mode: 'continuous', label: 'Hands-free', title: 'Always listening', icon: <Radio size={16} /> },
+  { mode: 'push-to-talk', label: 'Push-to-talk', title: 'Hold Space or the mic button to talk', icon: <Hand size={16} /> },
+];
+
+const InputModeToggle: React.FC<InputModeToggleProps> = ({ mode, onChange, disabled }) => (
+  <div className="flex items-center p-1 rounded-2xl bg-slate-800 border border-slate-700/50">
+    {MODES.map(opt => (
+      <button
+        key={opt.mode}
+        onClick={() => onChange(opt.mode)}
+        disabled={disabled}
+        title={opt.title}
+        className={`flex items-center gap-1.5 px-2.5 py-2 rounded-xl text-xs font-medium transition-colors disabled:cursor-not-allowed ${
+          mode === opt.mode
+            ? 'bg-slate-700 text-slate-100 shadow-sm'
+            : 'text-slate-400 hover:text-slate-200 disabled:hover:text-slate-400'
+        }`}
+      >
+        {opt.icon}
+        <span className="hidden md:inline-block">{opt.label}</span>
+      </button>
+    ))}
+  </div>
+);
+
+export default InputModeToggle;
@@ -0,0 +1,111 @@
+import React, { useRef, useState } from 'react';
+import { Mic, MonitorSpeaker, Layers, FileMusic, ChevronDown, Check } from 'lucide-react';
+import { InputSource } from '../types';
+
+interface InputSourcePickerProps {
+  source: InputSource;
+  onChange: (source: InputSource) => void;
+  file: File | null;
+  onFileChange: (file: File | null) => void;
+  playbackRate: number;
+  onPlaybackRateChange: (rate: number) => void;
+  disabled?: boolean;
+}
+
+const SOURCES: { source: InputSource; label: string; hint: string; icon: React.ReactNode }[] = [
+  { source: 'mic', label: 'Microphone', hint: 'Your voice', icon: <Mic size={16} /> },
+  { source: 'system', label: 'Tab or system audio', hint: 'A call or webinar in another tab', icon: <MonitorSpeaker size={16} /> },
+  { source: 'mic+system', label: 'Microphone + tab audio', hint: 'Both sides of a call', icon: <Layers size={16} /> },
+  { source: 'file', label: 'Media file', hint: 'An audio or video recording', icon: <FileMusic size={16} /> },
+];
+
+const PLAYBACK_RATES = [1, 1.25, 1.5, 2];
+
+const InputSourcePicker: React.FC<InputSourcePickerProps> = ({
+  source, onChange, file, onFileChange, playbackRate, onPlaybackRateChange, disabled,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const current = SOURCES.find(opt => opt.source === source) ?? SOURCES[0];
+
+  const handleSelect = (next: InputSource) => {
+    onChange(next);
+    if (next === 'file' && !file) fileInputRef.current?.click();
+    else if (next !== 'file') setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="flex items-center gap-1.5 px-3 py-3 rounded-2xl bg-slate-800 hover:bg-slate-700 text-slate-300 border border-slate-700/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        title={source === 'file' && file ? `Input: ${file.name}` : `Input: ${current.label}`}
+      >
+        {current.icon}
+        <ChevronDown size={14} className={`text-slate-500 transition-transform duration-200 ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="audio/*,video/*"
+        className="hidden"
+        onChange={e => {
+          onFileChange(e.target.files?.[0] ?? null);
+          e.target.value = '';
+        }}
+      />
+
+      {isOpen && !disabled && (
+        <div className="absolute bottom-full left-0 mb-3 w-72 bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl py-2 z-50">
+          <div className="px-4 py-2 text-xs font-semibold text-slate-500 uppercase tracking-wider">Input</div>
+          {SOURCES.map(opt => (
+            <button
+              key={opt.source}
+              onClick={() => handleSelect(opt.source)}
+              className="w-full px-4 py-2.5 flex items-center gap-3 text-left hover:bg-slate-800 transition-colors"
+            >
+              <span className="text-slate-400">{opt.icon}</span>
+              <span className="flex-1 min-w-0">
+                <span className="block text-sm text-slate-200">{opt.label}</span>
+                <span className="block text-[11px] text-slate-500">{opt.hint}</span>
+              </span>
+              {source === opt.source && <Check size={14} className="text-blue-400" />}
+            </button>
+          ))}
+
+          {source === 'file' && (
+            <div className="mx-3 mt-1 px-3 py-2.5 rounded-xl bg-slate-800/60 space-y-2">
+              <div className="flex items-center justify-between gap-2 text-xs">
+                <span className="truncate text-slate-300">{file ? file.name : 'No file chosen'}</span>
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="shrink-0 px-2.5 py-1 rounded-lg bg-slate-700 hover:bg-slate-600 text-slate-200"
+                >
+                  {file ? 'Change' : 'Choose'}
+                </button>
+              </div>
+              <div className="flex items-center gap-1">
+                <span className="text-[11px] text-slate-500 mr-1">Speed</span>
+                {PLAYBACK_RATES.map(rate => (
+                  <button
+                    key={rate}
+                    onClick={() => onPlaybackRateChange(rate)}
+                    className={`px-2 py-1 rounded-lg text-[11px] font-medium transition-colors ${
+                      playbackRate === rate ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-slate-200'
+                    }`}
+                  >
+                    {rate}×
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InputSourcePicker;
@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { Languages, X, Star, ArrowUp, ArrowDown, Eye, EyeOff, Pencil, Trash2, Plus, RotateCcw } from 'lucide-react';
+import { LanguageOption } from '../types';
+import { BUILT_IN_LANGUAGES, TRANSCRIBE_LANGUAGE, isValidLanguageTag } from '../utils/languageCatalog';
+
+interface LanguageSettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+  languages: LanguageOption[];
+  onChange: (languages: LanguageOption[]) => void;
+}
+
+interface LanguageDraft {
+  code: string;
+  name: string;
+  flag: string;
+  locale: string;
+  instruction: string;
+}
+
+const EMPTY_DRAFT: LanguageDraft = { code: '', name: '', flag: '🌐', locale: '', instruction: '' };
+
+const inputClass = "w-full px-3 py-2 rounded-lg bg-slate-800 border border-slate-700/50 text-sm text-slate-200 placeholder-slate-500 outline-none focus:border-slate-500 disabled:opacity-50";
+
+const LanguageSettings: React.FC<LanguageSettingsProps> = ({ isOpen, onClose, languages, onChange }) => {
+  // null: no form; '' : adding a new language; otherwise the code being edited
+  const [editingCode, setEditingCode] = useState<string | null>(null);
+  const [draft, setDraft] = useState<LanguageDraft>(EMPTY_DRAFT);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const update = (code: string, patch: Partial<LanguageOption>) =>
+    onChange(languages.map(lang => (lang.code === code ? { ...lang, ...patch } : lang)));
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= languages.length) return;
+    const next = [...languages];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const startEdit = (lang: LanguageOption | null) => {
+    setEditingCode(lang ? lang.code : '');
+    setDraft(lang
+      ? { code: lang.code, name: lang.name, flag: lang.flag, locale: lang.locale ?? '', instruction: lang.instruction ?? '' }
+      : EMPTY_DRAFT);
+    setFormError(null);
+  };
+
+  const commitDraft = () => {
+    const isNew = editingCode === '';
+    const code = draft.code.trim();
+    const name = draft.name.trim();
+    const locale = draft.locale.trim();
+
+    if (isNew) {
+      if (!isValidLanguageTag(code)) return setFormError("Code must look like a language tag, e.g. 'vi' or 'zh-HK'.");
+      if (code === TRANSCRIBE_LANGUAGE.code || languages.some(lang => lang.code.toLowerCase() === code.toLowerCase())) {
+        return setFormError(`'${code}' is already in the list.`);
+      }
+    }
+    if (!name) return setFormError("Give the language a display name.");
+    if (locale && !isValidLanguageTag(locale)) return setFormError("Locale must be a BCP-47 tag, e.g. 'pt-PT'.");
+
+    const fields = {
+      name,
+      flag: draft.flag.trim() || '🌐',
+      locale: locale || undefined,
+      instruction: draft.instruction.trim() || undefined,
+    };
+    if (isNew) {
+      onChange([...languages, { code, ...fields, custom: true }]);
+    } else {
+      update(editingCode!, fields);
+    }
+    setEditingCode(null);
+  };
+
+  const handleDelete = (lang: LanguageOption) => {
+    if (!window.confirm(`Remove ${lang.name} from your languages?`)) return;
+    onChange(languages.filter(l => l.code !== lang.code));
+  };
+
+  const handleReset = () => {
+    if (!window.confirm("Restore the built-in language list? Custom languages and changes will be lost.")) return;
+    onChange(BUILT_IN_LANGUAGES);
+    setEditingCode(null);
+  };
+
+  return (
+    <div className="absolute inset-0 z-[60] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-slate-950/60 backdrop-blur-sm" onClick={onClose} />
+
+      <div className="relative w-full max-w-lg max-h-[85vh] bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-800">
+          <div className="flex items-center gap-2 text-slate-200 font-semibold">
+            <Languages size={18} /> Languages
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg text-slate-400 hover:bg-slate-800 hover:text-slate-200">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto py-2">
+          {languages.map((lang, index) => (
+            <div
+              key={lang.code}
+              className={`group mx-2 px-3 py-2 rounded-xl flex items-center gap-3 hover:bg-slate-800 ${lang.hidden ? 'opacity-50' : ''}`}
+            >
+              <span className="text-lg">{lang.flag}</span>
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium text-slate-200 truncate">{lang.name}</div>
+                <div className="text-[11px] text-slate-500 font-mono">
+                  {lang.code}{lang.locale ? ` · ${lang.locale}` : ''}{lang.instruction ? ' · custom prompt' : ''}
+                </div>
+              </div>
+              <button
+                onClick={() => update(lang.code, { favourite: !lang.favourite })}
+                className={`p-1.5 rounded-lg hover:bg-slate-700 ${lang.favourite ? 'text-amber-400' : 'text-slate-500 hover:text-slate-200'}`}
+                title={lang.favourite ? "Unfavourite" : "Favourite"}
+              >
+                <Star size={14} fill={lang.favourite ? 'currentColor' : 'none'} />
+              </button>
+              <button
+                onClick={() => update(lang.code, { hidden: !lang.hidden })}
+                className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-700 hover:text-slate-200"
+                title={lang.hidden ? "Show in menu" : "Hide from menu"}
+              >
+                {lang.hidden ? <EyeOff size={14} /> : <Eye size={14} />}
+              </button>
+              <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button onClick={() => move(index, -1)} disabled={index === 0} className="p-1.5 rounded-lg text-slate-400 hover:bg-slate-700 hover:text-slate-200 disabled:opacity-30" title="Move up">
+                  <ArrowUp size={14} />
+                </button>
+                <button onClick={() => move(index, 1)} disabled={index === languages.length - 1} className="p-1.5 rounded-lg text-slate-400 hover:bg-slate-700 hover:text-slate-200 disabled:opacity-30" title="Move down">
+                  <ArrowDown size={14} />
+                </button>
+                <button onClick={() => startEdit(lang)} className="p-1.5 rounded-lg text-slate-400 hover:bg-slate-700 hover:text-slate-200" title="Edit">
+                  <Pencil size={14} />
+                </button>
+                {lang.custom && (
+                  <button onClick={() => handleDelete(lang)} className="p-1.5 rounded-lg text-slate-400 hover:bg-slate-700 hover:text-red-400" title="Remove">
+                    <Trash2 size={14} />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Add / edit form */}
+        {editingCode !== null ? (
+          <div className="border-t border-slate-800 px-5 py-4 space-y-2">
+            <div className="text-xs font-semibold text-slate-500 uppercase tracking-wider">
+              {editingCode === '' ? 'Add Language' : 'Edit Language'}
+            </div>
+            <div className="flex gap-2">
+              <input value={draft.flag} onChange={e => setDraft({ ...draft, flag: e.target.value })} placeholder="🌐" className={`${inputClass} w-16 text-center`} />
+              <input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="Display name" className={inputClass} />
+            </div>
+            <div className="flex gap-2">
+              <input
+                value={draft.code}
+                disabled={editingCode !== ''}
+                onChange={e => setDraft({ ...draft, code: e.target.value })}
+                placeholder="Code, e.g. zh-HK"
+                className={`${inputClass} font-mono`}
+              />
+              <input value={draft.locale} onChange={e => setDraft({ ...draft, locale: e.target.value })} placeholder="Locale (optional)" className={`${inputClass} font-mono`} />
+            </div>
+            <textarea
+              value={draft.instruction}
+              onChange={e => setDraft({ ...draft, instruction: e.target.value })}
+              placeholder="Custom instruction (optional) - replaces the default translation prompt"
+              rows={3}
+              className={`${inputClass} resize-none`}
+            />
+            {formError && <div className="text-xs text-red-400">{formError}</div>}
+            <div className="flex justify-end gap-2 pt-1">
+              <button onClick={() => setEditingCode(null)} className="px-3 py-2 rounded-lg text-sm text-slate-400 hover:bg-slate-800">Cancel</button>
+              <button onClick={commitDraft} className="px-3 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-500">Save</button>
+            </div>
+          </div>
+        ) : (
+          <div className="border-t border-slate-800 px-5 py-3 flex justify-between">
+            <button onClick={handleReset} className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm text-slate-400 hover:bg-slate-800 hover:text-slate-200">
+              <RotateCcw size={14} /> Restore defaults
+            </button>
+            <button onClick={() => startEdit(null)} className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm font-medium text-blue-400 hover:bg-slate-800">
+              <Plus size={14} /> Add language
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LanguageSettings;
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { Volume1, Volume2, VolumeX } from 'lucide-react';
+import { BargeInSettings, PlaybackSettings } from '../types';
+
+interface PlaybackControlsProps {
+  settings: PlaybackSettings;
+  onChange: (settings: PlaybackSettings) => void;
+  bargeIn: BargeInSettings;
+  onBargeInChange: (settings: BargeInSettings) => void;
+  isActive: boolean; // A live session is running; the interruption policy waits for the next connect
+}
+
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5];
+
+const PlaybackControls: React.FC<PlaybackControlsProps> = ({ settings, onChange, bargeIn, onBargeInChange, isActive }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const update = (patch: Partial<PlaybackSettings>) => onChange({ ...settings, ...patch });
+  const updateBargeIn = (patch: Partial<BargeInSettings>) => onBargeInChange({ ...bargeIn, ...patch });
+
+  const Icon = settings.textOnly || settings.volume === 0 ? VolumeX : settings.volume < 0.5 ? Volume1 : Volume2;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`p-3 rounded-xl transition-colors border ${
+          settings.textOnly
+            ? 'bg-amber-500/10 text-amber-400 border-amber-500/20 hover:bg-amber-500/20'
+            : 'bg-slate-800/50 text-slate-400 border-transparent hover:bg-slate-800 hover:text-slate-200 hover:border-slate-700'
+        }`}
+        title={settings.textOnly ? 'Text only: model speech is not played' : 'Model speech playback'}
+      >
+        <Icon size={18} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full right-0 mb-3 w-64 bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl py-2 z-50">
+          <div className="px-4 py-2 text-xs font-semibold text-slate-500 uppercase tracking-wider">Model Speech</div>
+
+          <label className="flex items-center justify-between px-4 py-2 text-sm text-slate-300 cursor-pointer">
+            Text only
+            <input
+              type="checkbox"
+              checked={settings.textOnly}
+              onChange={e => update({ textOnly: e.target.checked })}
+              className="accent-blue-500"
+            />
+          </label>
+
+          <label className={`block px-4 py-2 ${settings.textOnly ? 'opacity-50' : ''}`}>
+            <div className="flex justify-between text-xs text-slate-400 mb-1.5">
+              <span>Volume</span>
+              <span className="font-mono text-slate-300">{Math.round(settings.volume * 100)}%</span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={settings.volume}
+              onChange={e => update({ volume: Number(e.target.value) })}
+              className="w-full accent-blue-500"
+            />
+          </label>
+
+          <div className={`flex items-center gap-1 px-4 py-2 ${settings.textOnly ? 'opacity-50' : ''}`}>
+            <span className="text-xs text-slate-400 mr-auto">Speed</span>
+            {PLAYBACK_RATES.map(rate => (
+              <button
+                key={rate}
+                onClick={() => update({ rate })}
+                className={`px-2 py-1 rounded-lg text-[11px] font-medium transition-colors ${
+                  settings.rate === rate ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                {rate}×
+              </button>
+            ))}
+          </div>
+
+          <div className="px-4 pt-1 pb-2 text-[11px] text-slate-500">
+            Replay a translation with the play button next to it. Replays use these settings too.
+          </div>
+
+          <div className="px-4 pt-3 pb-1 border-t border-slate-800 text-xs font-semibold text-slate-500 uppercase tracking-wider">When You Speak</div>
+
+          <label className="flex items-center justify-between gap-3 px-4 py-2 text-sm text-slate-300 cursor-pointer">
+            <span>
+              Interrupt the model
+              {isActive && <span className="block text-[11px] text-slate-500">Applies when the session next connects</span>}
+            </span>
+            <input
+              type="checkbox"
+              checked={bargeIn.allowInterruption}
+              onChange={e => updateBargeIn({ allowInterruption: e.target.checked })}
+              className="accent-blue-500"
+            />
+          </label>
+
+          <label className="flex items-center justify-between px-4 py-2 text-sm text-slate-300 cursor-pointer">
+            Lower the volume
+            <input
+              type="checkbox"
+              checked={bargeIn.duckWhileSpeaking}
+              onChange={e => updateBargeIn({ duckWhileSpeaking: e.target.checked })}
+              className="accent-blue-500"
+            />
+          </label>
+
+          <label className={`block px-4 py-2 ${bargeIn.duckWhileSpeaking ? '' : 'opacity-50'}`}>
+            <div className="flex justify-between text-xs text-slate-400 mb-1.5">
+              <span>Lowered to</span>
+              <span className="font-mono text-slate-300">{Math.round(bargeIn.duckLevel * 100)}%</span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={bargeIn.duckLevel}
+              disabled={!bargeIn.duckWhileSpeaking}
+              onChange={e => updateBargeIn({ duckLevel: Number(e.target.value) })}
+              className="w-full accent-blue-500"
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlaybackControls;
@@ -0,0 +1,51 @@
+import React, { useEffect, useState } from 'react';
+import { RefreshCw, WifiOff } from 'lucide-react';
+import { ReconnectState } from '../types';
+
+interface ReconnectBannerProps {
+  reconnect: ReconnectState;
+  onRetryNow: () => void;
+}
+
+// Countdown to the next reconnect attempt, with a shortcut to skip the wait
+const ReconnectBanner: React.FC<ReconnectBannerProps> = ({ reconnect, onRetryNow }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (reconnect.retryAt === null) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [reconnect.retryAt]);
+
+  const secondsLeft = reconnect.retryAt === null ? 0 : Math.max(0, Math.ceil((reconnect.retryAt - now) / 1000));
+  const message = reconnect.offline
+    ? 'You are offline. Waiting for the network…'
+    : reconnect.retryAt === null || secondsLeft === 0
+      ? 'Reconnecting…'
+      : `Connection lost. Reconnecting in ${secondsLeft}s…`;
+
+  return (
+    <div className="w-full mb-4 px-4 py-3 bg-amber-500/10 border border-amber-500/20 rounded-xl text-amber-300 text-sm flex items-center justify-between gap-3">
+      <div className="flex items-center gap-2 min-w-0">
+        {reconnect.offline ? <WifiOff size={16} className="shrink-0" /> : <RefreshCw size={16} className="shrink-0 animate-spin" />}
+        <span className="truncate">
+          {message}
+          <span className="text-amber-400/60">
+            {' '}· attempt {reconnect.attempt}/{reconnect.maxAttempts}
+            {reconnect.bufferedMs >= 1000 && ` · holding ${Math.round(reconnect.bufferedMs / 1000)}s of audio`}
+          </span>
+        </span>
+      </div>
+      <button
+        onClick={onRetryNow}
+        disabled={reconnect.retryAt === null && !reconnect.offline}
+        className="shrink-0 px-3 py-1.5 rounded-lg bg-amber-500/20 hover:bg-amber-500/30 text-amber-200 text-xs font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Retry now
+      </button>
+    </div>
+  );
+};
+
+export default ReconnectBanner;
@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { Download, Mic, Volume2, Headphones, X } from 'lucide-react';
+import { RecordingMeta } from '../types';
+import { getRecordingMeta, renderStereoMixWav, renderTrackWav } from '../utils/sessionRecorder';
+import { downloadBlob } from '../utils/download';
+
+interface RecordingPanelProps {
+  recordingId: string;
+  title?: string;
+  onDismiss: () => void;
+}
+
+type RecordingDownload = 'mic' | 'model' | 'mix';
+
+const formatSeconds = (sec: number) => {
+  const total = Math.round(sec);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+const RecordingPanel: React.FC<RecordingPanelProps> = ({ recordingId, title, onDismiss }) => {
+  const [meta, setMeta] = useState<RecordingMeta | null>(null);
+  const [busy, setBusy] = useState<RecordingDownload | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setMeta(null);
+    getRecordingMeta(recordingId)
+      .then(result => { if (!cancelled) setMeta(result ?? null); })
+      .catch(e => console.error("Failed to load recording", e));
+    return () => { cancelled = true; };
+  }, [recordingId]);
+
+  if (!meta) return null;
+
+  const baseName = (title || `recording-${meta.startedAt.toISOString().slice(0, 19)}`).replace(/[\\/:*?"<>|\s]+/g, '_');
+
+  const handleDownload = async (kind: RecordingDownload) => {
+    setBusy(kind);
+    setError(null);
+    try {
+      const blob = kind === 'mix'
+        ? await renderStereoMixWav(recordingId)
+        : await renderTrackWav(recordingId, kind);
+      downloadBlob(blob, `${baseName}-${kind}.wav`);
+    } catch (e) {
+      console.error("Failed to render recording", e);
+      setError("Could not build the WAV file.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const buttons: { kind: RecordingDownload; label: string; icon: React.ReactNode; disabled: boolean }[] = [
+    { kind: 'mic', label: 'Mic', icon: <Mic size={14} />, disabled: meta.micLength === 0 },
+    { kind: 'model', label: 'Model', icon: <Volume2 size={14} />, disabled: meta.modelLength === 0 },
+    { kind: 'mix', label: 'Stereo mix', icon: <Headphones size={14} />, disabled: false },
+  ];
+
+  const duration = Math.max(meta.micLength / meta.micSampleRate, meta.modelLength / meta.modelSampleRate);
+
+  return (
+    <div className="w-full mb-4 px-4 py-3 bg-slate-900/80 border border-slate-700 rounded-xl text-sm flex items-center justify-between gap-3 flex-wrap">
+      <div className="flex items-center gap-2 text-slate-300">
+        <Download size={16} className="text-slate-500" />
+        <span>Session audio <span className="text-slate-500">· {formatSeconds(duration)}</span></span>
+        {error && <span className="text-red-400 text-xs">{error}</span>}
+      </div>
+      <div className="flex items-center gap-1.5">
+        {buttons.map(btn => (
+          <button
+            key={btn.kind}
+            onClick={() => handleDownload(btn.kind)}
+            disabled={btn.disabled || busy !== null}
+            className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg bg-slate-800 text-xs text-slate-300 hover:bg-slate-700 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {busy === btn.kind
+              ? <div className="w-3.5 h-3.5 border-2 border-slate-500 border-t-white rounded-full animate-spin" />
+              : btn.icon}
+            {btn.label}
+          </button>
+        ))}
+        <button
+          onClick={onDismiss}
+          className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-800 hover:text-slate-200"
+          title="Hide"
+        >
+          <X size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RecordingPanel;
@@ -0,0 +1,171 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Settings2, ExternalLink, Maximize, Minimize } from 'lucide-react';
+import { SubtitleCue, SubtitleSettings, SubtitleStacking } from '../types';
+import { DEFAULT_SUBTITLE_SETTINGS, isSubtitleChannelSupported, openSubtitleWindow } from '../utils/subtitles';
+import { useFullscreen } from '../hooks/useFullscreen';
+import SubtitleOverlay from './SubtitleOverlay';
+
+interface SubtitleModeProps {
+  isOpen: boolean;
+  onClose: () => void;
+  cues: SubtitleCue[];
+  settings: SubtitleSettings;
+  onChange: (settings: SubtitleSettings) => void;
+}
+
+const STACKING_OPTIONS: { value: SubtitleStacking; label: string }[] = [
+  { value: 'source-above', label: 'Source above' },
+  { value: 'translation-above', label: 'Translation above' },
+  { value: 'translation', label: 'Translation only' },
+  { value: 'source', label: 'Source only' },
+];
+
+const LINE_COUNTS = [1, 2, 3, 4];
+
+const toolbarButton = "p-2.5 rounded-xl bg-slate-900/80 text-slate-300 hover:bg-slate-800 hover:text-white border border-slate-700 transition-colors";
+
+const ColorSetting: React.FC<{ label: string; value: string; onChange: (value: string) => void; disabled?: boolean }> = ({
+  label, value, onChange, disabled,
+}) => (
+  <label className={`flex items-center justify-between px-4 py-1.5 text-sm text-slate-300 ${disabled ? 'opacity-50' : ''}`}>
+    {label}
+    <input
+      type="color"
+      value={value}
+      disabled={disabled}
+      onChange={e => onChange(e.target.value)}
+      className="w-8 h-6 rounded bg-transparent border border-slate-700 cursor-pointer"
+    />
+  </label>
+);
+
+// Full-screen captions for projecting an event; the toolbar shows on hover
+const SubtitleMode: React.FC<SubtitleModeProps> = ({ isOpen, onClose, cues, settings, onChange }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { isFullscreen, toggle: toggleFullscreen } = useFullscreen(containerRef);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const update = (patch: Partial<SubtitleSettings>) => onChange({ ...settings, ...patch });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    // Escape leaves full screen first (the browser handles that), then the mode
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !document.fullscreenElement) onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div ref={containerRef} className="fixed inset-0 z-[80] group">
+      <SubtitleOverlay cues={cues} settings={settings} />
+
+      <div className={`absolute top-4 right-4 flex items-center gap-2 transition-opacity ${
+        isSettingsOpen ? 'opacity-100' : 'opacity-0 group-hover:opacity-100 focus-within:opacity-100'
+      }`}>
+        {isSubtitleChannelSupported && (
+          <button onClick={() => openSubtitleWindow()} className={toolbarButton} title="Open captions in a separate window">
+            <ExternalLink size={18} />
+          </button>
+        )}
+        <button onClick={toggleFullscreen} className={toolbarButton} title={isFullscreen ? 'Exit full screen' : 'Full screen'}>
+          {isFullscreen ? <Minimize size={18} /> : <Maximize size={18} />}
+        </button>
+        <button onClick={() => setIsSettingsOpen(!isSettingsOpen)} className={toolbarButton} title="Caption settings">
+          <Settings2 size={18} />
+        </button>
+        <button onClick={onClose} className={toolbarButton} title="Leave presentation mode (Esc)">
+          <X size={18} />
+        </button>
+      </div>
+
+      {isSettingsOpen && (
+        <div className="absolute top-16 right-4 w-72 max-h-[80vh] overflow-y-auto bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl py-2 text-left">
+          <div className="px-4 py-2 text-xs font-semibold text-slate-500 uppercase tracking-wider">Captions</div>
+
+          <label className="block px-4 py-2">
+            <div className="flex justify-between text-xs text-slate-400 mb-1.5">
+              <span>Font size</span>
+              <span className="font-mono text-slate-300">{settings.fontSize}px</span>
+            </div>
+            <input
+              type="range"
+              min={24}
+              max={120}
+              step={4}
+              value={settings.fontSize}
+              onChange={e => update({ fontSize: Number(e.target.value) })}
+              className="w-full accent-blue-500"
+            />
+          </label>
+
+          <div className="flex items-center gap-1 px-4 py-2">
+            <span className="text-xs text-slate-400 mr-auto">Lines</span>
+            {LINE_COUNTS.map(lineCount => (
+              <button
+                key={lineCount}
+                onClick={() => update({ lineCount })}
+                className={`w-7 py-1 rounded-lg text-[11px] font-medium transition-colors ${
+                  settings.lineCount === lineCount ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                {lineCount}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-1 px-4 py-2">
+            {STACKING_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => update({ stacking: option.value })}
+                className={`px-2 py-1.5 rounded-lg text-[11px] font-medium transition-colors ${
+                  settings.stacking === option.value ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="px-4 pt-3 pb-1 border-t border-slate-800 mt-1 text-xs font-semibold text-slate-500 uppercase tracking-wider">Colours</div>
+          <ColorSetting label="Translation" value={settings.textColor} onChange={textColor => update({ textColor })} />
+          <ColorSetting label="Source" value={settings.sourceColor} onChange={sourceColor => update({ sourceColor })} />
+          <ColorSetting
+            label="Background"
+            value={settings.backgroundColor}
+            onChange={backgroundColor => update({ backgroundColor })}
+            disabled={settings.chromaKey}
+          />
+
+          <label className="flex items-center justify-between px-4 py-2 text-sm text-slate-300 cursor-pointer">
+            Chroma key background
+            <input
+              type="checkbox"
+              checked={settings.chromaKey}
+              onChange={e => update({ chromaKey: e.target.checked })}
+              className="accent-blue-500"
+            />
+          </label>
+          <ColorSetting
+            label="Key colour"
+            value={settings.chromaColor}
+            onChange={chromaColor => update({ chromaColor })}
+            disabled={!settings.chromaKey}
+          />
+
+          <button
+            onClick={() => onChange(DEFAULT_SUBTITLE_SETTINGS)}
+            className="mx-4 mt-2 mb-1 text-[11px] text-slate-500 hover:text-slate-300"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SubtitleMode;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { SubtitleCue, SubtitleSettings } from '../types';
+import { SOURCE_FONT_SCALE } from '../utils/subtitles';
+
+interface SubtitleOverlayProps {
+  cues: SubtitleCue[];
+  settings: SubtitleSettings;
+}
+
+// Large rolling captions filling their container; older text scrolls off the top
+const SubtitleOverlay: React.FC<SubtitleOverlayProps> = ({ cues, settings }) => {
+  // Shadows blur the edge a chroma key cuts along, so keyed captions go without
+  const shadow = settings.chromaKey ? undefined : '0 2px 8px rgba(0, 0, 0, 0.8)';
+
+  const sourceLine = (cue: SubtitleCue) => cue.source && (
+    <div style={{ color: settings.sourceColor, fontSize: settings.fontSize * SOURCE_FONT_SCALE }}>{cue.source}</div>
+  );
+  const translationLine = (cue: SubtitleCue) => cue.translation && (
+    <div style={{ color: settings.textColor, fontSize: settings.fontSize }} className="font-semibold">{cue.translation}</div>
+  );
+
+  return (
+    <div
+      className="w-full h-full overflow-hidden flex flex-col justify-end gap-[0.6em] px-[5%] py-[4%] text-center leading-tight"
+      style={{
+        background: settings.chromaKey ? settings.chromaColor : settings.backgroundColor,
+        textShadow: shadow,
+        fontSize: settings.fontSize,
+      }}
+    >
+      {cues.map(cue => (
+        <div key={cue.id} className={`flex flex-col gap-[0.15em] ${cue.partial ? 'opacity-80' : ''}`}>
+          {settings.stacking === 'source-above' && <>{sourceLine(cue)}{translationLine(cue)}</>}
+          {settings.stacking === 'translation-above' && <>{translationLine(cue)}{sourceLine(cue)}</>}
+          {settings.stacking === 'translation' && translationLine(cue)}
+          {settings.stacking === 'source' && sourceLine(cue)}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SubtitleOverlay;
@@ -0,0 +1,41 @@
+import React, { useEffect, useRef } from 'react';
+import { Maximize, Minimize } from 'lucide-react';
+import { useSubtitleFeed } from '../hooks/useSubtitleChannel';
+import { useFullscreen } from '../hooks/useFullscreen';
+import { isSubtitleChannelSupported } from '../utils/subtitles';
+import SubtitleOverlay from './SubtitleOverlay';
+
+// Pop-out caption window (?view=subtitles), fed by the main window over BroadcastChannel
+const SubtitleWindow: React.FC = () => {
+  const feed = useSubtitleFeed();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { isFullscreen, toggle: toggleFullscreen } = useFullscreen(containerRef);
+
+  useEffect(() => {
+    document.title = 'LinguaFlow Live · Captions';
+  }, []);
+
+  return (
+    <div ref={containerRef} className="fixed inset-0 group bg-black">
+      {feed ? (
+        <SubtitleOverlay cues={feed.cues} settings={feed.settings} />
+      ) : (
+        <div className="w-full h-full flex items-center justify-center text-sm text-slate-500">
+          {isSubtitleChannelSupported
+            ? 'Waiting for the LinguaFlow Live window…'
+            : 'This browser cannot sync captions between windows.'}
+        </div>
+      )}
+
+      <button
+        onClick={toggleFullscreen}
+        className="absolute top-4 right-4 p-2.5 rounded-xl bg-slate-900/80 text-slate-300 hover:bg-slate-800 hover:text-white border border-slate-700 transition-opacity opacity-0 group-hover:opacity-100 focus:opacity-100"
+        title={isFullscreen ? 'Exit full screen' : 'Full screen'}
+      >
+        {isFullscreen ? <Minimize size={18} /> : <Maximize size={18} />}
+      </button>
+    </div>
+  );
+};
+
+export default SubtitleWindow;
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { SendHorizontal, Keyboard } from 'lucide-react';
+
+interface TextComposerProps {
+  onSend: (text: string) => Promise<void>;
+  isLive: boolean; // Messages go into the connected session rather than a one-off request
+  disabled?: boolean;
+}
+
+const TextComposer: React.FC<TextComposerProps> = ({ onSend, isLive, disabled }) => {
+  const [text, setText] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const send = async () => {
+    const message = text.trim();
+    if (!message || isSending) return;
+    setIsSending(true);
+    setError(null);
+    setText('');
+    try {
+      await onSend(message);
+    } catch (e: any) {
+      setText(current => current || message); // Give the message back so it can be retried
+      setError(e?.message || "The message could not be sent.");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="mt-2">
+      <form
+        onSubmit={e => { e.preventDefault(); send(); }}
+        className="flex items-center gap-2 px-3 py-1.5 bg-slate-900/80 border border-slate-800 rounded-2xl focus-within:border-slate-600 transition-colors"
+      >
+        <Keyboard size={16} className="shrink-0 text-slate-500" />
+        <input
+          value={text}
+          onChange={e => setText(e.target.value)}
+          disabled={disabled}
+          placeholder={isLive ? 'Type to the session instead of speaking…' : 'Type a message for a one-off reply…'}
+          className="flex-1 min-w-0 bg-transparent py-1.5 text-sm text-slate-200 placeholder:text-slate-500 focus:outline-none disabled:opacity-50"
+        />
+        <button
+          type="submit"
+          disabled={disabled || isSending || !text.trim()}
+          className="p-2 rounded-xl text-blue-400 hover:bg-blue-500/10 transition-colors disabled:text-slate-600 disabled:hover:bg-transparent"
+          title={isLive ? 'Send into the live session' : 'Send for a one-off reply'}
+        >
+          <SendHorizontal size={16} />
+        </button>
+      </form>
+      {error && <div className="px-3 pt-1 text-[11px] text-red-400">{error}</div>}
+    </div>
+  );
+};
+
+export default TextComposer;
@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+import { ImageIcon, Loader2, ImageOff } from 'lucide-react';
+import { TranscriptItem } from '../types';
+import { useImageUrl } from '../hooks/useImageUrl';
+
+interface TranscriptImageProps {
+  item: TranscriptItem;
+}
+
+// Seconds since the placeholder appeared, ticking while it is pending
+const useElapsedSeconds = (since: Date, active: boolean) => {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (!active) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [active]);
+  return Math.max(0, Math.floor((now - since.getTime()) / 1000));
+};
+
+// An image in the transcript (generated, or a frame the user snapped): placeholder, failure,
+// stored image or (older sessions) inline data
+const TranscriptImage: React.FC<TranscriptImageProps> = ({ item }) => {
+  const storedUrl = useImageUrl(item.imageStatus === 'done' ? item.imageId : undefined);
+  const elapsed = useElapsedSeconds(item.timestamp, item.imageStatus === 'pending');
+
+  if (item.imageStatus === 'pending') {
+    return (
+      <div className="mt-2 w-64 h-40 rounded-xl border border-slate-700 bg-slate-900/60 flex flex-col items-center justify-center gap-2 text-xs text-slate-400">
+        <Loader2 size={20} className="animate-spin text-blue-400" />
+        Generating… {elapsed}s
+      </div>
+    );
+  }
+
+  if (item.imageStatus === 'failed') {
+    return (
+      <div className="mt-2 px-3 py-2 rounded-xl border border-red-500/20 bg-red-500/10 flex items-center gap-2 text-xs text-red-400">
+        <ImageOff size={14} className="shrink-0" />
+        {item.imageError || 'Image generation failed'}
+      </div>
+    );
+  }
+
+  const src = item.image ?? storedUrl;
+  if (!src) {
+    return item.imageId ? <div className="mt-2 w-64 h-40 rounded-xl border border-slate-800 bg-slate-900/60" /> : null;
+  }
+
+  return (
+    <div className="mt-2 rounded-xl overflow-hidden border border-slate-700 shadow-lg">
+      <img src={src} alt={item.text || 'Generated content'} className="max-w-full h-auto max-h-[400px] object-contain bg-black" />
+      <div className="px-3 py-1.5 bg-slate-900/80 text-xs text-slate-400 flex items-center gap-1">
+        <ImageIcon size={12} />
+        {item.role === 'user' ? 'Shown to the model' : 'Generated with Gemini'}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptImage;
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { VadSettings } from '../types';
+
+interface VadControlsProps {
+  settings: VadSettings;
+  onChange: (settings: VadSettings) => void;
+  isSpeaking: boolean;
+  isActive: boolean; // A live session is streaming; activity-signal changes wait for the next connect
+}
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+  onChange: (value: number) => void;
+}
+
+const Slider: React.FC<SliderProps> = ({ label, value, min, max, step, unit, onChange }) => (
+  <label className="block px-4 py-2">
+    <div className="flex justify-between text-xs text-slate-400 mb-1.5">
+      <span>{label}</span>
+      <span className="font-mono text-slate-300">{value} {unit}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={e => onChange(Number(e.target.value))}
+      className="w-full accent-blue-500"
+    />
+  </label>
+);
+
+const VadControls: React.FC<VadControlsProps> = ({ settings, onChange, isSpeaking, isActive }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const update = (patch: Partial<VadSettings>) => onChange({ ...settings, ...patch });
+
+  const showSpeaking = isActive && (isSpeaking || !settings.enabled);
+
+  return (
+    <div className="absolute left-2 top-1/2 -translate-y-1/2 z-30">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-2.5 py-1.5 rounded-lg bg-slate-950/70 border border-slate-800 text-[11px] font-semibold tracking-wide text-slate-400 hover:text-slate-200 hover:border-slate-700 transition-colors"
+        title="Voice detection settings"
+      >
+        <span className={`w-2 h-2 rounded-full transition-colors ${
+          !isActive ? 'bg-slate-600' : showSpeaking ? 'bg-emerald-400 shadow-[0_0_8px_rgba(52,211,153,0.8)]' : 'bg-slate-500'
+        }`} />
+        {!isActive ? 'VAD' : !settings.enabled ? 'OPEN MIC' : isSpeaking ? 'SPEAKING' : 'SILENT'}
+        <SlidersHorizontal size={12} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full left-0 mb-3 w-72 bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl py-2">
+          <div className="px-4 py-2 text-xs font-semibold text-slate-500 uppercase tracking-wider">Voice Detection</div>
+
+          <label className="flex items-center justify-between px-4 py-2 text-sm text-slate-300 cursor-pointer">
+            Send only when speaking
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={e => update({ enabled: e.target.checked })}
+              className="accent-blue-500"
+            />
+          </label>
+
+          <Slider label="Threshold" value={settings.thresholdDb} min={-70} max={-20} step={1} unit="dB" onChange={v => update({ thresholdDb: v })} />
+          <Slider label="Hangover" value={settings.hangoverMs} min={100} max={2000} step={50} unit="ms" onChange={v => update({ hangoverMs: v })} />
+          <Slider label="Pre-roll" value={settings.preRollMs} min={0} max={1000} step={50} unit="ms" onChange={v => update({ preRollMs: v })} />
+
+          <label className="flex items-center justify-between gap-3 px-4 py-2 text-sm text-slate-300 cursor-pointer">
+            <span>
+              Client-side turn detection
+              <span className="block text-[11px] text-slate-500">
+                Signals speech start/end and turns off server detection{isActive ? ' (applies on next connect)' : ''}
+              </span>
+            </span>
+            <input
+              type="checkbox"
+              checked={settings.clientActivitySignals}
+              disabled={!settings.enabled}
+              onChange={e => update({ clientActivitySignals: e.target.checked })}
+              className="accent-blue-500"
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VadControls;
@@ -0,0 +1,165 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, Monitor, EyeOff, Aperture } from 'lucide-react';
+import { VisualCaptureSettings, VisualSource } from '../types';
+import { FRAME_RATES, VISUAL_SOURCE_LABELS } from '../utils/visualCapture';
+
+interface VisualCaptureControlsProps {
+  source: VisualSource | null;
+  stream: MediaStream | null; // Shown as a preview while sharing
+  settings: VisualCaptureSettings;
+  onChange: (settings: VisualCaptureSettings) => void;
+  onStart: (source: VisualSource) => Promise<void>;
+  onStop: () => void;
+  onSnap: () => Promise<void>;
+  isActive: boolean; // A live session is running; frames only go to a connected session
+}
+
+const SOURCE_ICONS: Record<VisualSource, React.FC<{ size?: number }>> = {
+  camera: Camera,
+  screen: Monitor,
+};
+
+const formatRate = (fps: number) => (fps >= 1 ? `${fps} fps` : `1 per ${Math.round(1 / fps)} s`);
+
+const VisualCaptureControls: React.FC<VisualCaptureControlsProps> = ({
+  source, stream, settings, onChange, onStart, onStop, onSnap, isActive,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSnapping, setIsSnapping] = useState(false);
+  const previewRef = useRef<HTMLVideoElement>(null);
+  const update = (patch: Partial<VisualCaptureSettings>) => onChange({ ...settings, ...patch });
+
+  useEffect(() => {
+    if (previewRef.current) previewRef.current.srcObject = stream;
+  }, [stream, isOpen]);
+
+  const handleStart = async (next: VisualSource) => {
+    setError(null);
+    try {
+      await onStart(next);
+    } catch (e: any) {
+      // Dismissing the screen picker is not an error worth showing
+      if (e?.name !== 'NotAllowedError') setError(e?.message || `Could not start the ${VISUAL_SOURCE_LABELS[next].toLowerCase()}.`);
+    }
+  };
+
+  const handleSnap = async () => {
+    setError(null);
+    setIsSnapping(true);
+    try {
+      await onSnap();
+    } catch (e: any) {
+      setError(e?.message || "Could not take a snapshot.");
+    } finally {
+      setIsSnapping(false);
+    }
+  };
+
+  const Icon = source ? SOURCE_ICONS[source] : Camera;
+
+  return (
+    <div className="relative flex items-center gap-2">
+      {source && (
+        <button
+          onClick={handleSnap}
+          disabled={isSnapping}
+          className="p-3 rounded-xl bg-blue-500/10 text-blue-400 border border-blue-500/20 hover:bg-blue-500/20 transition-colors disabled:opacity-50"
+          title="Snap this frame into the transcript"
+        >
+          <Aperture size={18} />
+        </button>
+      )}
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={!isActive && !source}
+        className={`p-3 rounded-xl transition-colors border disabled:opacity-40 disabled:cursor-not-allowed ${
+          source
+            ? 'bg-blue-500/10 text-blue-400 border-blue-500/20 hover:bg-blue-500/20'
+            : 'bg-slate-800/50 text-slate-400 border-transparent hover:bg-slate-800 hover:text-slate-200 hover:border-slate-700'
+        }`}
+        title={source ? `Sharing ${VISUAL_SOURCE_LABELS[source].toLowerCase()} with the model` : 'Show the camera or screen to the model'}
+      >
+        <Icon size={18} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full right-0 mb-3 w-72 bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl py-2 z-50">
+          <div className="px-4 py-2 text-xs font-semibold text-slate-500 uppercase tracking-wider">Visual Input</div>
+
+          {stream && (
+            <div className="px-4 pb-2">
+              <video ref={previewRef} autoPlay muted playsInline className="w-full rounded-lg bg-black aspect-video object-contain" />
+            </div>
+          )}
+
+          <div className="flex items-center gap-1 px-4 py-2">
+            {(Object.keys(VISUAL_SOURCE_LABELS) as VisualSource[]).map(option => {
+              const OptionIcon = SOURCE_ICONS[option];
+              return (
+                <button
+                  key={option}
+                  onClick={() => handleStart(option)}
+                  disabled={!isActive}
+                  className={`flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-40 ${
+                    source === option ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-slate-200'
+                  }`}
+                >
+                  <OptionIcon size={14} /> {VISUAL_SOURCE_LABELS[option]}
+                </button>
+              );
+            })}
+            <button
+              onClick={onStop}
+              disabled={!source}
+              className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-lg text-xs font-medium bg-slate-800 text-slate-400 hover:text-slate-200 transition-colors disabled:opacity-40"
+            >
+              <EyeOff size={14} /> Off
+            </button>
+          </div>
+
+          {error && <div className="px-4 py-1 text-[11px] text-red-400">{error}</div>}
+
+          <div className="flex items-center gap-1 px-4 py-2">
+            <span className="text-xs text-slate-400 mr-auto">Frames</span>
+            {FRAME_RATES.map(frameRate => (
+              <button
+                key={frameRate}
+                onClick={() => update({ frameRate })}
+                className={`px-2 py-1 rounded-lg text-[11px] font-medium transition-colors ${
+                  settings.frameRate === frameRate ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                {formatRate(frameRate)}
+              </button>
+            ))}
+          </div>
+
+          <label className="block px-4 py-2">
+            <div className="flex justify-between text-xs text-slate-400 mb-1.5">
+              <span>Quality</span>
+              <span className="font-mono text-slate-300">{Math.round(settings.quality * 100)}%</span>
+            </div>
+            <input
+              type="range"
+              min={0.3}
+              max={0.95}
+              step={0.05}
+              value={settings.quality}
+              onChange={e => update({ quality: Number(e.target.value) })}
+              className="w-full accent-blue-500"
+            />
+          </label>
+
+          <div className="px-4 pt-1 pb-2 text-[11px] text-slate-500">
+            {isActive
+              ? 'Frames are sent with your speech. Snap a frame to keep it in the transcript.'
+              : 'Start a session to share the camera or screen.'}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VisualCaptureControls;
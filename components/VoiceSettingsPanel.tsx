@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { AudioLines, X, Check, Play, Loader2, RotateCcw } from 'lucide-react';
+import { ResponseModality, VoiceSettings } from '../types';
+import { LIVE_MODELS, modelOption, voicesForModel } from '../utils/voiceSettings';
+
+interface VoiceSettingsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  targetLabel: string; // Language or pair these settings belong to
+  settings: VoiceSettings;
+  isCustomised: boolean;
+  onChange: (settings: VoiceSettings) => void;
+  onReset: () => void;
+  onPreview?: (voiceName: string) => Promise<void>; // Absent without an API key
+  isActive: boolean; // A live session is running; changes apply when it next connects
+}
+
+const MODALITIES: { value: ResponseModality; label: string }[] = [
+  { value: 'audio', label: 'Spoken audio' },
+  { value: 'text', label: 'Text only' },
+];
+
+const rowClass = (selected: boolean) =>
+  `w-[calc(100%-1rem)] mx-2 px-3 py-2 rounded-xl flex items-center gap-3 text-left text-sm transition-colors ${
+    selected ? 'bg-slate-800 text-slate-100' : 'text-slate-300 hover:bg-slate-800/60'
+  }`;
+
+const VoiceSettingsPanel: React.FC<VoiceSettingsPanelProps> = ({
+  isOpen, onClose, targetLabel, settings, isCustomised, onChange, onReset, onPreview, isActive,
+}) => {
+  const [previewing, setPreviewing] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const update = (patch: Partial<VoiceSettings>) => onChange({ ...settings, ...patch });
+  const model = modelOption(settings.model);
+  const isAudio = settings.responseModality === 'audio';
+
+  const handlePreview = async (voiceName: string) => {
+    if (!onPreview) return;
+    setPreviewing(voiceName);
+    setPreviewError(null);
+    try {
+      await onPreview(voiceName);
+    } catch (e) {
+      console.error("Voice preview failed", e);
+      setPreviewError(`Could not preview ${voiceName}.`);
+    } finally {
+      setPreviewing(null);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-[60] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-slate-950/60 backdrop-blur-sm" onClick={onClose} />
+
+      <div className="relative w-full max-w-lg max-h-[85vh] bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-800">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2 text-slate-200 font-semibold">
+              <AudioLines size={18} /> Voice & model
+            </div>
+            <div className="text-xs text-slate-500 truncate">
+              For {targetLabel}{isCustomised ? '' : ' (defaults)'}
+            </div>
+          </div>
+          <div className="flex items-center gap-1">
+            {isCustomised && (
+              <button
+                onClick={onReset}
+                className="flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs text-slate-400 hover:bg-slate-800 hover:text-slate-200"
+                title="Use the default settings for this language"
+              >
+                <RotateCcw size={12} /> Reset
+              </button>
+            )}
+            <button onClick={onClose} className="p-2 rounded-lg text-slate-400 hover:bg-slate-800 hover:text-slate-200">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto py-2">
+          {isActive && (
+            <div className="mx-4 my-2 px-3 py-2 rounded-xl bg-slate-800/60 text-xs text-slate-400">
+              Changes apply when the session next connects, e.g. after a language switch or restart.
+            </div>
+          )}
+
+          <div className="px-5 pt-2 pb-1 text-xs font-semibold text-slate-500 uppercase tracking-wider">Model</div>
+          {LIVE_MODELS.map(option => (
+            <button key={option.id} onClick={() => update({ model: option.id })} className={rowClass(settings.model === option.id)}>
+              <span className="w-4 shrink-0 text-blue-400">{settings.model === option.id && <Check size={14} />}</span>
+              <span className="flex-1 min-w-0">
+                <span className="block truncate">{option.label}</span>
+                <span className="block text-[11px] text-slate-500">{option.description}</span>
+              </span>
+            </button>
+          ))}
+
+          <div className="px-5 pt-4 pb-1 text-xs font-semibold text-slate-500 uppercase tracking-wider">Response</div>
+          <div className="flex gap-2 px-4 py-1">
+            {MODALITIES.map(option => {
+              const disabled = option.value === 'text' && !model?.supportsText;
+              return (
+                <button
+                  key={option.value}
+                  onClick={() => update({ responseModality: option.value })}
+                  disabled={disabled}
+                  className={`flex-1 px-3 py-2 rounded-xl text-sm transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                    settings.responseModality === option.value ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-slate-200'
+                  }`}
+                  title={disabled ? 'This model only answers with audio' : undefined}
+                >
+                  {option.label}
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="mx-4 mt-3 mb-1 px-3 py-2 rounded-xl bg-slate-800/40 space-y-1.5">
+            <label className="flex items-center justify-between text-sm text-slate-300 cursor-pointer">
+              Transcribe what you say
+              <input
+                type="checkbox"
+                checked={settings.inputTranscription}
+                onChange={e => update({ inputTranscription: e.target.checked })}
+                className="accent-blue-500"
+              />
+            </label>
+            <label className={`flex items-center justify-between text-sm text-slate-300 ${isAudio ? 'cursor-pointer' : 'opacity-50'}`}>
+              Transcribe the model's speech
+              <input
+                type="checkbox"
+                checked={isAudio && settings.outputTranscription}
+                disabled={!isAudio}
+                onChange={e => update({ outputTranscription: e.target.checked })}
+                className="accent-blue-500"
+              />
+            </label>
+          </div>
+
+          <div className={isAudio ? '' : 'opacity-50 pointer-events-none'}>
+            <div className="px-5 pt-4 pb-1 text-xs font-semibold text-slate-500 uppercase tracking-wider">Voice</div>
+            {previewError && <div className="px-5 pb-1 text-xs text-red-400">{previewError}</div>}
+            {voicesForModel(settings.model).map(voice => (
+              <div key={voice.name} className={rowClass(settings.voiceName === voice.name)}>
+                <button onClick={() => update({ voiceName: voice.name })} className="flex-1 min-w-0 flex items-center gap-3 text-left">
+                  <span className="w-4 shrink-0 text-blue-400">{settings.voiceName === voice.name && <Check size={14} />}</span>
+                  <span className="flex-1 min-w-0 truncate">
+                    {voice.name} <span className="text-[11px] text-slate-500">{voice.style}</span>
+                  </span>
+                </button>
+                {onPreview && (
+                  <button
+                    onClick={() => handlePreview(voice.name)}
+                    disabled={previewing !== null}
+                    className="shrink-0 flex items-center gap-1 px-2 py-1 rounded-lg text-xs text-slate-400 hover:bg-slate-700 hover:text-slate-200 disabled:opacity-50"
+                    title="Hear this voice"
+                  >
+                    {previewing === voice.name ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} />} Preview
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VoiceSettingsPanel;
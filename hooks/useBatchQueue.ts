@@ -0,0 +1,29 @@
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { SessionRecord } from '../types';
+import { BatchQueue, BatchQueueState } from '../utils/batchQueue';
+import { LiveTransport } from '../utils/liveTransport';
+
+export interface UseBatchQueueResult extends BatchQueueState {
+  queue: BatchQueue;
+}
+
+// React binding for BatchQueue: restores saved jobs on mount and reports finished ones.
+// Without a transport (no API key) saved jobs are listed but stay as they are.
+export function useBatchQueue(transport: LiveTransport | null, onJobFinished?: (record: SessionRecord) => void): UseBatchQueueResult {
+  const onJobFinishedRef = useRef(onJobFinished);
+  onJobFinishedRef.current = onJobFinished;
+
+  const [queue] = useState(() => new BatchQueue(transport));
+
+  const state = useSyncExternalStore(
+    listener => queue.on('state', listener),
+    () => queue.getState()
+  );
+
+  useEffect(() => {
+    queue.load();
+    return queue.on('jobFinished', record => onJobFinishedRef.current?.(record));
+  }, [queue]);
+
+  return { ...state, queue };
+}
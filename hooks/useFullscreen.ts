@@ -0,0 +1,22 @@
+import { RefObject, useEffect, useState } from 'react';
+
+// Whether an element is shown full screen, and a toggle for it
+export function useFullscreen(ref: RefObject<HTMLElement | null>) {
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  useEffect(() => {
+    const onChange = () => setIsFullscreen(!!ref.current && document.fullscreenElement === ref.current);
+    document.addEventListener('fullscreenchange', onChange);
+    return () => document.removeEventListener('fullscreenchange', onChange);
+  }, [ref]);
+
+  const toggle = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {});
+    } else {
+      ref.current?.requestFullscreen().catch(e => console.warn("Full screen was refused", e));
+    }
+  };
+
+  return { isFullscreen, toggle };
+}
@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import { getImage } from '../utils/imageStore';
+
+// Object URL for an image in the image store; null while loading or if it is gone
+export function useImageUrl(imageId: string | undefined): string | null {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!imageId) return;
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    getImage(imageId).then(image => {
+      if (cancelled || !image) return;
+      objectUrl = URL.createObjectURL(image.data);
+      setUrl(objectUrl);
+    }).catch(e => console.error("Failed to load image", e));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [imageId]);
+
+  return url;
+}
@@ -0,0 +1,74 @@
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { ConnectionStatus, LanguagePair, SessionRecord, VisualSource } from '../types';
+import { LiveSessionClient, LiveSessionClientOptions, LiveSessionState } from '../utils/liveSessionClient';
+import { DEFAULT_VOICE_SETTINGS } from '../utils/voiceSettings';
+
+export interface UseLiveSessionOptions extends LiveSessionClientOptions {
+  onSessionSaved?: (record: SessionRecord) => void;
+  onNotice?: (message: string) => void;
+}
+
+export interface UseLiveSessionResult extends LiveSessionState {
+  client: LiveSessionClient;
+  start: () => Promise<void>;
+  stop: () => Promise<void>;
+  startTalking: () => void;
+  stopTalking: () => void;
+  retryNow: () => void;
+  replay: (itemId: string) => void;
+  stopReplay: () => void;
+  startVisual: (source: VisualSource) => Promise<void>;
+  stopVisual: () => void;
+  snapFrame: () => Promise<void>;
+  sendText: (text: string) => Promise<void>;
+  clearTranscripts: () => void;
+}
+
+// React binding for LiveSessionClient. The client is created once; callbacks in
+// options always see their latest values, so they can close over component state.
+export function useLiveSession(options: UseLiveSessionOptions): UseLiveSessionResult {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const [client] = useState(() => new LiveSessionClient({
+    transport: options.transport,
+    buildSystemInstruction: (langCode: string, pair: LanguagePair | null) =>
+      optionsRef.current.buildSystemInstruction(langCode, pair),
+    getVoiceSettings: options.getVoiceSettings && ((langCode: string, pair: LanguagePair | null) =>
+      optionsRef.current.getVoiceSettings?.(langCode, pair) ?? DEFAULT_VOICE_SETTINGS),
+    tools: options.tools,
+    generateText: options.generateText && ((text: string, systemInstruction: string) =>
+      optionsRef.current.generateText!(text, systemInstruction)),
+    getMicStream: options.getMicStream,
+  }));
+
+  const state = useSyncExternalStore(
+    listener => client.on('state', listener),
+    () => client.getState()
+  );
+
+  useEffect(() => client.on('sessionSaved', record => optionsRef.current.onSessionSaved?.(record)), [client]);
+  useEffect(() => client.on('notice', message => optionsRef.current.onNotice?.(message)), [client]);
+
+  // End (and archive) a running session when the owning component unmounts
+  useEffect(() => () => {
+    if (client.getState().status !== ConnectionStatus.DISCONNECTED) client.stop();
+  }, [client]);
+
+  return {
+    ...state,
+    client,
+    start: () => client.start(),
+    stop: () => client.stop(),
+    startTalking: () => client.startTalking(),
+    stopTalking: () => client.stopTalking(),
+    retryNow: () => client.retryNow(),
+    replay: itemId => { client.replay(itemId); },
+    stopReplay: () => client.stopReplay(),
+    startVisual: source => client.startVisual(source),
+    stopVisual: () => client.stopVisual(),
+    snapFrame: () => client.snapFrame(),
+    sendText: text => client.sendText(text),
+    clearTranscripts: () => client.clearTranscripts(),
+  };
+}
@@ -0,0 +1,42 @@
+import { useEffect, useRef, useState } from 'react';
+import { SubtitleCue, SubtitleSettings } from '../types';
+import { isSubtitleChannelSupported, openSubtitleChannel } from '../utils/subtitles';
+
+// Main window: publish the captions to pop-out windows, and answer a window that just opened
+export function useSubtitleBroadcast(cues: SubtitleCue[], settings: SubtitleSettings) {
+  const latestRef = useRef({ cues, settings });
+  latestRef.current = { cues, settings };
+  const channelRef = useRef<ReturnType<typeof openSubtitleChannel> | null>(null);
+
+  useEffect(() => {
+    if (!isSubtitleChannelSupported) return;
+    const channel = openSubtitleChannel(message => {
+      if (message.type === 'sync') channel.post({ type: 'update', ...latestRef.current });
+    });
+    channelRef.current = channel;
+    return () => {
+      channelRef.current = null;
+      channel.close();
+    };
+  }, []);
+
+  useEffect(() => {
+    channelRef.current?.post({ type: 'update', cues, settings });
+  }, [cues, settings]);
+}
+
+// Pop-out window: the captions as last published by the main window; null until it answers
+export function useSubtitleFeed(): { cues: SubtitleCue[]; settings: SubtitleSettings } | null {
+  const [feed, setFeed] = useState<{ cues: SubtitleCue[]; settings: SubtitleSettings } | null>(null);
+
+  useEffect(() => {
+    if (!isSubtitleChannelSupported) return;
+    const channel = openSubtitleChannel(message => {
+      if (message.type === 'update') setFeed({ cues: message.cues, settings: message.settings });
+    });
+    channel.post({ type: 'sync' });
+    return () => channel.close();
+  }, []);
+
+  return feed;
+}
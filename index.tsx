@@ -1,15 +1,19 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import SubtitleWindow from './components/SubtitleWindow';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// ?view=subtitles is the pop-out caption window opened from presentation mode
+const isSubtitleWindow = new URLSearchParams(window.location.search).get('view') === 'subtitles';
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {isSubtitleWindow ? <SubtitleWindow /> : <App />}
   </React.StrictMode>
 );
\ No newline at end of file
@@ -1,10 +1,33 @@
 export interface TranscriptItem {
   id: string;
-  role: 'user' | 'model';
+  role: 'user' | 'model' | 'system'; // 'system' marks app notices such as language switches
   text: string;
-  image?: string; // Base64 image string
+  image?: string; // Base64 image data URL (items archived before images were stored separately)
+  // Generated image kept in the image store, and how its generation went
+  imageId?: string;
+  imageStatus?: ImageStatus;
+  imageError?: string;
   isFinal: boolean;
   timestamp: Date;
+  // Offsets in ms from the start of the session the item was recorded in
+  startOffsetMs: number;
+  endOffsetMs: number;
+  // Two-way interpreter mode: the pair in use, and the turn's languages once they are known
+  interpreterPair?: LanguagePair;
+  sourceLang?: string;
+  targetLang?: string;
+  // Input a user turn was heard on
+  source?: AudioSourceKind;
+  // Set on user turns typed into the composer instead of spoken
+  typed?: boolean;
+  // Set on model turns cut short by the user speaking
+  interruption?: TurnInterruption;
+}
+
+// How much of an interrupted model turn's audio had arrived and had been heard
+export interface TurnInterruption {
+  playedMs: number;
+  receivedMs: number;
 }
 
 export enum ConnectionStatus {
@@ -14,8 +37,219 @@ export enum ConnectionStatus {
   ERROR = 'error',
 }
 
+// Two languages interpreted in both directions, e.g. ['zh', 'en']
+export type LanguagePair = [string, string];
+
 export interface LanguageOption {
   code: string;
   name: string;
   flag: string;
-}
\ No newline at end of file
+  locale?: string; // BCP-47 tag passed to the model, e.g. 'pt-BR' or 'yue-HK'
+  instruction?: string; // Replaces the default one-way translation prompt
+  hidden?: boolean; // Kept in the catalogue but left out of the pickers
+  favourite?: boolean; // Listed first in the language menu
+  custom?: boolean; // User-defined; built-ins can be hidden but not deleted
+}
+
+// A finished live session persisted to the local history archive
+export interface SessionRecord {
+  id: string;
+  title: string;
+  targetLang: string;
+  startedAt: Date;
+  endedAt: Date;
+  items: TranscriptItem[];
+  recordingId?: string; // Set when session audio was captured
+  interpreterPair?: LanguagePair; // Set for two-way interpreter sessions
+}
+
+// Lightweight view of a SessionRecord for the history sidebar
+export interface SessionSummary {
+  id: string;
+  title: string;
+  targetLang: string;
+  startedAt: Date;
+  endedAt: Date;
+  itemCount: number;
+  interpreterPair?: LanguagePair;
+  snippet?: string; // Matching excerpt when listed from a search
+}
+
+export type ExportFormat = 'srt' | 'vtt' | 'md' | 'json' | 'txt';
+
+// Which turns to include when exporting a transcript
+export type ExportContent = 'all' | 'user' | 'model' | 'paired';
+
+export type RecordingTrack = 'mic' | 'model';
+
+// Metadata for a captured session recording; samples live in the audioChunks store
+export interface RecordingMeta {
+  id: string;
+  startedAt: Date;
+  micSampleRate: number;
+  modelSampleRate: number;
+  micLength: number; // Samples on the mic timeline
+  modelLength: number; // Samples on the model timeline
+}
+
+// Client-side voice activity detection / uplink gating preferences
+export interface VadSettings {
+  enabled: boolean; // Gate silent chunks instead of streaming everything
+  thresholdDb: number; // Frame energy (dBFS) that counts as speech
+  hangoverMs: number; // Keep sending this long after speech stops
+  preRollMs: number; // Audio replayed from before the detected onset
+  clientActivitySignals: boolean; // Send activityStart/End and disable server-side detection
+}
+
+// 'continuous' streams the mic hands-free; 'push-to-talk' only while Space/the mic button is held
+export type InputMode = 'continuous' | 'push-to-talk';
+
+// A required rendering of a term for one language pair
+export interface GlossaryEntry {
+  id: string;
+  source: string; // Term as it appears in the source language
+  target: string; // Required translation; ignored when doNotTranslate is set
+  doNotTranslate: boolean; // Keep the source term verbatim (product names etc.)
+  note?: string;
+}
+
+// A glossary term the model output failed to respect
+export interface GlossaryViolation {
+  entry: GlossaryEntry;
+  expected: string; // Term that should have appeared in the output
+  found: string; // Matching term in the source turn
+}
+
+// Progress of an automatic reconnect after the Live connection dropped
+export interface ReconnectState {
+  attempt: number; // 1-based attempt being waited for or in progress
+  maxAttempts: number;
+  retryAt: number | null; // Epoch ms of the next attempt; null while connecting or offline
+  offline: boolean; // Waiting for the browser to come back online
+  bufferedMs: number; // Mic audio held back to send once reconnected
+}
+
+// Audio device choice and mic processing; '' device ids mean the system default
+export interface AudioDeviceSettings {
+  inputDeviceId: string;
+  outputDeviceId: string;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+// How model speech is played back; textOnly skips audio entirely
+export interface PlaybackSettings {
+  volume: number; // 0..1
+  rate: number; // 1 = normal speed
+  textOnly: boolean;
+}
+
+// How the Live model answers: spoken audio (with optional transcription) or plain text
+export type ResponseModality = 'audio' | 'text';
+
+// Live model and voice for one target language or interpreter pair
+export interface VoiceSettings {
+  model: string;
+  voiceName: string;
+  responseModality: ResponseModality;
+  inputTranscription: boolean; // Transcribe what the user says
+  outputTranscription: boolean; // Transcribe the model's speech (audio responses only)
+}
+
+export type ImageStatus = 'pending' | 'done' | 'failed';
+
+// How a stored image came about: a fresh prompt, an edit of another image, a variation
+// of one, or a camera/screen frame the user snapped
+export type ImageOrigin = 'generate' | 'edit' | 'variation' | 'snapshot';
+
+export interface GeneratedImage {
+  id: string;
+  prompt: string; // The prompt, the edit instruction for edits, or a label for snapshots
+  origin: ImageOrigin;
+  parentId?: string; // Image an edit or variation was made from
+  sessionId?: string;
+  createdAt: Date;
+  data: Blob;
+}
+
+// Camera or screen shown to the model alongside the audio
+export type VisualSource = 'camera' | 'screen';
+
+// How often and how well frames are sent while visual input is on
+export interface VisualCaptureSettings {
+  frameRate: number; // Frames per second
+  quality: number; // JPEG quality, 0..1
+  maxWidth: number; // Frames are scaled down to at most this width
+}
+
+// How a subtitle cue arranges the speaker's words and the translation
+export type SubtitleStacking = 'translation' | 'source-above' | 'translation-above' | 'source';
+
+// Look of the presentation-mode captions
+export interface SubtitleSettings {
+  fontSize: number; // px for translation lines; source lines are set smaller
+  lineCount: number; // Cues kept on screen
+  textColor: string;
+  sourceColor: string;
+  backgroundColor: string;
+  chromaKey: boolean; // Replace the background with a flat keying colour
+  chromaColor: string;
+  stacking: SubtitleStacking;
+}
+
+// One subtitle: a user turn and its translation, or the partials still coming in
+export interface SubtitleCue {
+  id: string;
+  source?: string;
+  translation?: string;
+  partial: boolean;
+}
+
+// What happens to model speech while the user talks over it
+export interface BargeInSettings {
+  allowInterruption: boolean; // User speech stops the model's turn (applies on the next connect)
+  duckWhileSpeaking: boolean; // Lower playback volume locally while the user speaks
+  duckLevel: number; // Fraction of the playback volume kept while ducked, 0..1
+}
+
+// Where session audio comes from; 'mic+system' mixes the microphone with shared tab/system audio
+export type InputSource = 'mic' | 'system' | 'mic+system' | 'file';
+
+// A single capture source, as recorded on user turns
+export type AudioSourceKind = 'mic' | 'system' | 'file';
+
+// Playback position of a media file being translated
+export interface FileProgress {
+  name: string;
+  elapsedSec: number;
+  durationSec: number;
+}
+
+// Batch transcription of recorded files
+export type BatchJobStatus = 'queued' | 'running' | 'paused' | 'done' | 'failed';
+export type BatchChunkStatus = 'pending' | 'done' | 'failed';
+
+export interface BatchChunk {
+  index: number;
+  startMs: number; // Position of the chunk within the file
+  endMs: number;
+  status: BatchChunkStatus;
+  attempts: number;
+  error?: string;
+  items?: TranscriptItem[]; // Offsets relative to the file start
+}
+
+export interface BatchJob {
+  id: string;
+  fileName: string;
+  createdAt: Date;
+  durationMs: number;
+  targetLang: string;
+  interpreterPair?: LanguagePair;
+  instruction: string; // System instruction captured when the job was added
+  model?: string; // Live model captured when the job was added; unset on jobs saved before it was
+  status: BatchJobStatus;
+  chunks: BatchChunk[];
+  sessionId?: string; // History entry the results were saved to
+}
@@ -1,67 +1,11 @@
 import { Blob } from '@google/genai';
 
-// AudioWorklet processor code to be loaded via Blob URL
-export const AUDIO_WORKLET_CODE = `
-class RecorderProcessor extends AudioWorkletProcessor {
-  constructor() {
-    super();
-    this.bufferSize = 2048; // Send chunks of ~128ms at 16kHz
-    this.buffer = new Float32Array(this.bufferSize);
-    this.bufferIndex = 0;
-    this._targetSampleRate = 16000;
-  }
-
-  process(inputs) {
-    const input = inputs[0];
-    // If no input or empty channels, keep processor alive but do nothing
-    if (!input || input.length === 0) return true;
-    
-    const channelData = input[0];
-    if (!channelData) return true;
-    
-    // Access global sampleRate from AudioWorkletGlobalScope
-    const currentSampleRate = sampleRate; 
-    const ratio = currentSampleRate / this._targetSampleRate;
-    
-    // Logic to downsample/upsample to 16kHz
-    // We loop through the input buffer and sample points based on the ratio
-    for (let i = 0; i < channelData.length; i += ratio) {
-       const idx = Math.floor(i);
-       if (idx < channelData.length) {
-         this.buffer[this.bufferIndex++] = channelData[idx];
-         
-         // When buffer is full, flush it
-         if (this.bufferIndex >= this.bufferSize) {
-           this.flush();
-         }
-       }
-    }
-
-    return true;
-  }
-
-  flush() {
-    if (this.bufferIndex > 0) {
-      const data = this.buffer.slice(0, this.bufferIndex);
-      this.port.postMessage(data);
-      this.bufferIndex = 0;
-    }
-  }
-}
-
-registerProcessor('recorder-processor', RecorderProcessor);
-`;
+// Bundled URL of the mic capture worklet ('recorder-processor'), for audioWorklet.addModule
+export { default as RECORDER_WORKLET_URL } from './recorderWorklet?worker&url';
 
 // Helper to create the Blob structure required by Gemini Live API
 export function createPcmBlob(data: Float32Array): Blob {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    // Clamp and convert to 16-bit PCM
-    const s = Math.max(-1, Math.min(1, data[i]));
-    // Convert float [-1.0, 1.0] to int16 [-32768, 32767]
-    int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
-  }
+  const int16 = floatTo16BitPcm(data);
   const base64 = arrayBufferToBase64(int16.buffer);
   // console.log("base64="+base64);
   return {
@@ -110,26 +54,19 @@ export async function decodeAudioData(
     channelData[i] = dataInt16[i] / 32768.0;
   }
   
-  console.log("Base64="+audioBufferToWavBase64(audioBuffer));
-
   return audioBuffer;
 }
 
-// AudioBuffer → WAV ArrayBuffer
-function audioBufferToWavArrayBuffer(buffer: AudioBuffer): ArrayBuffer {
-  const numChannels = buffer.numberOfChannels;
-  const sampleRate = buffer.sampleRate;
+export const WAV_HEADER_SIZE = 44;
+
+// Build a 16-bit PCM WAV header for dataSize bytes of interleaved samples
+export function createWavHeader(numChannels: number, sampleRate: number, dataSize: number): ArrayBuffer {
   const bitsPerSample = 16;
   const format = 1; // PCM
-
-  const samples = buffer.length;
   const blockAlign = numChannels * bitsPerSample / 8;
   const byteRate = sampleRate * blockAlign;
-  const dataSize = samples * blockAlign;
-  const headerSize = 44;
-  const totalSize = headerSize + dataSize;
 
-  const ab = new ArrayBuffer(totalSize);
+  const ab = new ArrayBuffer(WAV_HEADER_SIZE);
   const view = new DataView(ab);
 
   function writeString(offset: number, str: string) {
@@ -140,7 +77,7 @@ function audioBufferToWavArrayBuffer(buffer: AudioBuffer): ArrayBuffer {
 
   // --- WAV Header ---
   writeString(0, 'RIFF');
-  view.setUint32(4, totalSize - 8, true);
+  view.setUint32(4, WAV_HEADER_SIZE + dataSize - 8, true);
   writeString(8, 'WAVE');
 
   writeString(12, 'fmt ');
@@ -155,12 +92,35 @@ function audioBufferToWavArrayBuffer(buffer: AudioBuffer): ArrayBuffer {
   writeString(36, 'data');
   view.setUint32(40, dataSize, true);
 
-  // --- PCM 写入 ---
-  let offset = 44;
-  for (let ch = 0; ch < numChannels; ch++) {
-    const channelData = buffer.getChannelData(ch);
-    for (let i = 0; i < channelData.length; i++) {
-      let v = Math.max(-1, Math.min(1, channelData[i]));
+  return ab;
+}
+
+// Convert float samples [-1.0, 1.0] to 16-bit PCM
+export function floatTo16BitPcm(data: Float32Array): Int16Array {
+  const int16 = new Int16Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const s = Math.max(-1, Math.min(1, data[i]));
+    int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+  }
+  return int16;
+}
+
+// AudioBuffer → WAV ArrayBuffer
+export function audioBufferToWavArrayBuffer(buffer: AudioBuffer): ArrayBuffer {
+  const numChannels = buffer.numberOfChannels;
+  const samples = buffer.length;
+  const dataSize = samples * numChannels * 2;
+
+  const ab = new ArrayBuffer(WAV_HEADER_SIZE + dataSize);
+  new Uint8Array(ab).set(new Uint8Array(createWavHeader(numChannels, buffer.sampleRate, dataSize)), 0);
+  const view = new DataView(ab);
+
+  // --- PCM 写入 (interleaved) ---
+  const channels = Array.from({ length: numChannels }, (_, ch) => buffer.getChannelData(ch));
+  let offset = WAV_HEADER_SIZE;
+  for (let i = 0; i < samples; i++) {
+    for (let ch = 0; ch < numChannels; ch++) {
+      const v = Math.max(-1, Math.min(1, channels[ch][i]));
       view.setInt16(offset, v < 0 ? v * 0x8000 : v * 0x7fff, true);
       offset += 2;
     }
@@ -177,4 +137,10 @@ export function audioBufferToWavBase64(buffer: AudioBuffer, withPrefix = true):
   return withPrefix
     ? `data:audio/wav;base64,${base64}`
     : base64;
-}
\ No newline at end of file
+}
+
+// Messages posted by the recorder-processor worklet
+export type WorkletMessage =
+  | { type: 'audio'; samples: Float32Array; speech: boolean }
+  | { type: 'vad'; speaking: boolean }
+  | { type: 'flushed' };
@@ -0,0 +1,106 @@
+// Audio device discovery and routing.
+//
+// Lists microphones and speakers, builds getUserMedia constraints from the
+// user's device and processing choices, and routes AudioContext output to a
+// chosen speaker where the browser supports setSinkId (Chromium-based browsers).
+// Also holds the defaults for model speech playback (volume, speed, text-only,
+// barge-in behaviour).
+
+import { AudioDeviceSettings, BargeInSettings, PlaybackSettings } from '../types';
+
+export const DEFAULT_AUDIO_DEVICE_SETTINGS: AudioDeviceSettings = {
+  inputDeviceId: '',
+  outputDeviceId: '',
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+export const DEFAULT_PLAYBACK_SETTINGS: PlaybackSettings = {
+  volume: 1,
+  rate: 1,
+  textOnly: false,
+};
+
+export const DEFAULT_BARGE_IN_SETTINGS: BargeInSettings = {
+  allowInterruption: true,
+  duckWhileSpeaking: true,
+  duckLevel: 0.3,
+};
+
+export interface AudioDeviceLists {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+}
+
+// AudioContext.setSinkId is not in the TypeScript DOM lib yet
+type SinkableAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+export function supportsOutputSelection(): boolean {
+  return typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+}
+
+// Labels stay empty until the page has been granted mic access
+export async function listAudioDevices(): Promise<AudioDeviceLists> {
+  if (!navigator.mediaDevices?.enumerateDevices) return { inputs: [], outputs: [] };
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  // The 'default'/'communications' aliases duplicate a real device; '' already stands for the default
+  const real = devices.filter(device => device.deviceId && device.deviceId !== 'default' && device.deviceId !== 'communications');
+  return {
+    inputs: real.filter(device => device.kind === 'audioinput'),
+    outputs: real.filter(device => device.kind === 'audiooutput'),
+  };
+}
+
+// Ask for mic access once so enumerateDevices returns labels
+export async function requestDeviceLabels(): Promise<void> {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  stream.getTracks().forEach(track => track.stop());
+}
+
+export function deviceLabel(device: MediaDeviceInfo, index: number): string {
+  return device.label || `${device.kind === 'audioinput' ? 'Microphone' : 'Speaker'} ${index + 1}`;
+}
+
+export function buildMicConstraints(settings: AudioDeviceSettings, useDefaultDevice = false): MediaTrackConstraints {
+  return {
+    channelCount: 1,
+    echoCancellation: settings.echoCancellation,
+    autoGainControl: settings.autoGainControl,
+    noiseSuppression: settings.noiseSuppression,
+    ...(settings.inputDeviceId && !useDefaultDevice ? { deviceId: { exact: settings.inputDeviceId } } : {}),
+  };
+}
+
+// Route an AudioContext to a speaker; resolves false where unsupported or the device is gone
+export async function setContextSink(ctx: AudioContext, sinkId: string): Promise<boolean> {
+  const sinkable = ctx as SinkableAudioContext;
+  if (!sinkable.setSinkId) return false;
+  try {
+    await sinkable.setSinkId(sinkId);
+    return true;
+  } catch (e) {
+    console.warn("Failed to select output device", e);
+    return false;
+  }
+}
+
+// Short beep on the given speaker so the user can check the routing
+export async function playTestTone(sinkId: string): Promise<void> {
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  const ctx: AudioContext = new AudioContextClass();
+  try {
+    if (sinkId) await setContextSink(ctx, sinkId);
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.frequency.value = 660;
+    gain.gain.setValueAtTime(0.2, ctx.currentTime);
+    gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.5);
+    osc.connect(gain).connect(ctx.destination);
+    osc.start();
+    osc.stop(ctx.currentTime + 0.5);
+    await new Promise<void>(resolve => { osc.onended = () => resolve(); });
+  } finally {
+    ctx.close().catch(() => {});
+  }
+}
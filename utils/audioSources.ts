@@ -0,0 +1,60 @@
+// Non-microphone inputs for the capture graph: shared tab/system audio and
+// uploaded media files.
+
+import { AudioSourceKind } from '../types';
+
+// Speaker label for a user turn by the input it was heard on
+export const SOURCE_LABELS: Record<AudioSourceKind, string> = {
+  mic: 'You',
+  system: 'Tab audio',
+  file: 'File',
+};
+
+// Share a tab, window or screen with its audio. Browsers only offer audio capture
+// alongside video, so the video track is requested too and simply left unused.
+export async function captureSystemAudio(): Promise<MediaStream> {
+  if (!navigator.mediaDevices?.getDisplayMedia) {
+    throw new Error("This browser cannot capture tab or system audio.");
+  }
+  const stream = await navigator.mediaDevices.getDisplayMedia({
+    video: true,
+    audio: {
+      // Speech from a call or webinar is already processed; don't let voice DSP mangle it
+      echoCancellation: false,
+      noiseSuppression: false,
+      autoGainControl: false,
+      // Keep our own translated speech out of a whole-system capture (Chromium only)
+      restrictOwnAudio: true,
+    } as MediaTrackConstraints,
+    systemAudio: 'include',
+  } as DisplayMediaStreamOptions);
+
+  if (stream.getAudioTracks().length === 0) {
+    stream.getTracks().forEach(track => track.stop());
+    throw new Error("No audio was shared. Pick a tab or screen and turn on \"Share audio\".");
+  }
+  return stream;
+}
+
+export const stopStream = (stream: MediaStream | null) => stream?.getTracks().forEach(track => {
+  track.onended = null;
+  track.stop();
+});
+
+// Decode an audio or video file's soundtrack at the context's sample rate
+export async function decodeMediaFile(ctx: BaseAudioContext, file: File): Promise<AudioBuffer> {
+  const data = await file.arrayBuffer();
+  try {
+    return await ctx.decodeAudioData(data);
+  } catch (e) {
+    throw new Error(`Could not decode the audio in ${file.name}.`);
+  }
+}
+
+// Loudness of whatever an analyser currently sees, as mean square
+export function analyserPower(analyser: AnalyserNode, scratch: Float32Array): number {
+  analyser.getFloatTimeDomainData(scratch);
+  let sum = 0;
+  for (let i = 0; i < scratch.length; i++) sum += scratch[i] * scratch[i];
+  return sum / scratch.length;
+}
@@ -0,0 +1,17 @@
+// Exponential backoff with jitter for reconnect attempts
+
+export interface BackoffOptions {
+  baseMs: number; // Delay before the first retry
+  maxMs: number; // Cap on the exponential growth
+  factor: number;
+  jitter: number; // Fraction of the delay that is randomised, 0..1
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = { baseMs: 1000, maxMs: 30000, factor: 2, jitter: 0.5 };
+
+// Delay before retry `attempt` (1-based). Part of the delay stays fixed so a retry
+// never fires immediately, the rest is randomised so clients don't reconnect in lockstep.
+export function backoffDelay(attempt: number, options: BackoffOptions = DEFAULT_BACKOFF, random = Math.random): number {
+  const exp = Math.min(options.maxMs, options.baseMs * options.factor ** Math.max(0, attempt - 1));
+  return Math.round(exp * (1 - options.jitter) + exp * options.jitter * random());
+}
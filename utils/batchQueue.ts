@@ -0,0 +1,287 @@
+// Queue runner for batch transcription jobs.
+//
+// Jobs run one at a time and chunk by chunk. Every state change is written to
+// IndexedDB, so after a reload the queue picks up at the first unfinished
+// chunk. Failed chunks are retried with backoff and, once out of attempts,
+// left for a manual retry while the rest of the file carries on.
+
+import { BatchJob, BatchChunk, LanguagePair, SessionRecord } from '../types';
+import { LiveTransport } from './liveTransport';
+import { backoffDelay } from './backoff';
+import { BATCH_SAMPLE_RATE, decodeToMono16k, isAbortError, splitIntoChunks, transcribeChunk } from './batchTranscriber';
+import { createBatchJob, createBatchJobId, deleteBatchJob, getBatchChunkAudio, listBatchJobs, saveBatchJob } from './batchStore';
+import { createSessionId, saveSession } from './sessionStore';
+import { DEFAULT_VOICE_SETTINGS, modelOption } from './voiceSettings';
+
+const MAX_CHUNK_ATTEMPTS = 3;
+
+export interface BatchQueueState {
+  jobs: BatchJob[];
+  loaded: boolean;
+}
+
+export interface BatchQueueEvents {
+  state: BatchQueueState;
+  jobFinished: SessionRecord; // A job's results were saved to history
+}
+
+type Listener<T> = (payload: T) => void;
+
+export interface BatchJobOptions {
+  targetLang: string;
+  interpreterPair?: LanguagePair;
+  instruction: string;
+  model: string; // From the voice settings of the job's language selection
+}
+
+// Abortable delay between retries
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Wait aborted', 'AbortError'));
+  }, { once: true });
+});
+
+// The model a job was added with, or the default if it predates per-job models or was retired since
+const jobModel = (job: BatchJob) => (job.model && modelOption(job.model) ? job.model : DEFAULT_VOICE_SETTINGS.model);
+
+// Results of a job so far, in the shape of an archived session
+export function batchJobToSession(job: BatchJob): SessionRecord {
+  return {
+    id: job.sessionId ?? job.id,
+    title: job.fileName,
+    targetLang: job.targetLang,
+    startedAt: job.createdAt,
+    endedAt: new Date(job.createdAt.getTime() + job.durationMs),
+    items: job.chunks.flatMap(chunk => chunk.items ?? []),
+    interpreterPair: job.interpreterPair,
+  };
+}
+
+export function batchJobProgress(job: BatchJob): number {
+  if (job.chunks.length === 0) return 0;
+  return job.chunks.filter(chunk => chunk.status === 'done').length / job.chunks.length;
+}
+
+export class BatchQueue {
+  private state: BatchQueueState = { jobs: [], loaded: false };
+  private listeners: { [K in keyof BatchQueueEvents]: Set<Listener<BatchQueueEvents[K]>> } = {
+    state: new Set(),
+    jobFinished: new Set(),
+  };
+  private running = false;
+  private activeJobId: string | null = null;
+  private abortController: AbortController | null = null;
+
+  // Without a transport (no API key) jobs can be listed but not added or run
+  constructor(private transport: LiveTransport | null) {}
+
+  // --- Events ---
+
+  getState(): BatchQueueState {
+    return this.state;
+  }
+
+  on<K extends keyof BatchQueueEvents>(event: K, listener: Listener<BatchQueueEvents[K]>): () => void {
+    this.listeners[event].add(listener);
+    return () => {
+      this.listeners[event].delete(listener);
+    };
+  }
+
+  private emit<K extends keyof BatchQueueEvents>(event: K, payload: BatchQueueEvents[K]) {
+    this.listeners[event].forEach(listener => listener(payload));
+  }
+
+  private setJobs(jobs: BatchJob[]) {
+    this.state = { ...this.state, jobs };
+    this.emit('state', this.state);
+  }
+
+  private getJob(id: string) {
+    return this.state.jobs.find(job => job.id === id);
+  }
+
+  // Apply a change to a job and persist it
+  private updateJob(id: string, update: (job: BatchJob) => BatchJob): BatchJob | undefined {
+    const current = this.getJob(id);
+    if (!current) return undefined;
+    const next = update(current);
+    this.setJobs(this.state.jobs.map(job => (job.id === id ? next : job)));
+    saveBatchJob(next).catch(e => console.error("Failed to save batch job", e));
+    return next;
+  }
+
+  private updateChunk(id: string, index: number, patch: Partial<BatchChunk>) {
+    return this.updateJob(id, job => ({
+      ...job,
+      chunks: job.chunks.map(chunk => (chunk.index === index ? { ...chunk, ...patch } : chunk)),
+    }));
+  }
+
+  // --- Public API ---
+
+  // Restore jobs saved before a reload and carry on with the queue
+  async load() {
+    if (this.state.loaded) return;
+    try {
+      const jobs = await listBatchJobs();
+      // A job that was running when the page went away goes back in the queue
+      const restored = jobs.map(job => (job.status === 'running' ? { ...job, status: 'queued' as const } : job));
+      this.state = { jobs: [...restored, ...this.state.jobs.filter(job => !restored.some(r => r.id === job.id))], loaded: true };
+      this.emit('state', this.state);
+      this.pump();
+    } catch (e) {
+      console.error("Failed to load batch jobs", e);
+      this.state = { ...this.state, loaded: true };
+      this.emit('state', this.state);
+    }
+  }
+
+  // Decode, chunk and store a file, then queue it
+  async addFile(file: File, options: BatchJobOptions): Promise<BatchJob> {
+    if (!this.transport) throw new Error("Batch transcription needs an API key.");
+    const samples = await decodeToMono16k(file);
+    if (samples.length === 0) throw new Error(`${file.name} contains no audio.`);
+    const ranges = splitIntoChunks(samples);
+    const toMs = (sample: number) => Math.round(sample / BATCH_SAMPLE_RATE * 1000);
+
+    const job: BatchJob = {
+      id: createBatchJobId(),
+      fileName: file.name,
+      createdAt: new Date(),
+      durationMs: toMs(samples.length),
+      targetLang: options.targetLang,
+      interpreterPair: options.interpreterPair,
+      instruction: options.instruction,
+      model: options.model,
+      status: 'queued',
+      chunks: ranges.map(([start, end], index) => ({
+        index,
+        startMs: toMs(start),
+        endMs: toMs(end),
+        status: 'pending',
+        attempts: 0,
+      })),
+    };
+    await createBatchJob(job, ranges.map(([start, end]) => samples.subarray(start, end)));
+    this.setJobs([...this.state.jobs, job]);
+    this.pump();
+    return job;
+  }
+
+  // Stop after aborting the chunk in flight; it stays pending
+  pause(id: string) {
+    const job = this.getJob(id);
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) return;
+    this.updateJob(id, j => ({ ...j, status: 'paused' }));
+    if (this.activeJobId === id) this.abortController?.abort();
+  }
+
+  resume(id: string) {
+    if (this.getJob(id)?.status !== 'paused') return;
+    this.updateJob(id, job => ({ ...job, status: 'queued' }));
+    this.pump();
+  }
+
+  // Give failed chunks a fresh set of attempts
+  retryFailed(id: string) {
+    this.updateJob(id, job => ({
+      ...job,
+      status: 'queued',
+      chunks: job.chunks.map(chunk => (chunk.status === 'failed' ? { ...chunk, status: 'pending', attempts: 0, error: undefined } : chunk)),
+    }));
+    this.pump();
+  }
+
+  async remove(id: string) {
+    if (this.activeJobId === id) this.abortController?.abort();
+    this.setJobs(this.state.jobs.filter(job => job.id !== id));
+    try {
+      await deleteBatchJob(id);
+    } catch (e) {
+      console.error("Failed to delete batch job", e);
+    }
+  }
+
+  // --- Runner ---
+
+  private async pump() {
+    if (this.running || !this.transport) return;
+    this.running = true;
+    try {
+      let next: BatchJob | undefined;
+      while ((next = this.state.jobs.find(job => job.status === 'queued'))) {
+        await this.runJob(next.id);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async runJob(id: string) {
+    const controller = new AbortController();
+    this.abortController = controller;
+    this.activeJobId = id;
+    this.updateJob(id, job => ({ ...job, status: 'running' }));
+
+    try {
+      let chunk: BatchChunk | undefined;
+      while (!controller.signal.aborted && (chunk = this.getJob(id)?.chunks.find(c => c.status === 'pending'))) {
+        await this.runChunk(id, chunk, controller.signal);
+      }
+    } finally {
+      this.abortController = null;
+      this.activeJobId = null;
+    }
+
+    const job = this.getJob(id);
+    // Paused or removed mid-run
+    if (!job || job.status !== 'running') return;
+
+    const failed = job.chunks.some(chunk => chunk.status === 'failed');
+    const finished = this.updateJob(id, j => ({ ...j, status: failed ? 'failed' : 'done', sessionId: j.sessionId ?? createSessionId() }))!;
+    const record = batchJobToSession(finished);
+    if (record.items.length === 0) return;
+    try {
+      await saveSession(record);
+      this.emit('jobFinished', record);
+    } catch (e) {
+      console.error("Failed to save batch results to history", e);
+    }
+  }
+
+  private async runChunk(id: string, chunk: BatchChunk, signal: AbortSignal) {
+    const transport = this.transport;
+    if (!transport) return;
+    const job = this.getJob(id)!;
+    let attempts = chunk.attempts;
+
+    while (attempts < MAX_CHUNK_ATTEMPTS) {
+      try {
+        if (attempts > 0) await wait(backoffDelay(attempts), signal);
+        const samples = await getBatchChunkAudio(id, chunk.index);
+        if (!samples) throw new Error("Chunk audio is missing");
+
+        const items = await transcribeChunk(transport, {
+          samples,
+          offsetMs: chunk.startMs,
+          model: jobModel(job),
+          instruction: job.instruction,
+          pair: job.interpreterPair,
+          signal,
+        });
+        this.updateChunk(id, chunk.index, { status: 'done', items, error: undefined, attempts: attempts + 1 });
+        return;
+      } catch (e: any) {
+        // Paused or removed: the chunk stays pending for later
+        if (isAbortError(e) || signal.aborted) return;
+        attempts++;
+        console.warn(`Batch chunk ${chunk.index} failed (attempt ${attempts})`, e);
+        this.updateChunk(id, chunk.index, { attempts, error: e?.message || "Transcription failed" });
+      }
+    }
+    this.updateChunk(id, chunk.index, { status: 'failed' });
+  }
+}
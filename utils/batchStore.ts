@@ -0,0 +1,65 @@
+// IndexedDB persistence for batch transcription jobs. Job state and each
+// chunk's 16 kHz PCM are stored separately, so a reloaded page can carry on
+// with the remaining chunks without the original file.
+
+import { BatchJob } from '../types';
+import { STORES, openDb, promisifyRequest, withStore } from './db';
+import { floatTo16BitPcm } from './audio';
+
+interface BatchAudioRecord {
+  jobId: string;
+  index: number;
+  samples: Int16Array;
+}
+
+export function createBatchJobId(): string {
+  return `batch-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export async function saveBatchJob(job: BatchJob): Promise<void> {
+  await withStore(STORES.batchJobs, 'readwrite', store => store.put(job));
+}
+
+// Oldest first, i.e. queue order
+export async function listBatchJobs(): Promise<BatchJob[]> {
+  const jobs = await withStore<BatchJob[]>(STORES.batchJobs, 'readonly', store => store.getAll());
+  return (jobs ?? []).sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+// Store a new job together with its chunk audio in one transaction
+export async function createBatchJob(job: BatchJob, chunkAudio: Float32Array[]): Promise<void> {
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction([STORES.batchJobs, STORES.batchAudio], 'readwrite');
+    const audio = tx.objectStore(STORES.batchAudio);
+    chunkAudio.forEach((samples, index) => {
+      const record: BatchAudioRecord = { jobId: job.id, index, samples: floatTo16BitPcm(samples) };
+      audio.put(record);
+    });
+    tx.objectStore(STORES.batchJobs).put(job);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function getBatchChunkAudio(jobId: string, index: number): Promise<Float32Array | null> {
+  const db = await openDb();
+  const tx = db.transaction(STORES.batchAudio, 'readonly');
+  const record = await promisifyRequest<BatchAudioRecord | undefined>(tx.objectStore(STORES.batchAudio).get([jobId, index]));
+  if (!record) return null;
+  const samples = new Float32Array(record.samples.length);
+  for (let i = 0; i < samples.length; i++) samples[i] = record.samples[i] / 32768;
+  return samples;
+}
+
+export async function deleteBatchJob(id: string): Promise<void> {
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction([STORES.batchJobs, STORES.batchAudio], 'readwrite');
+    tx.objectStore(STORES.batchJobs).delete(id);
+    tx.objectStore(STORES.batchAudio).delete(IDBKeyRange.bound([id, 0], [id, Infinity]));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
@@ -0,0 +1,254 @@
+// Offline transcription of recorded audio through the Live API.
+//
+// Files are decoded to 16 kHz mono, split into chunks at quiet points, and
+// each chunk is streamed over its own short Live connection faster than real
+// time, slowing to real time while the model is answering so that the next
+// speaker cannot outrun the translation. The model is never interrupted by new
+// speech. The chunk is done once the stream has ended and the server has gone
+// quiet after its last turn.
+
+import { ActivityHandling, LiveServerMessage, Modality } from '@google/genai';
+import { LanguagePair, TranscriptItem } from '../types';
+import { createPcmBlob } from './audio';
+import { LiveTransport, LiveTransportSession } from './liveTransport';
+import { detectLanguage, directionTagInstruction, otherLanguage, readDirectionTag } from './languageDetect';
+
+export const BATCH_SAMPLE_RATE = 16000;
+
+const CHUNK_SECONDS = 30;
+const CUT_SEARCH_SECONDS = 3; // Look this far back from a chunk boundary for a quiet cut point
+const CUT_FRAME_SAMPLES = 800; // 50 ms energy frames
+const SLICE_SAMPLES = 8000; // 0.5 s per realtime input message
+const SEND_INTERVAL_MS = 125; // Four times real time
+const REPLY_SEND_INTERVAL_MS = 500; // Real time, while the model is still answering
+const SETTLE_MS = 4000; // Server silence after the stream ends that marks the chunk as complete
+const TIMEOUT_GRACE_MS = 60000;
+
+// Decode an audio file and mix it down to 16 kHz mono
+export async function decodeToMono16k(file: File): Promise<Float32Array> {
+  const ctx = new OfflineAudioContext(1, 1, BATCH_SAMPLE_RATE);
+  let buffer: AudioBuffer;
+  try {
+    // Decoding resamples to the context's rate
+    buffer = await ctx.decodeAudioData(await file.arrayBuffer());
+  } catch (e) {
+    throw new Error(`Could not decode ${file.name}.`);
+  }
+
+  const mono = new Float32Array(buffer.length);
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    const data = buffer.getChannelData(ch);
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+  }
+  return mono;
+}
+
+// Split into ~30 s [start, end) sample ranges, cutting at the quietest 50 ms frame near each boundary
+export function splitIntoChunks(samples: Float32Array): [number, number][] {
+  const chunkLength = CHUNK_SECONDS * BATCH_SAMPLE_RATE;
+  const searchLength = CUT_SEARCH_SECONDS * BATCH_SAMPLE_RATE;
+  const ranges: [number, number][] = [];
+  let start = 0;
+
+  while (samples.length - start > chunkLength) {
+    const target = start + chunkLength;
+    let cut = target;
+    let quietest = Infinity;
+    for (let frame = target - searchLength; frame + CUT_FRAME_SAMPLES <= target; frame += CUT_FRAME_SAMPLES) {
+      let energy = 0;
+      for (let i = frame; i < frame + CUT_FRAME_SAMPLES; i++) energy += samples[i] * samples[i];
+      if (energy < quietest) {
+        quietest = energy;
+        cut = frame + CUT_FRAME_SAMPLES / 2;
+      }
+    }
+    ranges.push([start, cut]);
+    start = cut;
+  }
+  if (start < samples.length) ranges.push([start, samples.length]);
+  return ranges;
+}
+
+export interface ChunkTranscriptionOptions {
+  samples: Float32Array; // 16 kHz mono
+  offsetMs: number; // Chunk position within the file, added to item offsets
+  model: string; // Live model; answers are always spoken and read from their transcription
+  instruction: string;
+  pair?: LanguagePair;
+  signal?: AbortSignal;
+}
+
+export const isAbortError = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+
+// Stream one chunk and collect its finished turns
+export function transcribeChunk(transport: LiveTransport, options: ChunkTranscriptionOptions): Promise<TranscriptItem[]> {
+  const { samples, offsetMs, model, instruction, pair, signal } = options;
+
+  return new Promise((resolve, reject) => {
+    const items: TranscriptItem[] = [];
+    let session: LiveTransportSession | null = null;
+    let finished = false;
+    let streamEnded = false;
+    let sent = 0;
+    let input = '';
+    let output = '';
+    let inputSpan: [number, number] | null = null;
+    let outputSpan: [number, number] | null = null;
+    let sendTimer: ReturnType<typeof setTimeout> | null = null;
+    let settleTimer: ReturnType<typeof setTimeout> | null = null;
+
+    // Text arrives while audio is still being sent, so the send position approximates its timing
+    const positionMs = () => offsetMs + Math.round(sent / BATCH_SAMPLE_RATE * 1000);
+    const touch = (span: [number, number] | null): [number, number] => (span ? [span[0], positionMs()] : [positionMs(), positionMs()]);
+
+    const completeTurn = () => {
+      const tagged = pair ? readDirectionTag(output, pair) : { text: output, targetLang: null };
+      const source = input.trim();
+      const translation = tagged.text.trim();
+      // Interpreter jobs: the model's direction tag, else either side's detected language,
+      // implies the direction; undecided turns keep the pair
+      const detected = pair && !tagged.targetLang ? detectLanguage(source, pair) : null;
+      const detectedOutput = pair && !tagged.targetLang && !detected ? detectLanguage(translation, pair) : null;
+      const sourceLang = pair && tagged.targetLang ? otherLanguage(pair, tagged.targetLang)
+        : detected ?? (pair && detectedOutput ? otherLanguage(pair, detectedOutput) : null);
+      const langs = !pair ? {}
+        : sourceLang ? { interpreterPair: pair, sourceLang, targetLang: otherLanguage(pair, sourceLang) }
+        : { interpreterPair: pair };
+      const stamp = new Date();
+
+      if (source) {
+        items.push({
+          id: `${offsetMs}-${items.length}-batch-user`,
+          role: 'user',
+          text: source,
+          isFinal: true,
+          timestamp: stamp,
+          startOffsetMs: inputSpan![0],
+          endOffsetMs: inputSpan![1],
+          source: 'file',
+          ...langs,
+        });
+      }
+      if (translation) {
+        items.push({
+          id: `${offsetMs}-${items.length}-batch-model`,
+          role: 'model',
+          text: translation,
+          isFinal: true,
+          timestamp: stamp,
+          startOffsetMs: outputSpan![0],
+          endOffsetMs: outputSpan![1],
+          ...langs,
+        });
+      }
+      input = '';
+      output = '';
+      inputSpan = null;
+      outputSpan = null;
+    };
+
+    const finish = (error?: unknown) => {
+      if (finished) return;
+      finished = true;
+      if (sendTimer) clearTimeout(sendTimer);
+      if (settleTimer) clearTimeout(settleTimer);
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', onAbort);
+      try { session?.close(); } catch (e) {}
+      if (error) {
+        reject(error);
+      } else {
+        completeTurn();
+        resolve(items);
+      }
+    };
+
+    const armSettle = () => {
+      if (!streamEnded) return;
+      if (settleTimer) clearTimeout(settleTimer);
+      settleTimer = setTimeout(() => finish(), SETTLE_MS);
+    };
+
+    const onAbort = () => finish(new DOMException('Chunk transcription aborted', 'AbortError'));
+    if (signal?.aborted) return onAbort();
+    signal?.addEventListener('abort', onAbort);
+
+    // Allow for the whole chunk being sent at the slower reply rate
+    const durationMs = samples.length / BATCH_SAMPLE_RATE * 1000;
+    const timeout = setTimeout(
+      () => finish(new Error("Timed out waiting for the transcription")),
+      durationMs * REPLY_SEND_INTERVAL_MS / (SLICE_SAMPLES / BATCH_SAMPLE_RATE * 1000) + SETTLE_MS + TIMEOUT_GRACE_MS
+    );
+
+    const handleMessage = (message: LiveServerMessage) => {
+      const inputText = message.serverContent?.inputTranscription?.text;
+      if (inputText) {
+        input += inputText;
+        inputSpan = touch(inputSpan);
+      }
+      const outputText = message.serverContent?.outputTranscription?.text;
+      if (outputText) {
+        output += outputText;
+        outputSpan = touch(outputSpan);
+      }
+      // Not expected with interruption turned off, but keep what was said as its own turn
+      // rather than letting it run into the next one
+      if (message.serverContent?.interrupted || message.serverContent?.turnComplete) completeTurn();
+      armSettle();
+    };
+
+    // A reply is under way until its turn completes; new speech then only arrives as fast as it is spoken
+    const sendDelay = () => (output ? REPLY_SEND_INTERVAL_MS : SEND_INTERVAL_MS);
+
+    const sendNext = () => {
+      sendTimer = null;
+      if (!session || finished) return;
+      try {
+        if (sent < samples.length) {
+          const end = Math.min(samples.length, sent + SLICE_SAMPLES);
+          session.sendRealtimeInput({ media: createPcmBlob(samples.subarray(sent, end)) });
+          sent = end;
+          sendTimer = setTimeout(sendNext, sendDelay());
+          return;
+        }
+        // Let server-side detection close the final turn
+        session.sendRealtimeInput({ audioStreamEnd: true });
+      } catch (e) {
+        finish(e);
+        return;
+      }
+      streamEnded = true;
+      armSettle();
+    };
+
+    transport.connect({
+      model,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        systemInstruction: pair ? instruction + directionTagInstruction(pair, true) : instruction,
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        // New speech must not cut off a translation that is still being spoken
+        realtimeInputConfig: { activityHandling: ActivityHandling.NO_INTERRUPTION },
+      },
+    }, {
+      onOpen: () => {},
+      onMessage: message => {
+        if (!finished) handleMessage(message);
+      },
+      onClose: info => {
+        // The server may hang up once it is done with a finished stream
+        if (streamEnded) finish();
+        else finish(new Error(`Connection closed${info.reason ? `: ${info.reason}` : ''}`));
+      },
+      onError: err => finish(err),
+    }).then(sess => {
+      if (finished) {
+        sess.close();
+        return;
+      }
+      session = sess;
+      sendTimer = setTimeout(sendNext, SEND_INTERVAL_MS);
+    }).catch(finish);
+  });
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ReminderTimers, ToolHost, createBuiltinTools } from './builtinTools';
+import { ToolRegistry } from './toolRegistry';
+
+const context = {
+  sessionId: 'session-1',
+  sessionItems: () => [],
+  appendTranscript: () => 'entry-1',
+  updateTranscript: () => {},
+};
+
+const reminderCall = { id: 'call-1', name: 'create_reminder', args: { text: 'Call Anna', minutes: 5 } };
+
+describe('create_reminder', () => {
+  let host: ToolHost;
+  let registry: ToolRegistry;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    host = { languages: () => [], setTargetLanguage: vi.fn(), notify: vi.fn(), reminders: new ReminderTimers() };
+    registry = new ToolRegistry(createBuiltinTools(() => host));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('notifies the user when the reminder is due', async () => {
+    const { response } = await registry.invoke(reminderCall, context, new AbortController().signal);
+    expect(response.output).toMatchObject({ dueAt: expect.any(String), note: expect.stringMatching(/page/) });
+    expect(host.reminders.pending).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(5 * 60000);
+    expect(host.notify).toHaveBeenCalledWith('Reminder: Call Anna');
+    expect(host.reminders.pending).toBe(0);
+  });
+
+  it('never fires a reminder after the timers are cleared', async () => {
+    await registry.invoke(reminderCall, context, new AbortController().signal);
+    host.reminders.clear();
+
+    await vi.advanceTimersByTimeAsync(10 * 60000);
+    expect(host.notify).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,164 @@
+// Tools shipped with the app: image generation and editing (./imageTools.ts),
+// notes, language switching, reminders and transcript search. The host supplies
+// the app-side effects and is read on every call, so it can close over current UI state.
+
+import { Type } from '@google/genai';
+import { GeneratedImage, LanguageOption } from '../types';
+import { LiveTool } from './toolRegistry';
+import { TRANSCRIBE_LANGUAGE } from './languageCatalog';
+import { ImageData } from './imageGeneration';
+import { createImageTools } from './imageTools';
+
+const MAX_REMINDER_MINUTES = 24 * 60;
+const MAX_SEARCH_RESULTS = 10;
+
+export interface ToolHost {
+  // Generates, or with a source image edits; absent when image generation is unavailable
+  generateImage?: (prompt: string, source?: ImageData) => Promise<ImageData | null>;
+  onImageSaved?: (image: GeneratedImage) => void;
+  languages: () => LanguageOption[]; // Target languages the user can pick
+  setTargetLanguage: (code: string) => void;
+  notify: (message: string) => void;
+  reminders: ReminderTimers; // Cleared by the app when the session ends
+}
+
+// Pending reminder timers. Reminders are not persisted: they only fire while the
+// session that set them is running and the page stays open.
+export class ReminderTimers {
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+
+  schedule(delayMs: number, fire: () => void) {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      fire();
+    }, delayMs);
+    this.timers.add(timer);
+  }
+
+  get pending() {
+    return this.timers.size;
+  }
+
+  clear() {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+}
+
+const takeNoteTool: LiveTool = {
+  declaration: {
+    name: 'take_note',
+    description: 'Save a short note in the transcript when the user asks you to note, remember or write something down.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        text: { type: Type.STRING, description: 'The note, written concisely in the language the user used.' },
+      },
+      required: ['text'],
+    },
+  },
+  handler: async args => {
+    const text = String(args.text ?? '').trim();
+    if (!text) throw new Error("The note is empty.");
+    return { saved: true };
+  },
+  render: args => ({ text: `Note: ${String(args.text).trim()}` }),
+};
+
+const setTargetLanguageTool = (getHost: () => ToolHost): LiveTool => ({
+  declaration: {
+    name: 'set_target_language',
+    description: 'Switch the language the user\'s speech is translated into, when the user asks for a different language. Use "none" for plain transcription.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        language: { type: Type.STRING, description: 'Language name in English (e.g. "Japanese") or its code (e.g. "ja").' },
+      },
+      required: ['language'],
+    },
+  },
+  handler: async args => {
+    const query = String(args.language ?? '').trim().toLowerCase();
+    const languages = [TRANSCRIBE_LANGUAGE, ...getHost().languages()];
+    const match = languages.find(lang =>
+      [lang.code, lang.name, lang.locale ?? ''].some(value => value.toLowerCase() === query));
+    if (!match) {
+      throw new Error(`"${args.language}" is not available. Options: ${languages.map(lang => lang.name).join(', ')}.`);
+    }
+    // The switch replaces the connection, so let the tool response go out first
+    setTimeout(() => getHost().setTargetLanguage(match.code), 0);
+    return { switchedTo: match.name };
+  },
+});
+
+const createReminderTool = (getHost: () => ToolHost): LiveTool => ({
+  declaration: {
+    name: 'create_reminder',
+    description: 'Remind the user about something after a number of minutes. Reminders are not saved: they are dropped when this session ends or the page is closed, so say so when setting one.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        text: { type: Type.STRING, description: 'What to remind the user about.' },
+        minutes: { type: Type.NUMBER, description: `Minutes from now, up to ${MAX_REMINDER_MINUTES}.` },
+      },
+      required: ['text', 'minutes'],
+    },
+  },
+  handler: async args => {
+    const text = String(args.text ?? '').trim();
+    const minutes = Number(args.minutes);
+    if (!text) throw new Error("The reminder is empty.");
+    if (!(minutes > 0 && minutes <= MAX_REMINDER_MINUTES)) {
+      throw new Error(`minutes must be between 0 and ${MAX_REMINDER_MINUTES}.`);
+    }
+    const dueAt = new Date(Date.now() + minutes * 60000);
+    getHost().reminders.schedule(minutes * 60000, () => {
+      getHost().notify(`Reminder: ${text}`);
+      if (typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+        new Notification('LinguaFlow reminder', { body: text });
+      }
+    });
+    return { dueAt: dueAt.toISOString(), note: 'Only fires if this session is still running and the page is still open then.' };
+  },
+  render: (args, output) => {
+    const dueAt = new Date((output as { dueAt: string }).dueAt);
+    return { text: `Reminder at ${dueAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}: ${String(args.text).trim()}` };
+  },
+});
+
+const searchTranscriptTool: LiveTool = {
+  declaration: {
+    name: 'search_transcript',
+    description: 'Find earlier turns of this session that mention a word or phrase, e.g. when the user asks what was said about something.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        query: { type: Type.STRING, description: 'Word or phrase to look for; matching ignores case.' },
+      },
+      required: ['query'],
+    },
+  },
+  handler: async (args, context) => {
+    const query = String(args.query ?? '').trim().toLowerCase();
+    if (!query) throw new Error("The search query is empty.");
+    const matches = context.sessionItems()
+      .filter(item => item.role !== 'system' && item.text.toLowerCase().includes(query))
+      .slice(-MAX_SEARCH_RESULTS)
+      .map(item => ({
+        speaker: item.role === 'user' ? 'user' : 'model',
+        text: item.text,
+        atSeconds: Math.round(item.startOffsetMs / 1000),
+      }));
+    return { matches };
+  },
+};
+
+export function createBuiltinTools(getHost: () => ToolHost): LiveTool[] {
+  return [
+    ...createImageTools(getHost),
+    takeNoteTool,
+    setTargetLanguageTool(getHost),
+    createReminderTool(getHost),
+    searchTranscriptTool,
+  ];
+}
@@ -0,0 +1,93 @@
+// Shared IndexedDB connection for everything LinguaFlow persists locally.
+// All object stores are declared here so schema upgrades happen in one place.
+
+const DB_NAME = 'linguaflow-live';
+const DB_VERSION = 4;
+
+export const STORES = {
+  sessions: 'sessions',
+  recordings: 'recordings',
+  audioChunks: 'audioChunks',
+  batchJobs: 'batchJobs',
+  batchAudio: 'batchAudio',
+  images: 'images',
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this environment'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.sessions)) {
+        const store = db.createObjectStore(STORES.sessions, { keyPath: 'id' });
+        store.createIndex('startedAt', 'startedAt');
+      }
+      if (!db.objectStoreNames.contains(STORES.recordings)) {
+        db.createObjectStore(STORES.recordings, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.audioChunks)) {
+        // Keyed by [recordingId, track, seq] so a track reads back in order
+        db.createObjectStore(STORES.audioChunks, { keyPath: ['recordingId', 'track', 'seq'] });
+      }
+      if (!db.objectStoreNames.contains(STORES.batchJobs)) {
+        db.createObjectStore(STORES.batchJobs, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.batchAudio)) {
+        // 16 kHz PCM per job chunk, keyed by [jobId, index]
+        db.createObjectStore(STORES.batchAudio, { keyPath: ['jobId', 'index'] });
+      }
+      if (!db.objectStoreNames.contains(STORES.images)) {
+        db.createObjectStore(STORES.images, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null; // Allow a later call to retry
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+// Wrap a single IDBRequest in a Promise
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Run a callback inside a transaction and resolve once it has committed
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const store = tx.objectStore(storeName);
+    let result: T | undefined;
+
+    const request = fn(store);
+    if (request) {
+      request.onsuccess = () => { result = request.result; };
+    }
+
+    tx.oncomplete = () => resolve(result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
@@ -0,0 +1,251 @@
+// Per-language-pair glossaries: terms the interpreter must translate a fixed way
+// (or leave untranslated), injected into the system instruction and checked
+// against finalised model turns. Persisted through the settings helpers and
+// importable/exportable as CSV or TBX.
+
+import { GlossaryEntry, GlossaryViolation, LanguagePair } from '../types';
+import { loadSetting, saveSetting } from './settings';
+
+const SETTING_KEY = 'glossaries';
+
+// Source side of one-way glossaries, where the speaker may use any language
+export const ANY_LANGUAGE = '*';
+
+export type Glossaries = Record<string, GlossaryEntry[]>;
+
+// Storage key for a pair; one-way mode uses [ANY_LANGUAGE, target]
+export function glossaryKey(pair: LanguagePair): string {
+  return `${pair[0]}>${pair[1]}`;
+}
+
+export function loadGlossaries(): Glossaries {
+  return loadSetting<Glossaries>(SETTING_KEY, {});
+}
+
+export function saveGlossaries(glossaries: Glossaries): void {
+  saveSetting(SETTING_KEY, glossaries);
+}
+
+export function createGlossaryEntry(fields: Partial<GlossaryEntry> = {}): GlossaryEntry {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    source: '',
+    target: '',
+    doNotTranslate: false,
+    ...fields,
+  };
+}
+
+const usableEntries = (entries: GlossaryEntry[]) =>
+  entries.filter(e => e.source.trim() && (e.doNotTranslate || e.target.trim()));
+
+// Extra system-instruction text enforcing the glossary; empty when there is nothing to enforce
+export function buildGlossaryInstruction(entries: GlossaryEntry[], names: [string, string], twoWay: boolean): string {
+  const usable = usableEntries(entries);
+  if (usable.length === 0) return '';
+
+  const [sourceName, targetName] = names;
+  const terms = usable.filter(e => !e.doNotTranslate);
+  const keep = usable.filter(e => e.doNotTranslate);
+  const lines: string[] = ['', 'TERMINOLOGY - follow these rules exactly:'];
+
+  if (terms.length > 0) {
+    lines.push(twoWay
+      ? `Always use these ${sourceName} ⇄ ${targetName} equivalents, in whichever direction you are translating:`
+      : `When translating into ${targetName}, always render these terms as shown:`);
+    terms.forEach(e => lines.push(`- "${e.source.trim()}" → "${e.target.trim()}"${e.note ? ` (${e.note})` : ''}`));
+  }
+  if (keep.length > 0) {
+    lines.push('Never translate these terms; say them exactly as written:');
+    keep.forEach(e => lines.push(`- "${e.source.trim()}"${e.note ? ` (${e.note})` : ''}`));
+  }
+  return lines.join('\n');
+}
+
+// Word boundaries only make sense for scripts that separate words with spaces
+const SPACED_SCRIPT = /[\p{Script=Latin}\p{Script=Cyrillic}\p{Script=Greek}\p{N}]/u;
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export function containsTerm(text: string, term: string): boolean {
+  const needle = term.trim();
+  if (!needle) return false;
+  const before = SPACED_SCRIPT.test(needle[0]) ? '(?<![\\p{L}\\p{N}])' : '';
+  const after = SPACED_SCRIPT.test(needle[needle.length - 1]) ? '(?![\\p{L}\\p{N}])' : '';
+  return new RegExp(`${before}${escapeRegExp(needle)}${after}`, 'iu').test(text);
+}
+
+// Terms present in the source turn whose required rendering is missing from the output.
+// reversed checks a two-way glossary in the target -> source direction.
+export function findGlossaryViolations(
+  sourceText: string,
+  outputText: string,
+  entries: GlossaryEntry[],
+  reversed = false
+): GlossaryViolation[] {
+  const violations: GlossaryViolation[] = [];
+  for (const entry of usableEntries(entries)) {
+    if (entry.doNotTranslate) {
+      if (containsTerm(sourceText, entry.source) && !containsTerm(outputText, entry.source)) {
+        violations.push({ entry, expected: entry.source, found: entry.source });
+      }
+      continue;
+    }
+    const [from, to] = reversed ? [entry.target, entry.source] : [entry.source, entry.target];
+    if (containsTerm(sourceText, from) && !containsTerm(outputText, to)) {
+      violations.push({ entry, expected: to, found: from });
+    }
+  }
+  return violations;
+}
+
+// --- CSV ---
+
+const CSV_HEADER = ['source', 'target', 'do_not_translate', 'note'];
+
+const csvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export function glossaryToCsv(entries: GlossaryEntry[]): string {
+  const rows = entries.map(e => [e.source, e.target, e.doNotTranslate ? 'yes' : '', e.note ?? ''].map(csvField).join(','));
+  return [CSV_HEADER.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+const TRUTHY = ['yes', 'y', 'true', '1', 'x', 'dnt'];
+
+export function parseGlossaryCsv(text: string): GlossaryEntry[] {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (rows.length === 0) return [];
+
+  // Header row is optional; without one, columns are read in CSV_HEADER order
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const hasHeader = header.includes('source');
+  const col = (name: string, fallback: number) => (hasHeader ? header.indexOf(name) : fallback);
+  const [src, tgt, dnt, note] = [col('source', 0), col('target', 1), col('do_not_translate', 2), col('note', 3)];
+
+  return (hasHeader ? rows.slice(1) : rows)
+    .map(r => {
+      const source = (r[src] ?? '').trim();
+      const target = tgt >= 0 ? (r[tgt] ?? '').trim() : '';
+      const flagged = dnt >= 0 && TRUTHY.includes((r[dnt] ?? '').trim().toLowerCase());
+      return createGlossaryEntry({
+        source,
+        target,
+        doNotTranslate: flagged || !target,
+        note: note >= 0 ? (r[note] ?? '').trim() || undefined : undefined,
+      });
+    })
+    .filter(e => e.source);
+}
+
+// --- TBX (TBX-Basic, also reads older martif/termEntry files) ---
+
+const DNT_NOTE = 'do not translate';
+const baseCode = (code: string) => code.toLowerCase().split(/[-_]/)[0];
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export function glossaryToTbx(entries: GlossaryEntry[], pair: LanguagePair): string {
+  // TBX needs a concrete language on every term; one-way glossaries fall back to 'und'
+  const [sourceLang, targetLang] = pair.map(code => (code === ANY_LANGUAGE ? 'und' : code));
+  const langSec = (lang: string, term: string) =>
+    `      <langSec xml:lang="${escapeXml(lang)}"><termSec><term>${escapeXml(term)}</term></termSec></langSec>`;
+
+  const concepts = usableEntries(entries).map((e, i) => [
+    `    <conceptEntry id="c${i + 1}">`,
+    ...(e.doNotTranslate ? [`      <note>${DNT_NOTE}</note>`] : []),
+    ...(e.note ? [`      <descrip type="definition">${escapeXml(e.note)}</descrip>`] : []),
+    langSec(sourceLang, e.source),
+    langSec(targetLang, e.doNotTranslate ? e.source : e.target),
+    '    </conceptEntry>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tbx type="TBX-Basic" style="dca" xml:lang="${escapeXml(sourceLang)}" xmlns="urn:iso:std:iso:30042:ed-2">`,
+    '  <tbxHeader><fileDesc><sourceDesc><p>LinguaFlow Live glossary</p></sourceDesc></fileDesc></tbxHeader>',
+    '  <text><body>',
+    ...concepts,
+    '  </body></text>',
+    '</tbx>',
+    '',
+  ].join('\n');
+}
+
+export function parseGlossaryTbx(xml: string, pair: LanguagePair): GlossaryEntry[] {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Not a valid TBX file.');
+  }
+
+  const byName = (root: Element | Document, ...names: string[]) =>
+    Array.from(root.getElementsByTagName('*')).filter(el => names.includes(el.localName));
+  const langOf = (el: Element) => el.getAttribute('xml:lang') ?? el.getAttributeNS('http://www.w3.org/XML/1998/namespace', 'lang') ?? '';
+
+  const [sourceLang, targetLang] = pair;
+  const entries: GlossaryEntry[] = [];
+
+  for (const concept of byName(doc, 'conceptEntry', 'termEntry')) {
+    const terms = byName(concept, 'langSec', 'langSet')
+      .map(sec => ({ lang: baseCode(langOf(sec)), term: byName(sec, 'term')[0]?.textContent?.trim() ?? '' }))
+      .filter(t => t.term);
+    if (terms.length === 0) continue;
+
+    const target = terms.find(t => t.lang === baseCode(targetLang));
+    const source = sourceLang === ANY_LANGUAGE
+      ? terms.find(t => t !== target) ?? target
+      : terms.find(t => t.lang === baseCode(sourceLang));
+    if (!source) continue;
+
+    const notes = byName(concept, 'note', 'descrip').map(n => n.textContent?.trim() ?? '');
+    const flagged = notes.some(n => n.toLowerCase() === DNT_NOTE);
+    const doNotTranslate = flagged || !target || target === source || target.term === source.term;
+    entries.push(createGlossaryEntry({
+      source: source.term,
+      target: doNotTranslate ? '' : target!.term,
+      doNotTranslate,
+      note: notes.find(n => n && n.toLowerCase() !== DNT_NOTE),
+    }));
+  }
+  return entries;
+}
+
+// Merge imported entries, replacing existing ones with the same source term
+export function mergeGlossaryEntries(existing: GlossaryEntry[], imported: GlossaryEntry[]): GlossaryEntry[] {
+  const key = (e: GlossaryEntry) => e.source.trim().toLowerCase();
+  const incoming = new Set(imported.map(key));
+  return [...existing.filter(e => !incoming.has(key(e))), ...imported];
+}
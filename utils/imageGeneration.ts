@@ -0,0 +1,21 @@
+import { GoogleGenAI } from '@google/genai';
+
+export interface ImageData {
+  data: string; // Base64
+  mimeType: string;
+}
+
+// Generate an image for a prompt, or edit a source image following the prompt;
+// resolves to null if the model returned no image
+export async function generateImage(apiKey: string, prompt: string, source?: ImageData): Promise<ImageData | null> {
+  const ai = new GoogleGenAI({ apiKey });
+  const response = await ai.models.generateContent({
+    model: 'gemini-2.5-flash-image',
+    contents: { parts: source ? [{ inlineData: source }, { text: prompt }] : [{ text: prompt }] },
+  });
+
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData?.data) return { data: part.inlineData.data, mimeType: part.inlineData.mimeType || 'image/png' };
+  }
+  return null;
+}
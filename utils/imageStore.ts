@@ -0,0 +1,52 @@
+// IndexedDB persistence for generated images. Transcript items only carry an
+// image id, so sessions stay small and images survive reloads; the gallery
+// lists everything stored here.
+
+import { GeneratedImage, TranscriptItem } from '../types';
+import { STORES, withStore } from './db';
+import { arrayBufferToBase64, base64ToArrayBuffer } from './audio';
+
+export function createImageId(): string {
+  return `image-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export async function saveImage(image: GeneratedImage): Promise<void> {
+  await withStore(STORES.images, 'readwrite', store => store.put(image));
+}
+
+export async function getImage(id: string): Promise<GeneratedImage | undefined> {
+  return withStore<GeneratedImage>(STORES.images, 'readonly', store => store.get(id));
+}
+
+// Newest first
+export async function listImages(): Promise<GeneratedImage[]> {
+  const images = await withStore<GeneratedImage[]>(STORES.images, 'readonly', store => store.getAll());
+  return (images ?? []).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+export async function deleteImage(id: string): Promise<void> {
+  await withStore(STORES.images, 'readwrite', store => store.delete(id));
+}
+
+export function base64ToBlob(base64: string, mimeType: string): Blob {
+  return new Blob([base64ToArrayBuffer(base64)], { type: mimeType });
+}
+
+export async function blobToBase64(blob: Blob): Promise<string> {
+  return arrayBufferToBase64(await blob.arrayBuffer());
+}
+
+// Copies of items with their stored images inlined as data URLs, for exports that must stand alone
+export async function inlineStoredImages(items: TranscriptItem[]): Promise<TranscriptItem[]> {
+  return Promise.all(items.map(async item => {
+    if (!item.imageId || item.image) return item;
+    try {
+      const image = await getImage(item.imageId);
+      if (!image) return item;
+      return { ...item, image: `data:${image.data.type};base64,${await blobToBase64(image.data)}` };
+    } catch (e) {
+      console.warn("Could not load image for export", e);
+      return item;
+    }
+  }));
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createImageTools } from './imageTools';
+import { ReminderTimers, ToolHost } from './builtinTools';
+import { ToolRegistry, ToolTranscriptEntry } from './toolRegistry';
+import { saveImage } from './imageStore';
+
+// Images are stored in IndexedDB, which Node doesn't have
+vi.mock('./imageStore', async importOriginal => ({
+  ...await importOriginal<typeof import('./imageStore')>(),
+  saveImage: vi.fn(async () => {}),
+}));
+
+const IMAGE = { data: 'iVBORw0KGgo=', mimeType: 'image/png' };
+
+// A registry with the image tools and a transcript they can write to
+function setup(generateImage: ToolHost['generateImage']) {
+  const host: ToolHost = { generateImage, onImageSaved: vi.fn(), languages: () => [], setTargetLanguage: vi.fn(), notify: vi.fn(), reminders: new ReminderTimers() };
+  const registry = new ToolRegistry(createImageTools(() => host));
+  const entries = new Map<string, ToolTranscriptEntry>();
+  const context = {
+    sessionId: 'session-1',
+    sessionItems: () => [],
+    appendTranscript: (entry: ToolTranscriptEntry) => {
+      const id = `entry-${entries.size}`;
+      entries.set(id, entry);
+      return id;
+    },
+    updateTranscript: (id: string, patch: Partial<ToolTranscriptEntry>) => entries.set(id, { ...entries.get(id)!, ...patch }),
+  };
+  return { host, registry, entries, context };
+}
+
+const renderCall = { id: 'call-1', name: 'render_image', args: { prompt: 'A red kite' } };
+
+describe('render_image', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.mocked(saveImage).mockClear();
+  });
+
+  it('stores the image and shows it in place of the placeholder', async () => {
+    const { host, registry, entries, context } = setup(async () => IMAGE);
+    const { response } = await registry.invoke(renderCall, context, new AbortController().signal);
+
+    expect(response.output).toMatchObject({ imageId: expect.stringMatching(/^image-/) });
+    expect(saveImage).toHaveBeenCalledOnce();
+    expect(host.onImageSaved).toHaveBeenCalledOnce();
+    expect([...entries.values()]).toEqual([expect.objectContaining({ text: 'A red kite', imageStatus: 'done' })]);
+  });
+
+  it('drops an image that arrives after the call was cancelled', async () => {
+    let deliver: (image: typeof IMAGE) => void = () => {};
+    const { host, registry, entries, context } = setup(() => new Promise(resolve => { deliver = resolve; }));
+    const controller = new AbortController();
+
+    const invocation = registry.invoke(renderCall, context, controller.signal);
+    await Promise.resolve();
+    controller.abort();
+    expect((await invocation).response.error).toMatch(/cancelled/);
+
+    deliver(IMAGE);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(saveImage).not.toHaveBeenCalled();
+    expect(host.onImageSaved).not.toHaveBeenCalled();
+    expect([...entries.values()]).toEqual([expect.objectContaining({ imageStatus: 'failed', imageError: 'Cancelled' })]);
+  });
+
+  it('drops an image that arrives after the call timed out', async () => {
+    vi.useFakeTimers();
+    let deliver: (image: typeof IMAGE) => void = () => {};
+    const { host, registry, entries, context } = setup(() => new Promise(resolve => { deliver = resolve; }));
+
+    const invocation = registry.invoke(renderCall, context, new AbortController().signal);
+    await vi.advanceTimersByTimeAsync(60000);
+    expect((await invocation).response.error).toMatch(/timed out/);
+
+    deliver(IMAGE);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(saveImage).not.toHaveBeenCalled();
+    expect(host.onImageSaved).not.toHaveBeenCalled();
+    expect([...entries.values()]).toEqual([expect.objectContaining({ imageStatus: 'failed' })]);
+  });
+});
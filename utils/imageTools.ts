@@ -0,0 +1,170 @@
+// Image tools: generate, edit ("make it blue") and vary images by voice.
+//
+// Each image gets a transcript placeholder that is updated in place as the job
+// goes from pending to done or failed. Finished images are written to the image
+// store and the transcript only keeps their id. Edits and variations work on an
+// image id the model got back earlier, or on the latest image of the session.
+
+import { Type } from '@google/genai';
+import { GeneratedImage, ImageOrigin } from '../types';
+import { LiveTool, ToolContext } from './toolRegistry';
+import { ToolHost } from './builtinTools';
+import { ImageData } from './imageGeneration';
+import { base64ToBlob, blobToBase64, createImageId, getImage, saveImage } from './imageStore';
+
+const MAX_VARIATIONS = 4;
+const VARIATION_PROMPT = 'Create a variation of this image: keep the subject and style, but change the composition and details.';
+
+interface ImageJob {
+  label: string; // Placeholder text while generating
+  prompt: string; // Sent to the image model
+  caption: string; // Item text once done
+  origin: ImageOrigin;
+  source?: GeneratedImage;
+}
+
+// Generate one image behind a transcript placeholder; resolves to the stored image's id
+async function runImageJob(getHost: () => ToolHost, context: ToolContext, job: ImageJob): Promise<string> {
+  const generateImage = getHost().generateImage;
+  if (!generateImage) throw new Error("Image generation is not available.");
+
+  const entryId = context.appendTranscript({ role: 'model', text: job.label, imageStatus: 'pending' });
+  // Settle the placeholder at once, so a session archived right after a cancel doesn't keep it pending
+  const cancel = () => context.updateTranscript(entryId, { imageStatus: 'failed', imageError: 'Cancelled' });
+  context.signal.addEventListener('abort', cancel, { once: true });
+
+  try {
+    const source: ImageData | undefined = job.source
+      ? { data: await blobToBase64(job.source.data), mimeType: job.source.data.type || 'image/png' }
+      : undefined;
+    const result = await generateImage(job.prompt, source);
+    // Cancelled or timed out meanwhile: the placeholder already says it failed, so drop the late image
+    context.signal.throwIfAborted();
+    if (!result) throw new Error("The image model returned no image.");
+
+    const image: GeneratedImage = {
+      id: createImageId(),
+      prompt: job.caption,
+      origin: job.origin,
+      parentId: job.source?.id,
+      sessionId: context.sessionId || undefined,
+      createdAt: new Date(),
+      data: base64ToBlob(result.data, result.mimeType),
+    };
+    await saveImage(image);
+    getHost().onImageSaved?.(image);
+    if (!context.signal.aborted) {
+      context.updateTranscript(entryId, { text: job.caption, imageId: image.id, imageStatus: 'done' });
+    }
+    return image.id;
+  } catch (e: any) {
+    if (!context.signal.aborted) {
+      context.updateTranscript(entryId, { imageStatus: 'failed', imageError: e?.message || "Image generation failed" });
+    }
+    throw e;
+  } finally {
+    context.signal.removeEventListener('abort', cancel);
+  }
+}
+
+// The image an edit or variation starts from
+async function findSourceImage(context: ToolContext, imageId: unknown): Promise<GeneratedImage> {
+  const id = typeof imageId === 'string' && imageId
+    ? imageId
+    : [...context.sessionItems()].reverse().find(item => item.imageId && item.imageStatus === 'done')?.imageId;
+  if (!id) throw new Error("There is no generated image in this session to work from yet.");
+  const image = await getImage(id);
+  if (!image) throw new Error(`Image ${id} no longer exists.`);
+  return image;
+}
+
+const imageIdParameter = {
+  type: Type.STRING,
+  description: 'Id of the image to start from, as returned by an earlier image tool. Omit to use the latest image.',
+};
+
+export function createImageTools(getHost: () => ToolHost): LiveTool[] {
+  return [
+    {
+      declaration: {
+        name: 'render_image',
+        description: 'Generate an image based on a user request or description.',
+        parameters: {
+          type: Type.OBJECT,
+          properties: {
+            prompt: { type: Type.STRING, description: 'The detailed description of the image to generate.' },
+          },
+          required: ['prompt'],
+        },
+      },
+      timeoutMs: 60000,
+      handler: async (args, context) => {
+        const prompt = String(args.prompt ?? '').trim();
+        if (!prompt) throw new Error("The prompt is empty.");
+        const imageId = await runImageJob(getHost, context, {
+          label: `Generating image: "${prompt}"`,
+          prompt,
+          caption: prompt,
+          origin: 'generate',
+        });
+        return { imageId, message: "Image generated successfully and displayed to the user." };
+      },
+    },
+    {
+      declaration: {
+        name: 'edit_image',
+        description: 'Change an image that was generated earlier, e.g. when the user says "make it blue" or "add a hat".',
+        parameters: {
+          type: Type.OBJECT,
+          properties: {
+            instruction: { type: Type.STRING, description: 'What to change, in English.' },
+            image_id: imageIdParameter,
+          },
+          required: ['instruction'],
+        },
+      },
+      timeoutMs: 60000,
+      handler: async (args, context) => {
+        const instruction = String(args.instruction ?? '').trim();
+        if (!instruction) throw new Error("The edit instruction is empty.");
+        const source = await findSourceImage(context, args.image_id);
+        const imageId = await runImageJob(getHost, context, {
+          label: `Editing image: "${instruction}"`,
+          prompt: instruction,
+          caption: instruction,
+          origin: 'edit',
+          source,
+        });
+        return { imageId, message: "The edited image is displayed to the user." };
+      },
+    },
+    {
+      declaration: {
+        name: 'create_image_variations',
+        description: 'Make alternative versions of an image that was generated earlier.',
+        parameters: {
+          type: Type.OBJECT,
+          properties: {
+            count: { type: Type.NUMBER, description: `How many variations, 1 to ${MAX_VARIATIONS}. Defaults to 2.` },
+            image_id: imageIdParameter,
+          },
+        },
+      },
+      timeoutMs: 90000,
+      handler: async (args, context) => {
+        const count = Math.min(MAX_VARIATIONS, Math.max(1, Math.round(Number(args.count) || 2)));
+        const source = await findSourceImage(context, args.image_id);
+        const results = await Promise.allSettled(Array.from({ length: count }, (_, i) => runImageJob(getHost, context, {
+          label: `Creating variation ${i + 1} of ${count}: "${source.prompt}"`,
+          prompt: VARIATION_PROMPT,
+          caption: `Variation of: ${source.prompt}`,
+          origin: 'variation',
+          source,
+        })));
+        const imageIds = results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+        if (imageIds.length === 0) throw (results[0] as PromiseRejectedResult).reason;
+        return { imageIds, failed: count - imageIds.length };
+      },
+    },
+  ];
+}
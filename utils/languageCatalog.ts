@@ -0,0 +1,68 @@
+// The user's language catalogue: built-in languages plus any they have added,
+// in their chosen order, with per-language visibility, favourites and overrides.
+// Persisted through the settings helpers.
+
+import { LanguageOption } from '../types';
+import { loadSetting, saveSetting } from './settings';
+
+const SETTING_KEY = 'languages';
+
+// Always offered first; not part of the editable catalogue
+export const TRANSCRIBE_LANGUAGE: LanguageOption = { code: 'none', name: 'Transcribe (Original)', flag: '🎙️' };
+
+export const BUILT_IN_LANGUAGES: LanguageOption[] = [
+  { code: 'zh', name: 'Chinese', flag: '🇨🇳' },
+  { code: 'en', name: 'English', flag: '🇺🇸' },
+  { code: 'ja', name: 'Japanese', flag: '🇯🇵' },
+  { code: 'es', name: 'Spanish', flag: '🇪🇸' },
+  { code: 'fr', name: 'French', flag: '🇫🇷' },
+  { code: 'ko', name: 'Korean', flag: '🇰🇷' },
+  { code: 'de', name: 'German', flag: '🇩🇪' },
+  { code: 'pt', name: 'Portuguese', flag: '🇧🇷', locale: 'pt-BR' },
+  { code: 'vi', name: 'Vietnamese', flag: '🇻🇳' },
+  { code: 'th', name: 'Thai', flag: '🇹🇭' },
+  { code: 'ar', name: 'Arabic', flag: '🇸🇦' },
+  { code: 'yue', name: 'Cantonese', flag: '🇭🇰', locale: 'yue-HK' },
+  { code: 'it', name: 'Italian', flag: '🇮🇹' },
+  { code: 'ru', name: 'Russian', flag: '🇷🇺' },
+  { code: 'hi', name: 'Hindi', flag: '🇮🇳' },
+  { code: 'nl', name: 'Dutch', flag: '🇳🇱' },
+];
+
+// Loose BCP-47 shape: a 2-3 letter language with optional script/region/variant subtags
+const LANGUAGE_TAG = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+
+export function isValidLanguageTag(tag: string): boolean {
+  return LANGUAGE_TAG.test(tag);
+}
+
+export function loadLanguageCatalog(): LanguageOption[] {
+  const stored = loadSetting<LanguageOption[] | null>(SETTING_KEY, null);
+  if (!Array.isArray(stored)) return BUILT_IN_LANGUAGES;
+
+  const valid = stored.filter(lang => lang && typeof lang.code === 'string' && lang.code !== TRANSCRIBE_LANGUAGE.code);
+  // Built-ins added in later versions are appended after the user's own ordering
+  const known = new Set(valid.map(lang => lang.code));
+  return [...valid, ...BUILT_IN_LANGUAGES.filter(lang => !known.has(lang.code))];
+}
+
+export function saveLanguageCatalog(languages: LanguageOption[]): void {
+  saveSetting(SETTING_KEY, languages);
+}
+
+// Languages offered in the pickers: visible ones, favourites first, otherwise in catalogue order
+export function visibleLanguages(languages: LanguageOption[]): LanguageOption[] {
+  const visible = languages.filter(lang => !lang.hidden);
+  return [...visible.filter(lang => lang.favourite), ...visible.filter(lang => !lang.favourite)];
+}
+
+// Name as given to the model, qualified by the locale when one is set
+export function describeLanguage(lang: LanguageOption): string {
+  return lang.locale ? `${lang.name} (${lang.locale})` : lang.name;
+}
+
+export function matchesLanguageQuery(lang: LanguageOption, query: string): boolean {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return [lang.name, lang.code, lang.locale ?? ''].some(value => value.toLowerCase().includes(q));
+}
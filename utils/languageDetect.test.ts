@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { detectLanguage, readDirectionTag } from './languageDetect';
+
+describe('detectLanguage', () => {
+  it('tells scripts apart', () => {
+    expect(detectLanguage('今日はいい天気ですね', ['zh', 'ja'])).toBe('ja');
+    expect(detectLanguage('Where is the station?', ['en', 'ko'])).toBe('en');
+  });
+
+  it('leaves short Latin-script turns without function words undecided', () => {
+    expect(detectLanguage('Estoy muy bien, gracias', ['en', 'es'])).toBeNull();
+  });
+});
+
+describe('readDirectionTag', () => {
+  it('strips the tag and reads the target language', () => {
+    expect(readDirectionTag('[to:es] Estoy muy bien, gracias', ['en', 'es'])).toEqual({ text: 'Estoy muy bien, gracias', targetLang: 'es' });
+    expect(readDirectionTag('[TO: pt-BR]Olá', ['en', 'pt-BR'])).toEqual({ text: 'Olá', targetLang: 'pt-BR' });
+  });
+
+  it('hides a tag that is still streaming', () => {
+    expect(readDirectionTag('[to:s', ['sv', 'pl'])).toEqual({ text: '', targetLang: null });
+    expect(readDirectionTag('Dzień dobry. [t', ['sv', 'pl']).text).toBe('Dzień dobry.');
+  });
+
+  it('drops later tags from the text and keeps the first direction', () => {
+    expect(readDirectionTag('[to:tr] Merhaba. [to:tr] Nasılsın?', ['tr', 'id'])).toEqual({ text: 'Merhaba. Nasılsın?', targetLang: 'tr' });
+  });
+
+  it('ignores languages outside the pair', () => {
+    expect(readDirectionTag('[to:fr] Bonjour', ['en', 'es'])).toEqual({ text: 'Bonjour', targetLang: null });
+  });
+
+  it('leaves untagged text alone', () => {
+    expect(readDirectionTag('Hola, ¿cómo estás?', ['en', 'es'])).toEqual({ text: 'Hola, ¿cómo estás?', targetLang: null });
+  });
+});
@@ -0,0 +1,110 @@
+// Lightweight language identification for labelling interpreter turns.
+//
+// We only ever need to choose between the two languages of the active pair, so
+// this scores each candidate by characteristic script characters (CJK, kana,
+// Hangul, ...) or, for Latin-script languages, by common function words. Only
+// the languages listed below can be told apart this way, so it is the fallback
+// for turns without a direction tag from the model (see readDirectionTag).
+
+const SCRIPT_PATTERNS: Record<string, RegExp> = {
+  zh: /[\u4e00-\u9fff]/g,
+  yue: /[\u4e00-\u9fff]/g, // Cantonese is written with the same Han characters
+  ja: /[\u3040-\u30ff]/g, // Kana; kanji alone is ambiguous with Chinese
+  ko: /[\uac00-\ud7af\u1100-\u11ff]/g,
+  ru: /[\u0400-\u04ff]/g,
+  ar: /[\u0600-\u06ff]/g,
+  th: /[\u0e00-\u0e7f]/g,
+  hi: /[\u0900-\u097f]/g,
+  he: /[\u0590-\u05ff]/g,
+  el: /[\u0370-\u03ff]/g,
+};
+
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'you', 'to', 'of', 'it', 'that', 'this', 'what', 'with', 'have', 'for', 'i'],
+  es: ['el', 'la', 'los', 'las', 'de', 'que', 'y', 'es', 'en', 'por', 'para', 'con', 'una', 'un', 'yo'],
+  fr: ['le', 'la', 'les', 'de', 'et', 'est', 'un', 'une', 'je', 'vous', 'pour', 'que', 'dans', 'pas', 'ce'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'ich', 'nicht', 'ein', 'eine', 'zu', 'mit', 'sie', 'wir', 'es', 'auf'],
+  pt: ['o', 'a', 'os', 'as', 'de', 'que', 'e', 'é', 'em', 'um', 'uma', 'para', 'com', 'não', 'eu'],
+  it: ['il', 'la', 'di', 'che', 'e', 'è', 'un', 'una', 'per', 'non', 'sono', 'con', 'io', 'lo', 'gli'],
+  vi: ['và', 'của', 'là', 'có', 'không', 'tôi', 'bạn', 'này', 'được', 'cho', 'một', 'những', 'các', 'với', 'người'],
+  nl: ['de', 'het', 'een', 'en', 'is', 'van', 'ik', 'niet', 'dat', 'je', 'op', 'te', 'met', 'zijn', 'voor'],
+};
+
+// Strip region/script subtags: "zh-Hant" -> "zh", "pt-BR" -> "pt"
+const baseCode = (code: string) => code.toLowerCase().split(/[-_]/)[0];
+
+function scoreCandidate(code: string, text: string, words: string[]): number {
+  const base = baseCode(code);
+
+  const pattern = SCRIPT_PATTERNS[base];
+  if (pattern) {
+    let score = (text.match(pattern) || []).length;
+    // Japanese text usually mixes kanji with kana; count the kanji too once kana is present
+    if (base === 'ja' && score > 0) score += (text.match(SCRIPT_PATTERNS.zh) || []).length;
+    return score;
+  }
+
+  const stopwords = STOPWORDS[base];
+  if (stopwords) {
+    return words.filter(w => stopwords.includes(w)).length;
+  }
+  return 0;
+}
+
+// Pick the candidate language that best matches the text, or null if undecidable
+export function detectLanguage(text: string, candidates: string[]): string | null {
+  if (!text.trim() || candidates.length === 0) return null;
+
+  const words = text.toLowerCase().match(/[\p{L}']+/gu) || [];
+  const scores = candidates.map(code => ({ code, score: scoreCandidate(code, text, words) }));
+
+  // Kana means Japanese even though its kanji would also score for Chinese
+  const ja = scores.find(s => baseCode(s.code) === 'ja');
+  if (ja && ja.score > 0) {
+    scores.forEach(s => {
+      if (baseCode(s.code) === 'zh' || baseCode(s.code) === 'yue') s.score = 0;
+    });
+  }
+
+  scores.sort((a, b) => b.score - a.score);
+  if (scores[0].score > 0 && (scores.length === 1 || scores[0].score > scores[1].score)) {
+    return scores[0].code;
+  }
+
+  // No distinctive evidence: Latin-script text goes to the only candidate without its own script
+  const hasLatin = /[a-z]/i.test(text);
+  const latinCandidates = candidates.filter(code => !SCRIPT_PATTERNS[baseCode(code)]);
+  if (hasLatin && latinCandidates.length === 1) return latinCandidates[0];
+
+  return null;
+}
+
+// The other half of an interpreter pair
+export function otherLanguage(pair: [string, string], code: string): string {
+  return pair[0] === code ? pair[1] : pair[0];
+}
+
+// Replies in interpreter mode open with the language the model translated into,
+// e.g. "[to:es] Hola": in the text itself, or in the output transcription of a spoken
+// reply. Turns where the tag is missing or garbled fall back to detectLanguage.
+const DIRECTION_TAG = /\s*\[to:\s*([a-z]{2,3}(?:[-_][a-z0-9]+)*)\s*\]\s*/gi;
+// A tag cut off mid-stream, hidden until the rest arrives
+const PARTIAL_DIRECTION_TAG = /\s*\[(?:t(?:o(?::[\w-]*)?)?)?$/i;
+
+export function directionTagInstruction(pair: [string, string], spoken = false): string {
+  const tags = `[to:${pair[0]}] or [to:${pair[1]}]`;
+  return spoken
+    ? `\n\nBegin every translation by saying a short tag naming the language you translate into, exactly as written: ${tags}. Say it quickly, then the translation; the tag is removed from the transcript.`
+    : `\n\nStart every translation with a tag naming the language you translated into: ${tags}. The tag is removed before the translation is shown.`;
+}
+
+// Split the model's direction tags off a (possibly partial) text reply; targetLang is
+// the first tag's language, or null if there is none or it is not in the pair
+export function readDirectionTag(output: string, pair: [string, string]): { text: string; targetLang: string | null } {
+  const first = [...output.matchAll(DIRECTION_TAG)][0]?.[1].toLowerCase();
+  const text = output
+    .replace(DIRECTION_TAG, (_tag, _code, offset: number) => (offset === 0 ? '' : ' '))
+    .replace(PARTIAL_DIRECTION_TAG, '');
+  const targetLang = first ? pair.find(code => code.toLowerCase() === first) ?? null : null;
+  return { text, targetLang };
+}
@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ConnectionStatus } from '../types';
+import { LiveSessionClient } from './liveSessionClient';
+import { MockLiveTransport, MockSentEvent } from './mockLiveTransport';
+import { MOCK_SCRIPTS } from './mockLiveScripts';
+import { ToolRegistry } from './toolRegistry';
+import { DEFAULT_VAD_SETTINGS } from './vad';
+import { saveSession } from './sessionStore';
+
+// The session archive lives in IndexedDB, which Node doesn't have
+vi.mock('./sessionStore', async importOriginal => ({
+  ...await importOriginal<typeof import('./sessionStore')>(),
+  saveSession: vi.fn(async () => {}),
+}));
+
+// Just enough of Web Audio for the client to build its capture and playback graphs
+const fakeNode = () => ({ connect: vi.fn(), disconnect: vi.fn() });
+
+class FakeAudioContext {
+  state = 'running';
+  currentTime = 0;
+  destination = fakeNode();
+  audioWorklet = { addModule: vi.fn(async () => {}) };
+  resume = vi.fn(async () => { this.state = 'running'; });
+  suspend = vi.fn(async () => { this.state = 'suspended'; });
+  close = vi.fn(async () => { this.state = 'closed'; });
+  createAnalyser = () => ({ ...fakeNode(), fftSize: 0, smoothingTimeConstant: 0, getFloatTimeDomainData: vi.fn() });
+  createGain = () => ({ ...fakeNode(), gain: { value: 1, setTargetAtTime: vi.fn() } });
+  createMediaStreamSource = () => fakeNode();
+  createBufferSource = () => ({ ...fakeNode(), buffer: null, playbackRate: { value: 1 }, start: vi.fn(), stop: vi.fn(), onended: null });
+  createBuffer = (channels: number, length: number, sampleRate: number) => {
+    const data = new Float32Array(length);
+    return { numberOfChannels: channels, length, sampleRate, duration: length / sampleRate, getChannelData: () => data };
+  };
+}
+
+// Keeps the worklet so tests can post mic chunks as it would
+let worklet: { port: { onmessage: ((event: { data: unknown }) => void) | null; postMessage: () => void } } | null = null;
+
+class FakeAudioWorkletNode {
+  port = { onmessage: null, postMessage: vi.fn() };
+  connect = vi.fn();
+  disconnect = vi.fn();
+  constructor() {
+    worklet = this;
+  }
+}
+
+const fakeMicStream = () => {
+  const track = { label: 'Test mic', stop: vi.fn(), onended: null };
+  return { getAudioTracks: () => [track], getTracks: () => [track] } as unknown as MediaStream;
+};
+
+// One 128-sample render quantum of "speech" from the worklet
+const sendMicChunk = () => worklet?.port.onmessage?.({ data: { type: 'audio', samples: new Float32Array(128).fill(0.1), speech: true } });
+
+const toolResponses = (sent: MockSentEvent[]) =>
+  sent.flatMap(event => event.kind === 'toolResponse' ? event.params.functionResponses ?? [] : []);
+
+const audioChunksSent = (sent: MockSentEvent[]) =>
+  sent.filter(event => event.kind === 'realtimeInput' && event.params.media).length;
+
+function startClient(scriptName: string, tools?: ToolRegistry) {
+  const transport = new MockLiveTransport(MOCK_SCRIPTS[scriptName], { openDelayMs: 10 });
+  const client = new LiveSessionClient({
+    transport,
+    buildSystemInstruction: langCode => `Translate into ${langCode}.`,
+    tools,
+    getMicStream: async () => fakeMicStream(),
+  });
+  // Ungated uplink: every chunk is sent as it arrives
+  client.setVadSettings({ ...DEFAULT_VAD_SETTINGS, enabled: false });
+  client.setRecordingEnabled(false);
+  return { transport, client };
+}
+
+const texts = (client: LiveSessionClient) => client.getState().transcripts.map(item => `${item.role}: ${item.text}`);
+
+describe('LiveSessionClient with the mock transport', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('window', { AudioContext: FakeAudioContext, addEventListener: vi.fn(), removeEventListener: vi.fn() });
+    vi.stubGlobal('navigator', { onLine: true });
+    vi.stubGlobal('AudioWorkletNode', FakeAudioWorkletNode);
+    worklet = null;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.mocked(saveSession).mockClear();
+  });
+
+  it('reconnects after a drop and sends the audio captured during the gap', async () => {
+    const { transport, client } = startClient('drop');
+    await client.start();
+    await vi.advanceTimersByTimeAsync(50);
+    expect(client.getState().status).toBe(ConnectionStatus.CONNECTED);
+
+    sendMicChunk();
+    await vi.advanceTimersByTimeAsync(500);
+    expect(texts(client)).toEqual(['user: Testing the connection.', 'model: 正在测试连接。']);
+
+    // The scripted network failure arrives a second after the turn
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(client.getState().status).toBe(ConnectionStatus.CONNECTING);
+    expect(client.getState().reconnect?.attempt).toBe(1);
+
+    const sentBeforeGap = audioChunksSent(transport.sent);
+    sendMicChunk();
+    sendMicChunk();
+    expect(client.getState().reconnect?.bufferedMs).toBe(16);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(transport.connections).toHaveLength(2);
+    expect(client.getState().status).toBe(ConnectionStatus.CONNECTED);
+    expect(client.getState().reconnect).toBeNull();
+    expect(audioChunksSent(transport.sent)).toBe(sentBeforeGap + 2);
+
+    await client.stop();
+    expect(saveSession).toHaveBeenCalledOnce();
+  });
+
+  it('keeps the interrupted part of an answer with how much audio arrived', async () => {
+    const { client } = startClient('interruption');
+    await client.start();
+    await vi.advanceTimersByTimeAsync(50);
+    sendMicChunk();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    const [interrupted, user] = client.getState().transcripts;
+    expect(interrupted).toMatchObject({ role: 'model', text: '路线图包括三个阶段，第一阶段' });
+    // Three 400 ms chunks with the translation, then 1.5 s more
+    expect(interrupted.interruption?.receivedMs).toBe(2700);
+    expect(user).toMatchObject({ role: 'user', text: 'Tell me about the roadmap.Wait, stop.' });
+    expect(client.getState().currentOutput).toBe('');
+
+    // The next turn goes through normally
+    sendMicChunk();
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(texts(client).slice(2)).toEqual(['user: Just the first phase, please.', 'model: 请只说第一阶段。']);
+    await client.stop();
+  });
+
+  it('runs a registered tool and answers the call before the model continues', async () => {
+    const handler = vi.fn(async () => ({ imageId: 'image-1' }));
+    const tools = new ToolRegistry([{
+      declaration: { name: 'render_image', description: 'Draws an image' },
+      handler,
+      render: () => ({ text: 'Rendered an image' }),
+    }]);
+    const { transport, client } = startClient('tool-call', tools);
+    await client.start();
+    await vi.advanceTimersByTimeAsync(50);
+    expect(transport.connections[0].config?.tools).toEqual([{ functionDeclarations: tools.declarations() }]);
+
+    sendMicChunk();
+    await vi.advanceTimersByTimeAsync(3000);
+
+    expect(handler).toHaveBeenCalledWith({ prompt: 'A cat wearing a hat' }, expect.anything());
+    expect(toolResponses(transport.sent)).toEqual([
+      { id: 'mock-call-1', name: 'render_image', response: { output: { imageId: 'image-1' } } },
+    ]);
+    expect(texts(client)).toEqual([
+      'system: Rendered an image',
+      'user: Draw a cat wearing a hat.',
+      'model: Here is your cat.',
+    ]);
+    await client.stop();
+  });
+
+  it('answers a call to an unknown tool with an error', async () => {
+    const { transport, client } = startClient('unknown-tool', new ToolRegistry());
+    await client.start();
+    await vi.advanceTimersByTimeAsync(50);
+    sendMicChunk();
+    await vi.advanceTimersByTimeAsync(3000);
+
+    const [reply] = toolResponses(transport.sent);
+    expect(reply).toMatchObject({ id: 'mock-call-2', name: 'get_weather' });
+    expect(reply.response?.error).toMatch(/Unknown tool "get_weather"/);
+    expect(texts(client)).toEqual(['user: What is the weather in Paris?', 'model: Sorry, I cannot look up the weather.']);
+    await client.stop();
+  });
+});
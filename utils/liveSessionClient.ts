@@ -0,0 +1,1861 @@
+// Headless Live session client.
+//
+// Owns everything between the inputs and the transcript: the capture graph
+// (microphone with device selection and hot-plug fallback, shared tab/system
+// audio, media files, AudioWorklet, VAD uplink gate, push-to-talk), camera and
+// screen frames sent alongside the audio, the Live connection with
+// backoff reconnects, session resumption, rotation ahead of server limits and
+// in-place language switches, model audio playback (volume, speed, text-only,
+// per-turn replay, ducking and barge-in), typed turns (one-off replies while
+// disconnected), tool calls,
+// transcript accumulation, session recording and archiving to history.
+// Framework-agnostic: UI code reads getState() and subscribes to events (see
+// ../hooks/useLiveSession.ts for the React binding).
+
+import { LiveServerMessage, LiveSendRealtimeInputParameters, Modality, ActivityHandling, FunctionCall } from '@google/genai';
+import { ConnectionStatus, TranscriptItem, LanguagePair, SessionRecord, VadSettings, InputMode, ReconnectState, AudioDeviceSettings, InputSource, AudioSourceKind, FileProgress, PlaybackSettings, VoiceSettings, BargeInSettings, VisualSource, VisualCaptureSettings } from '../types';
+import { createPcmBlob, decodeAudioData, RECORDER_WORKLET_URL, WorkletMessage } from './audio';
+import { createSessionId, defaultSessionTitle, saveSession } from './sessionStore';
+import { SessionRecorder, deleteRecording, MIC_SAMPLE_RATE, MODEL_SAMPLE_RATE } from './sessionRecorder';
+import { DEFAULT_VAD_SETTINGS, UplinkGate } from './vad';
+import { detectLanguage, directionTagInstruction, otherLanguage, readDirectionTag } from './languageDetect';
+import { LiveTransport, LiveTransportSession } from './liveTransport';
+import { backoffDelay } from './backoff';
+import { buildContextCarryover } from './transcriptDigest';
+import { DEFAULT_AUDIO_DEVICE_SETTINGS, DEFAULT_PLAYBACK_SETTINGS, DEFAULT_BARGE_IN_SETTINGS, buildMicConstraints, listAudioDevices, setContextSink, AudioDeviceLists } from './audioDevices';
+import { captureSystemAudio, decodeMediaFile, stopStream, analyserPower } from './audioSources';
+import { DEFAULT_VOICE_SETTINGS } from './voiceSettings';
+import { ToolRegistry, ToolTranscriptEntry } from './toolRegistry';
+import { DEFAULT_VISUAL_SETTINGS, FrameGrabber, VISUAL_SOURCE_LABELS, openVisualStream } from './visualCapture';
+import { blobToBase64, createImageId, saveImage } from './imageStore';
+
+const MAX_RECONNECT_ATTEMPTS = 8;
+const MAX_GAP_BUFFER_MS = 15000; // Mic audio kept while reconnecting; older audio is dropped
+// Close codes that a reconnect cannot fix (bad request, policy violation such as an invalid key)
+const FATAL_CLOSE_CODES = new Set([1007, 1008]);
+// Audio sessions are capped at 15 minutes and resuming does not reset the clock,
+// so a fresh session is rotated in a little before that
+const ROTATE_AFTER_MS = 13 * 60 * 1000;
+const ROTATION_RETRY_MS = 20000;
+const HANDOVER_TIMEOUT_MS = 20000; // Longest wait for a turn boundary before forcing the handover
+const HANDOVER_POLL_MS = 250;
+const NO_TRANSPORT_ERROR = "No Live connection is configured; set an API key.";
+const MAX_REPLAY_TURNS = 50; // Model turns whose audio is kept in memory for replay
+const SNAPSHOT_QUALITY = 0.9; // Snapped frames are kept, so they are sent (and stored) sharper than the stream
+
+// Start/end of a partial turn, in ms since session start
+interface TurnSpan {
+  startMs: number;
+  endMs: number;
+}
+
+// Uplink behaviour fixed when a connection is opened
+interface ConnectionProfile {
+  pair: LanguagePair | null;
+  activitySignals: boolean;
+  inputMode: InputMode;
+  textResponses: boolean; // The model answers in text parts instead of audio
+}
+
+// Replacement connection opened by a rotation, waiting to take over
+interface Standby {
+  id: number;
+  session: LiveTransportSession | null;
+  profile: ConnectionProfile;
+  resumed: boolean; // Continues the same server session via a resumption handle
+  resumptionHandle: string | null; // Handles it has issued before the handover
+}
+
+// A model audio chunk scheduled for playback, in output context time
+interface ScheduledChunk {
+  startTime: number;
+  duration: number; // Seconds of audio
+  rate: number;
+}
+
+// Length of base64-encoded 16-bit model PCM, without decoding it
+const pcmDurationMs = (base64Audio: string) => base64Audio.length * 3 / 4 / 2 / MODEL_SAMPLE_RATE * 1000;
+
+// A mic chunk captured while the connection was down
+interface GapChunk {
+  samples: Float32Array;
+  speech: boolean;
+}
+
+export interface LiveSessionState {
+  status: ConnectionStatus;
+  transcripts: TranscriptItem[];
+  currentInput: string; // Partial transcription of the user's turn
+  currentOutput: string; // Partial transcription of the model's turn
+  error: string | null;
+  isSpeaking: boolean; // VAD verdict for the mic
+  isTalkHeld: boolean; // Push-to-talk is held
+  analyser: AnalyserNode | null; // Mic analyser for visualisation, created on first start
+  reconnect: ReconnectState | null; // Set while the connection is being re-established
+  micLabel: string | null; // Device label of the microphone being captured
+  fileProgress: FileProgress | null; // Set while a media file is being streamed
+  replayableIds: string[]; // Model items whose audio can be replayed, oldest first
+  replayingId: string | null; // Item being replayed
+  visualSource: VisualSource | null; // Camera or screen being shown to the model
+  visualStream: MediaStream | null; // Its video, for a local preview
+}
+
+export interface LiveSessionEvents {
+  state: LiveSessionState;
+  sessionSaved: SessionRecord; // A finished session was archived to history
+  notice: string; // Something the user should know about, e.g. a device fallback
+}
+
+type Listener<T> = (payload: T) => void;
+
+export interface LiveSessionClientOptions {
+  transport: LiveTransport | null; // Null without an API key; start() then reports an error
+  // Called on every (re)connect, so catalogue and glossary edits apply to the next connection
+  buildSystemInstruction: (langCode: string, pair: LanguagePair | null) => string;
+  // Model, voice and transcription options, also looked up on every (re)connect
+  getVoiceSettings?: (langCode: string, pair: LanguagePair | null) => VoiceSettings;
+  // Function-calling tools offered to the model; declarations are read on every (re)connect
+  tools?: ToolRegistry;
+  // Streams a one-off reply to a message typed while no session is connected
+  generateText?: (text: string, systemInstruction: string) => AsyncIterable<string>;
+  getMicStream?: (constraints: MediaTrackConstraints) => Promise<MediaStream>;
+}
+
+const defaultMicStream = (constraints: MediaTrackConstraints) =>
+  navigator.mediaDevices.getUserMedia({ audio: constraints });
+
+// getUserMedia errors meaning the requested device is gone
+const isMissingDeviceError = (e: any) => e?.name === 'OverconstrainedError' || e?.name === 'NotFoundError';
+
+export class LiveSessionClient {
+  private state: LiveSessionState = {
+    status: ConnectionStatus.DISCONNECTED,
+    transcripts: [],
+    currentInput: '',
+    currentOutput: '',
+    error: null,
+    isSpeaking: false,
+    isTalkHeld: false,
+    analyser: null,
+    reconnect: null,
+    micLabel: null,
+    fileProgress: null,
+    replayableIds: [],
+    replayingId: null,
+    visualSource: null,
+    visualStream: null,
+  };
+  private listeners: { [K in keyof LiveSessionEvents]: Set<Listener<LiveSessionEvents[K]>> } = {
+    state: new Set(),
+    sessionSaved: new Set(),
+    notice: new Set(),
+  };
+
+  // Settings (applied on the next connect unless noted)
+  private langCode = 'none';
+  private pair: LanguagePair | null = null;
+  private vadSettings: VadSettings = DEFAULT_VAD_SETTINGS; // Gate settings apply immediately
+  private inputMode: InputMode = 'continuous';
+  private recordingEnabled = true;
+  private carryContext = true; // Seed fresh Live sessions with recent transcript
+  private audioDevices: AudioDeviceSettings = DEFAULT_AUDIO_DEVICE_SETTINGS; // Applied immediately
+  private inputSource: InputSource = 'mic';
+  private inputFile: File | null = null;
+  private filePlaybackRate = 1;
+  private playback: PlaybackSettings = DEFAULT_PLAYBACK_SETTINGS; // Applied immediately
+  private bargeIn: BargeInSettings = DEFAULT_BARGE_IN_SETTINGS; // Ducking applies immediately
+  private visualSettings: VisualCaptureSettings = DEFAULT_VISUAL_SETTINGS; // Applied immediately
+
+  // Audio context and worklet (persistent across sessions)
+  private inputContext: AudioContext | null = null;
+  private isWorkletLoaded = false;
+  private outputContext: AudioContext | null = null;
+  private outputGain: GainNode | null = null; // Volume for live and replayed model speech
+  private nextStartTime = 0;
+  private audioSources = new Set<AudioBufferSourceNode>();
+
+  // Model turn in progress: encoded audio (kept for replay) and what was scheduled from it
+  private turnAudio: string[] = [];
+  private turnPlayback: ScheduledChunk[] = [];
+
+  // Replay: encoded audio of finished turns by item id
+  private replayAudio = new Map<string, string[]>();
+  private replaySources = new Set<AudioBufferSourceNode>();
+  private replaySeq = 0;
+
+  // Per-session capture graph
+  private mediaStream: MediaStream | null = null;
+  private workletNode: AudioWorkletNode | null = null;
+  private sourceNode: MediaStreamAudioSourceNode | null = null;
+  private usingFallbackMic = false; // The chosen mic is missing; capturing the default one
+  private usingFallbackOutput = false; // The chosen speaker is missing; playing on the default one
+  private deviceListening = false;
+  private sessionSource: InputSource = 'mic'; // Fixed per session
+  private systemStream: MediaStream | null = null;
+  private systemSourceNode: MediaStreamAudioSourceNode | null = null;
+  private fileSourceNode: AudioBufferSourceNode | null = null;
+  private fileProgressTimer: ReturnType<typeof setInterval> | null = null;
+  // Mixed input only: per-source analysers, and each source's share of the current user turn
+  private sourceMeters = new Map<AudioSourceKind, AnalyserNode>();
+  private meterScratch = new Float32Array(512);
+  private turnSourcePower: Partial<Record<AudioSourceKind, number>> = {};
+
+  // Visual input
+  private frameGrabber: FrameGrabber | null = null;
+  private frameTimer: ReturnType<typeof setInterval> | null = null;
+  private frameInFlight = false;
+
+  // Typed input
+  private textReplySeq = 0; // Bumped to abandon a one-off reply still streaming
+
+  // Live connection
+  private session: LiveTransportSession | null = null;
+  private connectionSeq = 0;
+  private connectionId = 0; // The active connection; changes whenever it is replaced or closed
+  private retryCount = 0;
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  private resumptionHandle: string | null = null; // Latest resumable handle from the server
+  private isOffline = typeof navigator !== 'undefined' && navigator.onLine === false;
+  private networkListening = false;
+  private gapBuffer: GapChunk[] = [];
+  private gapBufferSamples = 0;
+
+  // Rotation
+  private liveSessionStartedAt = 0; // When the server-side session began (resumed connections continue it)
+  private rotationTimer: ReturnType<typeof setTimeout> | null = null;
+  private standby: Standby | null = null;
+  private handoverTimer: ReturnType<typeof setInterval> | null = null;
+  private handoverDeadline = 0;
+
+  // Tool calls in flight, by call id
+  private toolCalls = new Map<string, AbortController>();
+
+  // Uplink gating (fixed per connection where noted)
+  private uplinkGate = new UplinkGate(0);
+  private sessionActivitySignals = false; // Fixed per connection
+  private sessionInputMode: InputMode = 'continuous'; // Fixed per connection
+  private sessionTextResponses = false; // Fixed per connection
+  private talkHeld = false;
+  private talkReleasePending = false; // Waiting for the worklet flush before ending the turn
+
+  // Transcript accumulation
+  private currentTurnInput = '';
+  private currentTurnOutput = '';
+  private inputSpan: TurnSpan | null = null;
+  private outputSpan: TurnSpan | null = null;
+
+  // Session archiving
+  private sessionStart: Date | null = null;
+  private sessionId = '';
+  private sessionLang = 'none';
+  private sessionPair: LanguagePair | null = null; // Fixed per connection
+  private recorder: SessionRecorder | null = null;
+
+  constructor(private options: LiveSessionClientOptions) {
+    this.setVadSettings(DEFAULT_VAD_SETTINGS);
+  }
+
+  // --- Events ---
+
+  getState(): LiveSessionState {
+    return this.state;
+  }
+
+  on<K extends keyof LiveSessionEvents>(event: K, listener: Listener<LiveSessionEvents[K]>): () => void {
+    this.listeners[event].add(listener);
+    return () => {
+      this.listeners[event].delete(listener);
+    };
+  }
+
+  private emit<K extends keyof LiveSessionEvents>(event: K, payload: LiveSessionEvents[K]) {
+    this.listeners[event].forEach(listener => listener(payload));
+  }
+
+  private setState(patch: Partial<LiveSessionState>) {
+    this.state = { ...this.state, ...patch };
+    this.emit('state', this.state);
+  }
+
+  private appendTranscripts(items: TranscriptItem[]) {
+    if (items.length > 0) this.setState({ transcripts: [...this.state.transcripts, ...items] });
+  }
+
+  // --- Settings ---
+
+  get isConnected() {
+    return this.state.status === ConnectionStatus.CONNECTED;
+  }
+
+  // Change the target language or interpreter pair. While connected the Live
+  // connection is swapped in place and switchLabel marks the switch in the transcript.
+  setLanguage(langCode: string, pair: LanguagePair | null, switchLabel?: string) {
+    this.langCode = langCode;
+    this.pair = pair;
+    if (this.isConnected) this.switchLanguageLive(switchLabel ?? (pair ? pair.join(' ⇄ ') : langCode));
+    else this.resumptionHandle = null; // A pending reconnect must not resume the old instruction
+  }
+
+  setVadSettings(settings: VadSettings) {
+    this.vadSettings = settings;
+    this.uplinkGate.configure(Math.round(settings.preRollMs / 1000 * MIC_SAMPLE_RATE));
+    this.workletNode?.port.postMessage({
+      type: 'vad-config',
+      thresholdDb: settings.thresholdDb,
+      hangoverMs: settings.hangoverMs,
+    });
+  }
+
+  setInputMode(mode: InputMode) {
+    this.inputMode = mode;
+  }
+
+  setRecordingEnabled(enabled: boolean) {
+    this.recordingEnabled = enabled;
+  }
+
+  // Switch mic, speaker or mic processing; a running session swaps devices in place
+  setAudioDevices(settings: AudioDeviceSettings) {
+    const previous = this.audioDevices;
+    this.audioDevices = settings;
+    if (settings.outputDeviceId !== previous.outputDeviceId) this.applyOutputDevice();
+
+    const inputChanged = settings.inputDeviceId !== previous.inputDeviceId
+      || settings.echoCancellation !== previous.echoCancellation
+      || settings.noiseSuppression !== previous.noiseSuppression
+      || settings.autoGainControl !== previous.autoGainControl;
+    if (inputChanged && this.mediaStream) {
+      this.replaceMicStream().catch(e => {
+        console.error("Failed to switch microphone", e);
+        this.emit('notice', "Could not switch to the selected microphone.");
+      });
+    }
+  }
+
+  // Where the next session's audio comes from
+  setInputSource(source: InputSource) {
+    this.inputSource = source;
+  }
+
+  // Media file for the 'file' input; playbackRate above 1 streams it faster than real time
+  setInputFile(file: File | null, playbackRate = 1) {
+    this.inputFile = file;
+    this.filePlaybackRate = playbackRate;
+  }
+
+  // Whether fresh Live sessions opened mid-conversation (rotation, language switch,
+  // reconnect without a handle) are seeded with the recent transcript
+  setContextCarryover(enabled: boolean) {
+    this.carryContext = enabled;
+  }
+
+  // Volume applies at once; speed applies from the next audio chunk; text-only
+  // silences anything already queued
+  setPlaybackSettings(settings: PlaybackSettings) {
+    const previous = this.playback;
+    this.playback = settings;
+    this.updateOutputVolume();
+    if (settings.textOnly && !previous.textOnly) this.stopPlayback();
+  }
+
+  // Ducking applies at once; whether speech interrupts the model applies on the next connect
+  setBargeInSettings(settings: BargeInSettings) {
+    this.bargeIn = settings;
+    this.updateOutputVolume();
+  }
+
+  // Frame rate and quality of the camera or screen stream; applies from the next frame
+  setVisualSettings(settings: VisualCaptureSettings) {
+    const rateChanged = settings.frameRate !== this.visualSettings.frameRate;
+    this.visualSettings = settings;
+    if (rateChanged && this.frameGrabber) this.startFrameTimer();
+  }
+
+  clearTranscripts() {
+    this.currentTurnInput = '';
+    this.currentTurnOutput = '';
+    this.stopReplay();
+    this.replayAudio.clear();
+    this.setState({ transcripts: [], currentInput: '', currentOutput: '', replayableIds: [] });
+  }
+
+  // --- Replay ---
+
+  // Play a finished model turn again, replacing any replay in progress
+  async replay(itemId: string) {
+    const chunks = this.replayAudio.get(itemId);
+    if (!chunks) return;
+    this.stopReplay();
+    const token = this.replaySeq;
+    this.setState({ replayingId: itemId });
+
+    try {
+      const ctx = await this.ensureOutputContext();
+      const buffers = await Promise.all(chunks.map(chunk => decodeAudioData(chunk, ctx, MODEL_SAMPLE_RATE)));
+      if (token !== this.replaySeq) return;
+
+      const rate = this.playback.rate;
+      let startTime = ctx.currentTime + 0.05;
+      for (const buffer of buffers) {
+        const source = ctx.createBufferSource();
+        source.buffer = buffer;
+        source.playbackRate.value = rate;
+        source.connect(this.outputGain ?? ctx.destination);
+        source.start(startTime);
+        startTime += buffer.duration / rate;
+        this.replaySources.add(source);
+        source.onended = () => {
+          this.replaySources.delete(source);
+          if (token === this.replaySeq && this.replaySources.size === 0) this.setState({ replayingId: null });
+        };
+      }
+    } catch (e) {
+      console.error("Replay failed", e);
+      if (token === this.replaySeq) this.setState({ replayingId: null });
+    }
+  }
+
+  stopReplay() {
+    this.replaySeq++;
+    this.replaySources.forEach(source => {
+      try { source.stop(); } catch (e) {}
+    });
+    this.replaySources.clear();
+    if (this.state.replayingId) this.setState({ replayingId: null });
+  }
+
+  // End the model turn's audio, keeping it for replay as itemId (the oldest beyond the limit is dropped)
+  private finishTurnAudio(itemId: string | null) {
+    const chunks = this.turnAudio;
+    this.turnAudio = [];
+    this.turnPlayback = [];
+    if (!itemId || chunks.length === 0) return;
+
+    this.replayAudio.set(itemId, chunks);
+    while (this.replayAudio.size > MAX_REPLAY_TURNS) {
+      this.replayAudio.delete(this.replayAudio.keys().next().value!);
+    }
+    this.setState({ replayableIds: [...this.replayAudio.keys()] });
+  }
+
+  // --- Visual input ---
+
+  // Show the camera or a shared screen to the model, replacing any visual input already on.
+  // Screen sharing needs the click's user activation, so call this straight from the handler.
+  async startVisual(source: VisualSource) {
+    const stream = await openVisualStream(source);
+    this.stopVisual();
+    this.frameGrabber = new FrameGrabber(stream);
+    const track = stream.getVideoTracks()[0];
+    // Fires when the camera is unplugged or the user clicks the browser's "Stop sharing"
+    if (track) track.onended = () => {
+      if (this.frameGrabber?.stream !== stream) return;
+      this.stopVisual();
+      this.emit('notice', `${VISUAL_SOURCE_LABELS[source]} sharing stopped.`);
+    };
+    this.setState({ visualSource: source, visualStream: stream });
+    this.startFrameTimer();
+  }
+
+  stopVisual() {
+    if (this.frameTimer) clearInterval(this.frameTimer);
+    this.frameTimer = null;
+    const grabber = this.frameGrabber;
+    this.frameGrabber = null;
+    if (!grabber) return;
+    grabber.dispose();
+    stopStream(grabber.stream);
+    this.setState({ visualSource: null, visualStream: null });
+  }
+
+  // Keep the current frame: it is stored, added to the transcript as a user item and sent right away
+  async snapFrame() {
+    const grabber = this.frameGrabber;
+    const source = this.state.visualSource;
+    if (!grabber || !source) return;
+    const frame = await grabber.grab({ ...this.visualSettings, quality: Math.max(this.visualSettings.quality, SNAPSHOT_QUALITY) });
+    if (!frame) throw new Error("No frame has been captured yet.");
+
+    const label = `${VISUAL_SOURCE_LABELS[source]} snapshot`;
+    const imageId = createImageId();
+    await saveImage({
+      id: imageId,
+      prompt: label,
+      origin: 'snapshot',
+      sessionId: this.sessionId || undefined,
+      createdAt: new Date(),
+      data: frame,
+    });
+    const offsetMs = this.getSessionOffsetMs();
+    this.appendTranscripts([{
+      id: `${Date.now()}-snapshot`,
+      role: 'user',
+      text: label,
+      imageId,
+      imageStatus: 'done',
+      isFinal: true,
+      timestamp: new Date(),
+      startOffsetMs: offsetMs,
+      endOffsetMs: offsetMs,
+    }]);
+    this.sendRealtimeInput({ video: { data: await blobToBase64(frame), mimeType: frame.type } });
+  }
+
+  private startFrameTimer() {
+    if (this.frameTimer) clearInterval(this.frameTimer);
+    this.frameTimer = setInterval(() => this.sendFrame(), 1000 / this.visualSettings.frameRate);
+  }
+
+  // Stream the current frame; skipped while disconnected or if the previous frame is still encoding
+  private async sendFrame() {
+    const grabber = this.frameGrabber;
+    if (!grabber || !this.session || this.frameInFlight) return;
+    this.frameInFlight = true;
+    try {
+      const frame = await grabber.grab(this.visualSettings);
+      if (frame && grabber === this.frameGrabber) {
+        this.sendRealtimeInput({ video: { data: await blobToBase64(frame), mimeType: frame.type } });
+      }
+    } catch (e) {
+      console.warn("Failed to capture a frame", e);
+    } finally {
+      this.frameInFlight = false;
+    }
+  }
+
+  // --- Typed input ---
+
+  // Send a typed user turn into the live session; while disconnected the reply
+  // comes from a one-off request instead. Either way it streams through currentOutput.
+  async sendText(text: string) {
+    const message = text.trim();
+    if (!message) return;
+
+    if (this.session && this.isConnected) {
+      this.session.sendClientContent({ turns: [{ role: 'user', parts: [{ text: message }] }], turnComplete: true });
+      this.appendTypedItem(message, this.sessionPair);
+      return;
+    }
+    if (this.state.status === ConnectionStatus.CONNECTING || this.state.reconnect) {
+      throw new Error("Wait for the session to connect before sending text.");
+    }
+    if (!this.options.generateText) throw new Error("Text replies need a live session.");
+
+    const pair = this.pair;
+    let instruction = this.options.buildSystemInstruction(this.langCode, pair);
+    if (pair) instruction += directionTagInstruction(pair);
+    if (this.carryContext) instruction += buildContextCarryover(this.state.transcripts);
+    const seq = ++this.textReplySeq;
+    this.appendTypedItem(message, pair);
+
+    // Placed on the session timeline like the typed message, spanning the streamed reply
+    const startOffsetMs = this.getSessionOffsetMs();
+    let reply = '';
+    try {
+      for await (const chunk of this.options.generateText(message, instruction)) {
+        if (seq !== this.textReplySeq) return;
+        reply += chunk;
+        this.setState({ currentOutput: this.splitDirectionTag(reply, pair).text });
+      }
+    } finally {
+      if (seq === this.textReplySeq) this.setState({ currentOutput: '' });
+    }
+
+    const { text: replyText, targetLang } = this.splitDirectionTag(reply, pair);
+    const finalReply = replyText.trim();
+    if (!finalReply) throw new Error("The model returned no reply.");
+    this.appendTranscripts([{
+      id: `${Date.now()}-text-reply`,
+      role: 'model',
+      text: finalReply,
+      isFinal: true,
+      timestamp: new Date(),
+      startOffsetMs,
+      endOffsetMs: this.getSessionOffsetMs(),
+      ...this.labelTurnLanguages('', finalReply, pair, targetLang).model
+    }]);
+  }
+
+  private appendTypedItem(text: string, pair: LanguagePair | null) {
+    const offsetMs = this.getSessionOffsetMs();
+    this.appendTranscripts([{
+      id: `${Date.now()}-typed`,
+      role: 'user',
+      text,
+      typed: true,
+      isFinal: true,
+      timestamp: new Date(),
+      startOffsetMs: offsetMs,
+      endOffsetMs: offsetMs,
+      ...this.labelTurnLanguages(text, '', pair).user
+    }]);
+  }
+
+  // --- Session timing ---
+
+  private getSessionOffsetMs() {
+    return this.sessionStart ? Date.now() - this.sessionStart.getTime() : 0;
+  }
+
+  // Extend (or open) the span of the partial turn that just received text
+  private touchSpan(span: TurnSpan | null): TurnSpan {
+    const nowMs = this.getSessionOffsetMs();
+    if (span) {
+      span.endMs = nowMs;
+      return span;
+    }
+    return { startMs: nowMs, endMs: nowMs };
+  }
+
+  // A partial turn's span, falling back to an instant at "now" if it never opened
+  private spanOrNow(span: TurnSpan | null): TurnSpan {
+    const nowMs = this.getSessionOffsetMs();
+    return span ?? { startMs: nowMs, endMs: nowMs };
+  }
+
+  // Interpreter mode: label a finished turn with its source and target languages, taken from
+  // the model's direction tag when it gave one and detected otherwise. Each side implies the
+  // other, so one confident answer labels both turns; undecided turns just keep the pair.
+  private labelTurnLanguages(input: string, output: string, pair = this.sessionPair, taggedTarget: string | null = null) {
+    if (!pair) return { user: {}, model: {} };
+
+    const outputLang = taggedTarget ?? detectLanguage(output, pair);
+    const inputLang = taggedTarget ? null : detectLanguage(input, pair);
+    const source = inputLang ?? (outputLang ? otherLanguage(pair, outputLang) : null);
+    const target = outputLang ?? (source ? otherLanguage(pair, source) : null);
+    return {
+      user: { interpreterPair: pair, ...(source ? { sourceLang: source, targetLang: otherLanguage(pair, source) } : {}) },
+      model: { interpreterPair: pair, ...(target ? { sourceLang: otherLanguage(pair, target), targetLang: target } : {}) },
+    };
+  }
+
+  // A reply without its direction tags, and the language they name (interpreter text replies only)
+  private splitDirectionTag(output: string, pair = this.sessionPair): { text: string; targetLang: string | null } {
+    return pair ? readDirectionTag(output, pair) : { text: output, targetLang: null };
+  }
+
+  // --- Lifecycle ---
+
+  async start() {
+    if (!this.options.transport) {
+      this.setState({ error: NO_TRANSPORT_ERROR, status: ConnectionStatus.ERROR });
+      return;
+    }
+    this.setState({ error: null, status: ConnectionStatus.CONNECTING });
+
+    // Start a fresh record (reconnects keep the current one)
+    if (!this.sessionStart) {
+      this.sessionStart = new Date();
+      this.sessionId = createSessionId();
+      this.sessionLang = this.pair ? this.pair[1] : this.langCode;
+      this.recorder = this.recordingEnabled ? new SessionRecorder(this.sessionId) : null;
+      this.resumptionHandle = null;
+      // The session takes over the partial output from any one-off reply still streaming
+      this.textReplySeq++;
+      this.setState({ currentOutput: '' });
+    }
+    this.listenForNetwork(true);
+
+    const source = this.inputSource;
+    this.sessionSource = source;
+    this.turnSourcePower = {};
+    let systemStream: MediaStream | null = null;
+
+    try {
+      // 0. Screen sharing needs the click's user activation, so ask for it before anything else
+      if (source === 'system' || source === 'mic+system') {
+        systemStream = await captureSystemAudio();
+      }
+
+      // 1. Initialize Shared Audio Context
+      const inputCtx = await this.initAudioContext();
+
+      // Initialize Output Context for playback (kept separate for simplicity with decoding)
+      await this.ensureOutputContext();
+      await this.applyOutputDevice();
+
+      // 2. Load Audio Worklet (Once)
+      if (!this.isWorkletLoaded) {
+        try {
+          await inputCtx.audioWorklet.addModule(RECORDER_WORKLET_URL);
+        } catch (e) {
+          console.warn("Worklet addModule error (likely already loaded):", e);
+        }
+        this.isWorkletLoaded = true; // Assume loaded if it fails usually
+      }
+
+      // 3. Create Graph Nodes: Sources -> Analyser -> Worklet -> Destination
+      // (stereo tab and file audio is downmixed to the mono the worklet reads)
+      const workletNode = new AudioWorkletNode(inputCtx, 'recorder-processor', {
+        channelCount: 1,
+        channelCountMode: 'explicit',
+        channelInterpretation: 'speakers',
+      });
+      this.workletNode = workletNode;
+      this.state.analyser?.connect(workletNode);
+      workletNode.connect(inputCtx.destination);
+      this.setVadSettings(this.vadSettings);
+
+      // 4. Attach the input sources
+      if (systemStream) {
+        this.attachSystemStream(systemStream);
+        systemStream = null;
+      }
+      if (source === 'mic' || source === 'mic+system') {
+        this.attachMicStream(await this.openMicStream());
+        this.listenForDevices(true);
+      }
+      if (source === 'file') {
+        await this.startFileSource();
+      }
+
+      // 5. Handle Data
+      workletNode.port.onmessage = (event: MessageEvent<WorkletMessage>) => this.handleWorkletMessage(event.data);
+
+      // 6. Connect Gemini
+      this.connect();
+    } catch (e: any) {
+      console.error("Failed to start session:", e);
+      stopStream(systemStream);
+      this.setState({ error: e.message || "Failed to access microphone or connect.", status: ConnectionStatus.ERROR });
+      this.stopSession(false, true);
+    }
+  }
+
+  // End the session for good and archive it
+  async stop() {
+    await this.stopSession(true);
+  }
+
+  // Skip the remaining backoff delay and reconnect immediately
+  retryNow() {
+    if (!this.state.reconnect) return;
+    this.clearReconnectTimer();
+    this.reconnect();
+  }
+
+  // Playback context with the volume stage: sources -> gain -> speaker
+  private async ensureOutputContext(): Promise<AudioContext> {
+    if (!this.outputContext || this.outputContext.state === 'closed') {
+      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+      const ctx: AudioContext = new AudioContextClass();
+      this.outputGain = ctx.createGain();
+      this.outputGain.gain.value = this.playback.volume;
+      this.outputGain.connect(ctx.destination);
+      this.outputContext = ctx;
+      await this.applyOutputDevice();
+    }
+    await this.outputContext.resume();
+    return this.outputContext;
+  }
+
+  private async initAudioContext(): Promise<AudioContext> {
+    if (this.inputContext) {
+      if (this.inputContext.state === 'suspended') {
+        await this.inputContext.resume();
+      }
+      return this.inputContext;
+    }
+
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    const ctx = new AudioContextClass();
+    if (!ctx.audioWorklet) {
+      throw new Error("AudioWorklet not supported");
+    }
+
+    // Create and configure Analyser once
+    const analyser = ctx.createAnalyser();
+    analyser.fftSize = 512;
+    analyser.smoothingTimeConstant = 0.1;
+    this.setState({ analyser });
+
+    this.inputContext = ctx;
+    await ctx.resume();
+    return ctx;
+  }
+
+  // --- Devices ---
+
+  // Open the chosen mic, falling back to the default one if it has gone missing
+  private async openMicStream(): Promise<MediaStream> {
+    const getStream = this.options.getMicStream ?? defaultMicStream;
+    try {
+      const stream = await getStream(buildMicConstraints(this.audioDevices));
+      this.usingFallbackMic = false;
+      return stream;
+    } catch (e) {
+      if (!this.audioDevices.inputDeviceId || !isMissingDeviceError(e)) throw e;
+      const stream = await getStream(buildMicConstraints(this.audioDevices, true));
+      this.usingFallbackMic = true;
+      this.emit('notice', "The selected microphone is not available; using the default microphone.");
+      return stream;
+    }
+  }
+
+  // Feed a mic stream into the capture graph (Source -> Analyser/Worklet)
+  private attachMicStream(stream: MediaStream) {
+    const source = this.inputContext!.createMediaStreamSource(stream);
+    this.connectInput('mic', source);
+    this.sourceNode = source;
+    this.mediaStream = stream;
+
+    const track = stream.getAudioTracks()[0];
+    // Fires when the device is unplugged
+    if (track) track.onended = () => this.handleMicEnded(stream);
+    this.setState({ micLabel: track?.label || null });
+  }
+
+  private detachMicStream() {
+    stopStream(this.mediaStream);
+    this.mediaStream = null;
+    this.sourceNode?.disconnect();
+    this.sourceNode = null;
+  }
+
+  // Route an input into the capture graph; mixed inputs also get a meter for turn attribution
+  private connectInput(kind: AudioSourceKind, node: AudioNode) {
+    node.connect(this.state.analyser ?? this.workletNode!);
+    if (this.sessionSource !== 'mic+system') return;
+    const meter = this.inputContext!.createAnalyser();
+    meter.fftSize = this.meterScratch.length;
+    node.connect(meter);
+    this.sourceMeters.set(kind, meter);
+  }
+
+  private attachSystemStream(stream: MediaStream) {
+    const source = this.inputContext!.createMediaStreamSource(stream);
+    this.connectInput('system', source);
+    this.systemSourceNode = source;
+    this.systemStream = stream;
+    // Fires when the user clicks the browser's "Stop sharing"
+    stream.getAudioTracks()[0].onended = () => this.handleSystemAudioEnded(stream);
+  }
+
+  private detachSystemStream() {
+    stopStream(this.systemStream);
+    this.systemStream = null;
+    this.systemSourceNode?.disconnect();
+    this.systemSourceNode = null;
+    this.sourceMeters.delete('system');
+  }
+
+  private handleSystemAudioEnded(stream: MediaStream) {
+    if (stream !== this.systemStream) return;
+    this.detachSystemStream();
+    if (this.sessionSource === 'mic+system') {
+      this.emit('notice', "Audio sharing stopped; continuing with the microphone only.");
+    } else {
+      this.emit('notice', "Audio sharing stopped, so the session was ended.");
+      this.stop();
+    }
+  }
+
+  // Decode the chosen file and play it into the worklet (not the speakers)
+  private async startFileSource() {
+    const file = this.inputFile;
+    if (!file) throw new Error("Choose an audio or video file to translate.");
+    const ctx = this.inputContext!;
+    const buffer = await decodeMediaFile(ctx, file);
+    if (!this.workletNode) return; // Stopped while decoding
+
+    const node = ctx.createBufferSource();
+    node.buffer = buffer;
+    node.playbackRate.value = this.filePlaybackRate;
+    this.connectInput('file', node);
+    node.onended = () => this.handleFileEnded(node);
+    this.fileSourceNode = node;
+
+    const startedAt = ctx.currentTime;
+    const rate = this.filePlaybackRate;
+    const updateProgress = () => this.setState({
+      fileProgress: {
+        name: file.name,
+        elapsedSec: Math.min(buffer.duration, (ctx.currentTime - startedAt) * rate),
+        durationSec: buffer.duration,
+      },
+    });
+    updateProgress();
+    this.fileProgressTimer = setInterval(updateProgress, 500);
+    node.start();
+  }
+
+  private stopFileSource() {
+    if (this.fileProgressTimer) {
+      clearInterval(this.fileProgressTimer);
+      this.fileProgressTimer = null;
+    }
+    const node = this.fileSourceNode;
+    this.fileSourceNode = null;
+    if (node) {
+      node.onended = null;
+      try { node.stop(); } catch (e) {}
+      node.disconnect();
+    }
+    if (this.state.fileProgress) this.setState({ fileProgress: null });
+  }
+
+  // The file ran out; the session stays up so the last turns can finish translating
+  private handleFileEnded(node: AudioBufferSourceNode) {
+    if (node !== this.fileSourceNode) return;
+    const name = this.state.fileProgress?.name ?? 'the file';
+    this.stopFileSource();
+    this.emit('notice', `Finished streaming ${name}. Stop the session once the last translation arrives.`);
+  }
+
+  // Which source the finished user turn was heard on
+  private takeTurnSource(): AudioSourceKind {
+    const power = this.turnSourcePower;
+    this.turnSourcePower = {};
+    if (this.sessionSource !== 'mic+system') return this.sessionSource;
+    return (power.system ?? 0) > (power.mic ?? 0) ? 'system' : 'mic';
+  }
+
+  // Swap the mic under the running worklet; the Live connection never notices
+  private async replaceMicStream() {
+    const stream = await this.openMicStream();
+    if (!this.workletNode) {
+      // The session ended while the device was opening
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+    this.detachMicStream();
+    this.attachMicStream(stream);
+  }
+
+  private async handleMicEnded(stream: MediaStream) {
+    if (stream !== this.mediaStream) return;
+    const label = this.state.micLabel ?? 'The microphone';
+    try {
+      await this.replaceMicStream();
+      this.emit('notice', `${label} was disconnected; now using ${this.state.micLabel ?? 'the default microphone'}.`);
+    } catch (e) {
+      console.error("No microphone to fall back to", e);
+      this.emit('notice', `${label} was disconnected and no other microphone is available.`);
+    }
+  }
+
+  // Route model playback to the chosen speaker, or the default one if it is missing
+  private async applyOutputDevice() {
+    const ctx = this.outputContext;
+    const sinkId = this.audioDevices.outputDeviceId;
+    if (!ctx || ctx.state === 'closed') return;
+    const applied = await setContextSink(ctx, sinkId);
+    if (sinkId && !applied) {
+      await setContextSink(ctx, '');
+      if (!this.usingFallbackOutput) this.emit('notice', "The selected speaker is not available; playing on the default output.");
+    }
+    this.usingFallbackOutput = Boolean(sinkId) && !applied;
+  }
+
+  private listenForDevices(enabled: boolean) {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices?.addEventListener || enabled === this.deviceListening) return;
+    this.deviceListening = enabled;
+    if (enabled) mediaDevices.addEventListener('devicechange', this.handleDeviceChange);
+    else mediaDevices.removeEventListener('devicechange', this.handleDeviceChange);
+  }
+
+  // Hot-plug: move off a speaker that disappeared, and back onto chosen devices that reappear
+  private handleDeviceChange = async () => {
+    let devices: AudioDeviceLists;
+    try {
+      devices = await listAudioDevices();
+    } catch (e) {
+      console.warn("Could not list audio devices after a device change", e);
+      return;
+    }
+    const { inputs, outputs } = devices;
+    const { inputDeviceId, outputDeviceId } = this.audioDevices;
+
+    if (this.usingFallbackMic && this.mediaStream && inputs.some(device => device.deviceId === inputDeviceId)) {
+      try {
+        await this.replaceMicStream();
+        if (!this.usingFallbackMic) this.emit('notice', `Switched back to ${this.state.micLabel ?? 'the selected microphone'}.`);
+      } catch (e) {
+        console.warn("Failed to switch back to the selected microphone", e);
+      }
+    }
+
+    if (outputDeviceId) {
+      const present = outputs.some(device => device.deviceId === outputDeviceId);
+      if (present === this.usingFallbackOutput) {
+        try {
+          await this.applyOutputDevice();
+          if (present && !this.usingFallbackOutput) this.emit('notice', "Switched back to the selected speaker.");
+        } catch (e) {
+          console.warn("Failed to switch back to the selected speaker", e);
+        }
+      }
+    }
+  };
+
+  private handleWorkletMessage(message: WorkletMessage) {
+    if (message.type === 'vad') {
+      this.setState({ isSpeaking: message.speaking });
+      this.updateOutputVolume();
+      return;
+    }
+    if (message.type === 'flushed') {
+      if (this.talkReleasePending) {
+        this.talkReleasePending = false;
+        this.sendRealtimeInput({ activityEnd: {} });
+      }
+      return;
+    }
+    this.recorder?.appendMic(message.samples);
+    if (message.speech && this.sourceMeters.size > 1) {
+      this.sourceMeters.forEach((meter, kind) => {
+        this.turnSourcePower[kind] = (this.turnSourcePower[kind] ?? 0) + analyserPower(meter, this.meterScratch);
+      });
+    }
+    this.forwardMicChunk(message.samples, message.speech);
+  }
+
+  // Stop everything queued for playback
+  private stopPlayback() {
+    this.audioSources.forEach(source => {
+      try { source.stop(); } catch (e) {}
+    });
+    this.audioSources.clear();
+    this.nextStartTime = 0;
+  }
+
+  // Close the Live connection (and any rotation in progress); callbacks from it are ignored from here on
+  private closeConnection() {
+    this.cancelRotation();
+    // Replies could only go to the connection that asked
+    this.toolCalls.forEach(controller => controller.abort());
+    this.toolCalls.clear();
+    this.connectionId = ++this.connectionSeq;
+    const session = this.session;
+    this.session = null;
+    try { session?.close(); } catch (e) {}
+  }
+
+  // Save any pending partial text to the transcript before clearing; returns the saved items
+  private flushPendingTurns(): TranscriptItem[] {
+    const pendingInput = this.currentTurnInput.trim();
+    const { text, targetLang } = this.splitDirectionTag(this.currentTurnOutput);
+    const pendingOutput = text.trim();
+    const now = new Date();
+    const inputSpan = this.spanOrNow(this.inputSpan);
+    const outputSpan = this.spanOrNow(this.outputSpan);
+    const labels = this.labelTurnLanguages(pendingInput, pendingOutput, this.sessionPair, targetLang);
+    const pendingItems: TranscriptItem[] = [];
+
+    if (pendingInput) {
+      pendingItems.push({
+        id: Date.now() + '-saved-input',
+        role: 'user',
+        text: pendingInput,
+        isFinal: true,
+        timestamp: now,
+        startOffsetMs: inputSpan.startMs,
+        endOffsetMs: inputSpan.endMs,
+        source: this.takeTurnSource(),
+        ...labels.user
+      });
+    }
+    const outputId = pendingOutput ? Date.now() + '-saved-output' : null;
+    if (outputId) {
+      pendingItems.push({
+        id: outputId,
+        role: 'model',
+        text: pendingOutput,
+        isFinal: true,
+        timestamp: now,
+        startOffsetMs: outputSpan.startMs,
+        endOffsetMs: outputSpan.endMs,
+        ...labels.model
+      });
+    }
+
+    this.currentTurnInput = '';
+    this.currentTurnOutput = '';
+    this.inputSpan = null;
+    this.outputSpan = null;
+    this.finishTurnAudio(outputId);
+    this.setState({
+      transcripts: pendingItems.length > 0 ? [...this.state.transcripts, ...pendingItems] : this.state.transcripts,
+      currentInput: '',
+      currentOutput: '',
+    });
+    return pendingItems;
+  }
+
+  // Drop any turn-level uplink state tied to the current connection
+  private resetUplinkState() {
+    this.uplinkGate.reset();
+    this.talkHeld = false;
+    this.talkReleasePending = false;
+    if (this.state.isTalkHeld) this.setState({ isTalkHeld: false });
+  }
+
+  // Stops the session but keeps the audio contexts.
+  // endSession archives the session to history; reconnect attempts keep it open.
+  private async stopSession(fullDisconnect = false, endSession = fullDisconnect) {
+    this.clearReconnectTimer();
+    this.retryCount = 0;
+    this.clearGapBuffer();
+    this.listenForNetwork(false);
+    this.listenForDevices(false);
+    if (this.state.reconnect) this.setState({ reconnect: null });
+
+    // 1. Stop the input sources
+    this.detachMicStream();
+    this.detachSystemStream();
+    this.stopFileSource();
+    this.sourceMeters.clear();
+
+    // 2. Disconnect Worklet
+    if (this.workletNode) {
+      this.workletNode.port.onmessage = null;
+      this.workletNode.disconnect();
+      this.workletNode = null;
+    }
+    this.state.analyser?.disconnect();
+    this.resetUplinkState();
+    this.setState({ isSpeaking: false, micLabel: null });
+    this.updateOutputVolume();
+
+    // 3. Stop Output Audio
+    this.stopPlayback();
+
+    // 4. Suspend Input Context (Save resources)
+    if (this.inputContext && this.inputContext.state === 'running') {
+      try { await this.inputContext.suspend(); } catch (e) {}
+    }
+
+    // 5. Close the Live connection
+    this.closeConnection();
+
+    this.flushPendingTurns();
+
+    if (endSession) {
+      this.resumptionHandle = null;
+      this.stopVisual();
+      this.commitSessionRecord();
+    }
+
+    if (fullDisconnect) {
+      this.setState({ status: ConnectionStatus.DISCONNECTED });
+    }
+  }
+
+  // Persist the finished session (items recorded since it started) to the history archive
+  private async commitSessionRecord() {
+    const startedAt = this.sessionStart;
+    const recorder = this.recorder;
+    this.sessionStart = null;
+    this.recorder = null;
+    if (!startedAt) return;
+
+    const endedAt = new Date();
+    const items = this.state.transcripts.filter(item => item.timestamp >= startedAt);
+
+    try {
+      const recording = recorder ? await recorder.finish() : null;
+      if (!items.some(item => item.role !== 'system')) {
+        // Nothing was transcribed; don't keep orphaned audio around
+        if (recording) await deleteRecording(recording.id);
+        return;
+      }
+
+      const record: SessionRecord = {
+        id: this.sessionId,
+        title: defaultSessionTitle(startedAt),
+        targetLang: this.sessionLang,
+        startedAt,
+        endedAt,
+        items,
+        recordingId: recording?.id,
+        interpreterPair: this.sessionPair ?? undefined,
+      };
+
+      await saveSession(record);
+      this.emit('sessionSaved', record);
+    } catch (e) {
+      console.error("Failed to save session to history", e);
+    }
+  }
+
+  // --- Uplink ---
+
+  private sendRealtimeInput(params: LiveSendRealtimeInputParameters) {
+    try {
+      this.session?.sendRealtimeInput(params);
+    } catch (e) {
+      console.warn("Failed to send realtime input", e);
+    }
+  }
+
+  // Forward a mic chunk upstream: while the talk key is held in push-to-talk mode,
+  // otherwise gated by the VAD when it is enabled
+  private forwardMicChunk(samples: Float32Array, speech: boolean) {
+    if (!this.session) {
+      if (this.sessionStart) this.bufferGapChunk(samples, speech);
+      return;
+    }
+
+    if (this.sessionInputMode === 'push-to-talk') {
+      if (this.talkHeld || this.talkReleasePending) {
+        this.sendRealtimeInput({ media: createPcmBlob(samples) });
+      }
+      return;
+    }
+
+    if (!this.vadSettings.enabled) {
+      this.sendRealtimeInput({ media: createPcmBlob(samples) });
+      return;
+    }
+
+    const useActivitySignals = this.sessionActivitySignals;
+    const { chunks, opened, closed } = this.uplinkGate.push(samples, speech);
+    if (opened && useActivitySignals) {
+      this.sendRealtimeInput({ activityStart: {} });
+    }
+    for (const chunk of chunks) {
+      this.sendRealtimeInput({ media: createPcmBlob(chunk) });
+    }
+    if (closed) {
+      // Without client signals, tell server-side detection the stream paused so it can close the turn
+      this.sendRealtimeInput(useActivitySignals ? { activityEnd: {} } : { audioStreamEnd: true });
+    }
+  }
+
+  // Hold mic audio while (re)connecting so speech during the gap is sent afterwards
+  private bufferGapChunk(samples: Float32Array, speech: boolean) {
+    // Push-to-talk only sends while the key is held
+    if (this.sessionInputMode === 'push-to-talk' && !this.talkHeld && !this.talkReleasePending) return;
+
+    this.gapBuffer.push({ samples, speech });
+    this.gapBufferSamples += samples.length;
+    const maxSamples = MAX_GAP_BUFFER_MS / 1000 * MIC_SAMPLE_RATE;
+    while (this.gapBufferSamples > maxSamples && this.gapBuffer.length > 1) {
+      this.gapBufferSamples -= this.gapBuffer.shift()!.samples.length;
+    }
+
+    const bufferedMs = Math.round(this.gapBufferSamples / MIC_SAMPLE_RATE * 1000);
+    if (this.state.reconnect) this.setState({ reconnect: { ...this.state.reconnect, bufferedMs } });
+  }
+
+  private clearGapBuffer() {
+    this.gapBuffer = [];
+    this.gapBufferSamples = 0;
+  }
+
+  // Send the audio held during the gap through the normal uplink path
+  private flushGapBuffer() {
+    const chunks = this.gapBuffer;
+    this.clearGapBuffer();
+
+    if (this.sessionInputMode === 'push-to-talk') {
+      // The turn opened before the drop never reached this connection
+      if (chunks.length === 0 && !this.talkHeld) return;
+      this.sendRealtimeInput({ activityStart: {} });
+      chunks.forEach(chunk => this.sendRealtimeInput({ media: createPcmBlob(chunk.samples) }));
+      if (!this.talkHeld && !this.talkReleasePending) this.sendRealtimeInput({ activityEnd: {} });
+      return;
+    }
+    chunks.forEach(chunk => this.forwardMicChunk(chunk.samples, chunk.speech));
+  }
+
+  // Push-to-talk: open a turn while held
+  startTalking() {
+    if (this.talkHeld || !this.session || this.sessionInputMode !== 'push-to-talk') return;
+    this.talkHeld = true;
+    this.talkReleasePending = false;
+    this.setState({ isTalkHeld: true });
+    this.updateOutputVolume();
+    this.sendRealtimeInput({ activityStart: {} });
+  }
+
+  // Push-to-talk: flush the worklet so the tail of the utterance is sent, then end the turn
+  stopTalking() {
+    if (!this.talkHeld) return;
+    this.talkHeld = false;
+    this.setState({ isTalkHeld: false });
+    this.updateOutputVolume();
+    if (this.workletNode) {
+      this.talkReleasePending = true;
+      this.workletNode.port.postMessage({ type: 'flush' });
+    } else {
+      this.sendRealtimeInput({ activityEnd: {} });
+    }
+  }
+
+  // --- Live connection ---
+
+  // Open a Live connection for the current language selection. Callbacks from a
+  // connection that has since been replaced or closed are ignored. A standby
+  // connection is opened alongside the active one and only takes over on handover.
+  private connect({ standby = false, resume = true } = {}) {
+    const transport = this.options.transport;
+    if (!transport) return;
+    const connectionId = ++this.connectionSeq;
+    const isCurrent = () => connectionId === this.connectionId;
+    const isStandby = () => connectionId === this.standby?.id;
+
+    const pair = this.pair;
+    const useActivitySignals = this.vadSettings.enabled && this.vadSettings.clientActivitySignals;
+    const voice = this.options.getVoiceSettings?.(this.langCode, pair) ?? DEFAULT_VOICE_SETTINGS;
+    const textResponses = voice.responseModality === 'text';
+    const profile: ConnectionProfile = { pair, activitySignals: useActivitySignals, inputMode: this.inputMode, textResponses };
+    // Push-to-talk and client-side VAD both mark turns explicitly
+    const manualActivity = this.inputMode === 'push-to-talk' || useActivitySignals;
+    const declarations = this.options.tools?.declarations() ?? [];
+    const realtimeInputConfig = {
+      // Turns are marked explicitly by the client, so server-side detection must be off
+      ...(manualActivity ? { automaticActivityDetection: { disabled: true } } : {}),
+      // Let the model finish speaking even when the user talks over it
+      ...(this.bargeIn.allowInterruption ? {} : { activityHandling: ActivityHandling.NO_INTERRUPTION }),
+    };
+
+    // A resumed session keeps its context server-side; a fresh one gets the recent transcript instead
+    const handle = resume ? this.resumptionHandle : null;
+    let instruction = this.options.buildSystemInstruction(this.langCode, pair);
+    // Spoken replies carry the tag in their output transcription
+    if (pair) instruction += directionTagInstruction(pair, !textResponses);
+    if (!handle && this.carryContext) instruction += buildContextCarryover(this.sessionItems());
+
+    if (standby) {
+      this.standby = { id: connectionId, session: null, profile, resumed: handle !== null, resumptionHandle: null };
+    } else {
+      this.connectionId = connectionId;
+      this.applyProfile(profile);
+    }
+
+    const sessionPromise = transport.connect({
+      model: voice.model,
+      config: {
+        responseModalities: [textResponses ? Modality.TEXT : Modality.AUDIO],
+        ...(textResponses ? {} : {
+          speechConfig: {
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: voice.voiceName } }
+          },
+        }),
+        systemInstruction: instruction,
+        ...(voice.inputTranscription ? { inputAudioTranscription: {} } : {}),
+        ...(!textResponses && voice.outputTranscription ? { outputAudioTranscription: {} } : {}),
+        ...(declarations.length > 0 ? { tools: [{ functionDeclarations: declarations }] } : {}),
+        // Ask for resumption handles; pass the last one to pick up where the dropped connection left off
+        sessionResumption: handle ? { handle } : {},
+        ...(Object.keys(realtimeInputConfig).length > 0 ? { realtimeInputConfig } : {}),
+      },
+    }, {
+      onOpen: () => {
+        console.log(isStandby() ? "Standby session connected" : "Session Connected");
+      },
+      onMessage: (msg) => {
+        if (isStandby()) {
+          this.noteResumptionUpdate(msg, true);
+          return;
+        }
+        if (!isCurrent()) return;
+        this.handleMessage(msg);
+      },
+      onClose: (info) => {
+        console.log("Session Closed", info);
+        if (isStandby()) {
+          this.abandonRotation();
+          return;
+        }
+        // Closed by us (disconnect, language switch, retry): already handled.
+        // Closed by the server: reconnect unless retrying cannot help.
+        if (!isCurrent()) return;
+        const reason = info.reason ? `: ${info.reason}` : '';
+        if (info.code !== undefined && FATAL_CLOSE_CODES.has(info.code)) {
+          this.failConnection(`Connection closed (${info.code})${reason}`);
+        } else {
+          this.handleConnectionLoss(`Connection closed${reason}`);
+        }
+      },
+      onError: (err) => {
+        console.error("Session error:", err);
+        if (isStandby()) {
+          this.abandonRotation();
+          return;
+        }
+        if (!isCurrent()) return;
+        this.handleConnectionLoss(err.message || "Connection lost");
+      }
+    });
+
+    sessionPromise.then(sess => {
+      // A standby may have been promoted while it was connecting
+      if (isCurrent()) {
+        this.session = sess;
+        this.retryCount = 0;
+        this.setState({ status: ConnectionStatus.CONNECTED, error: null, reconnect: null });
+        if (!handle) this.liveSessionStartedAt = Date.now();
+        this.scheduleRotation();
+        this.flushGapBuffer();
+      } else if (isStandby() && this.standby) {
+        this.standby.session = sess;
+        this.tryHandover();
+      } else {
+        sess.close();
+      }
+    }).catch(e => {
+      console.error("Failed to connect:", e);
+      if (isStandby()) this.abandonRotation();
+      else if (isCurrent()) this.handleConnectionLoss(e?.message || "Failed to connect");
+    });
+  }
+
+  private applyProfile(profile: ConnectionProfile) {
+    this.sessionPair = profile.pair;
+    this.sessionActivitySignals = profile.activitySignals;
+    this.sessionInputMode = profile.inputMode;
+    this.sessionTextResponses = profile.textResponses;
+  }
+
+  // Transcript items belonging to the running session record
+  private sessionItems(): TranscriptItem[] {
+    const startedAt = this.sessionStart;
+    return startedAt ? this.state.transcripts.filter(item => item.timestamp >= startedAt) : [];
+  }
+
+  private noteResumptionUpdate(message: LiveServerMessage, fromStandby = false) {
+    const update = message.sessionResumptionUpdate;
+    if (!update?.resumable || !update.newHandle) return;
+    if (fromStandby && this.standby) this.standby.resumptionHandle = update.newHandle;
+    else this.resumptionHandle = update.newHandle;
+  }
+
+  // --- Rotation ---
+
+  // Rotate to a fresh server session shortly before the active one hits its time limit
+  private scheduleRotation() {
+    this.clearRotationTimer();
+    const delayMs = Math.max(0, this.liveSessionStartedAt + ROTATE_AFTER_MS - Date.now());
+    this.rotationTimer = setTimeout(() => {
+      this.rotationTimer = null;
+      this.rotateConnection('session time limit', false);
+    }, delayMs);
+  }
+
+  private clearRotationTimer() {
+    if (this.rotationTimer) {
+      clearTimeout(this.rotationTimer);
+      this.rotationTimer = null;
+    }
+  }
+
+  // Open a replacement connection with the same config while the active one keeps
+  // streaming; it takes over at the next turn boundary, or at the deadline.
+  // resume continues the server session through its handle instead of starting fresh.
+  private rotateConnection(reason: string, resume: boolean, deadlineMs = HANDOVER_TIMEOUT_MS) {
+    if (this.standby) {
+      this.handoverDeadline = Math.min(this.handoverDeadline, Date.now() + deadlineMs);
+      return;
+    }
+    if (!this.session) return;
+    console.log(`Rotating Live session (${reason})`);
+    this.clearRotationTimer();
+    this.handoverDeadline = Date.now() + deadlineMs;
+    this.connect({ standby: true, resume });
+    this.handoverTimer = setInterval(() => this.tryHandover(), HANDOVER_POLL_MS);
+  }
+
+  // Nothing is mid-flight on the active connection
+  private isTurnIdle() {
+    return !this.currentTurnInput && !this.currentTurnOutput && this.audioSources.size === 0
+      && !this.state.isSpeaking && !this.talkHeld && !this.talkReleasePending;
+  }
+
+  private tryHandover() {
+    const standby = this.standby;
+    if (!standby?.session) return;
+    // A resumed session carries the turn state over, so it can take over right away
+    if (!standby.resumed && !this.isTurnIdle() && Date.now() < this.handoverDeadline) return;
+    this.completeHandover();
+  }
+
+  // Make the standby the active connection and retire the old one
+  private completeHandover() {
+    const standby = this.standby;
+    if (!standby?.session) return;
+    const previous = this.session;
+    this.clearHandoverTimer();
+    this.standby = null;
+
+    this.flushPendingTurns();
+    this.uplinkGate.reset();
+    this.connectionId = standby.id;
+    this.session = standby.session;
+    this.applyProfile(standby.profile);
+    if (!standby.resumed) this.liveSessionStartedAt = Date.now();
+    this.resumptionHandle = standby.resumptionHandle ?? (standby.resumed ? this.resumptionHandle : null);
+    this.scheduleRotation();
+    try { previous?.close(); } catch (e) {}
+    console.log("Handed over to the new Live session");
+
+    // A held push-to-talk turn continues on the new connection
+    if (this.sessionInputMode === 'push-to-talk' && this.talkHeld) {
+      this.sendRealtimeInput({ activityStart: {} });
+    }
+  }
+
+  // The standby failed to open: keep the active connection and try again shortly
+  private abandonRotation() {
+    this.cancelRotation();
+    if (!this.session) return;
+    console.warn("Session rotation failed; retrying");
+    this.rotationTimer = setTimeout(() => {
+      this.rotationTimer = null;
+      this.rotateConnection('rotation retry', false);
+    }, ROTATION_RETRY_MS);
+  }
+
+  private cancelRotation() {
+    this.clearRotationTimer();
+    this.clearHandoverTimer();
+    const standby = this.standby;
+    this.standby = null;
+    try { standby?.session?.close(); } catch (e) {}
+  }
+
+  private clearHandoverTimer() {
+    if (this.handoverTimer) {
+      clearInterval(this.handoverTimer);
+      this.handoverTimer = null;
+    }
+  }
+
+  // The active connection died mid-rotation: let the standby take over instead of reconnecting
+  private promoteStandby(): boolean {
+    const standby = this.standby;
+    if (!standby) return false;
+    if (standby.session) {
+      this.completeHandover();
+      return true;
+    }
+
+    // Still connecting: make it the active connection; its open completes the switch
+    const previous = this.session;
+    this.clearHandoverTimer();
+    this.standby = null;
+    this.flushPendingTurns();
+    this.uplinkGate.reset();
+    this.session = null;
+    this.connectionId = standby.id;
+    this.applyProfile(standby.profile);
+    this.setState({ status: ConnectionStatus.CONNECTING });
+    try { previous?.close(); } catch (e) {}
+    return true;
+  }
+
+  // Drop the broken connection but keep the mic graph running, then retry with
+  // exponential backoff. Mic audio is buffered until the next connection opens.
+  private handleConnectionLoss(message: string) {
+    if (this.promoteStandby()) return;
+    this.flushPendingTurns();
+    this.stopPlayback();
+    this.uplinkGate.reset();
+    this.closeConnection();
+    this.clearReconnectTimer();
+
+    if (this.retryCount >= MAX_RECONNECT_ATTEMPTS) {
+      this.failConnection(`${message} (gave up after ${MAX_RECONNECT_ATTEMPTS} attempts)`);
+      return;
+    }
+    this.retryCount++;
+    this.scheduleReconnect();
+  }
+
+  // Wait out the backoff delay for the current attempt, or for the network if offline
+  private scheduleReconnect() {
+    const attempt = this.retryCount;
+    const bufferedMs = Math.round(this.gapBufferSamples / MIC_SAMPLE_RATE * 1000);
+    const reconnect: ReconnectState = { attempt, maxAttempts: MAX_RECONNECT_ATTEMPTS, retryAt: null, offline: this.isOffline, bufferedMs };
+
+    if (!this.isOffline) {
+      const delayMs = backoffDelay(attempt);
+      reconnect.retryAt = Date.now() + delayMs;
+      this.reconnectTimeout = setTimeout(() => {
+        this.reconnectTimeout = null;
+        this.reconnect();
+      }, delayMs);
+    }
+    this.setState({ status: ConnectionStatus.CONNECTING, reconnect });
+  }
+
+  private reconnect() {
+    if (this.state.reconnect) this.setState({ reconnect: { ...this.state.reconnect, retryAt: null, offline: false } });
+    this.connect();
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+  }
+
+  // Give up: surface the error and end the session
+  private failConnection(message: string) {
+    this.setState({ error: message, status: ConnectionStatus.ERROR, reconnect: null });
+    this.stopSession(false, true);
+  }
+
+  // --- Network awareness ---
+
+  private listenForNetwork(enabled: boolean) {
+    if (typeof window === 'undefined' || enabled === this.networkListening) return;
+    this.networkListening = enabled;
+    if (enabled) {
+      window.addEventListener('online', this.handleOnline);
+      window.addEventListener('offline', this.handleOffline);
+    } else {
+      window.removeEventListener('online', this.handleOnline);
+      window.removeEventListener('offline', this.handleOffline);
+    }
+  }
+
+  // Back online: don't wait out the remaining backoff
+  private handleOnline = () => {
+    this.isOffline = false;
+    if (this.state.reconnect) this.retryNow();
+  };
+
+  // Offline: the socket may take a while to notice, so treat it as a drop now and pause retries
+  private handleOffline = () => {
+    this.isOffline = true;
+    if (this.state.reconnect) {
+      this.clearReconnectTimer();
+      this.closeConnection();
+      this.setState({ reconnect: { ...this.state.reconnect, retryAt: null, offline: true } });
+    } else if (this.isConnected) {
+      this.handleConnectionLoss("Network offline");
+    }
+  };
+
+  // Swap the Live connection for one with the new system instruction, keeping the
+  // mic graph, audio contexts and transcript, and mark the switch inline
+  private switchLanguageLive(label: string) {
+    this.flushPendingTurns();
+    this.stopPlayback();
+    this.resetUplinkState();
+    this.closeConnection();
+    // The handle carries the old instruction; the new language starts a fresh Live session
+    this.resumptionHandle = null;
+
+    const offsetMs = this.getSessionOffsetMs();
+    this.appendTranscripts([{
+      id: Date.now() + '-switch',
+      role: 'system',
+      text: `Switched to ${label}`,
+      isFinal: true,
+      timestamp: new Date(),
+      startOffsetMs: offsetMs,
+      endOffsetMs: offsetMs
+    }]);
+
+    this.setState({ status: ConnectionStatus.CONNECTING });
+    this.connect();
+  }
+
+  private handleMessage(message: LiveServerMessage) {
+    this.noteResumptionUpdate(message);
+
+    // The server is about to end this connection: move to a new one before it does
+    if (message.goAway) {
+      const timeLeftMs = parseFloat(message.goAway.timeLeft ?? '') * 1000;
+      const deadlineMs = Number.isFinite(timeLeftMs) ? Math.max(0, timeLeftMs - 1000) : HANDOVER_TIMEOUT_MS;
+      this.rotateConnection('server go-away', true, Math.min(deadlineMs, HANDOVER_TIMEOUT_MS));
+    }
+
+    const inputTxt = message.serverContent?.inputTranscription?.text;
+    if (inputTxt) {
+      this.currentTurnInput += inputTxt;
+      this.inputSpan = this.touchSpan(this.inputSpan);
+      this.setState({ currentInput: this.currentTurnInput });
+    }
+
+    // Text responses arrive as model turn parts rather than as a transcription
+    const outputTxt = this.sessionTextResponses
+      ? message.serverContent?.modelTurn?.parts?.filter(part => part.text && !part.thought).map(part => part.text).join('')
+      : message.serverContent?.outputTranscription?.text;
+    if (outputTxt) {
+      this.currentTurnOutput += outputTxt;
+      this.outputSpan = this.touchSpan(this.outputSpan);
+      this.setState({ currentOutput: this.splitDirectionTag(this.currentTurnOutput).text });
+    }
+
+    message.toolCall?.functionCalls?.forEach(call => this.handleToolCall(call));
+    message.toolCallCancellation?.ids?.forEach(id => this.toolCalls.get(id)?.abort());
+
+    if (message.serverContent?.turnComplete) {
+      this.completeTurn();
+    }
+
+    if (message.serverContent?.interrupted) {
+      this.handleInterruption();
+    }
+
+    const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+    if (base64Audio) {
+      this.playAudio(base64Audio);
+    }
+  }
+
+  private completeTurn() {
+    const now = new Date();
+    const finalInput = this.currentTurnInput.trim();
+    const { text, targetLang } = this.splitDirectionTag(this.currentTurnOutput);
+    const finalOutput = text.trim();
+    const labels = this.labelTurnLanguages(finalInput, finalOutput, this.sessionPair, targetLang);
+    const items: TranscriptItem[] = [];
+
+    if (finalInput) {
+      const span = this.spanOrNow(this.inputSpan);
+      items.push({
+        id: Date.now() + '-user',
+        role: 'user',
+        text: finalInput,
+        isFinal: true,
+        timestamp: now,
+        startOffsetMs: span.startMs,
+        endOffsetMs: span.endMs,
+        source: this.takeTurnSource(),
+        ...labels.user
+      });
+      this.currentTurnInput = '';
+      this.inputSpan = null;
+    }
+
+    const outputId = finalOutput ? Date.now() + '-model' : null;
+    if (outputId) {
+      const span = this.spanOrNow(this.outputSpan);
+      items.push({
+        id: outputId,
+        role: 'model',
+        text: finalOutput,
+        isFinal: true,
+        timestamp: now,
+        startOffsetMs: span.startMs,
+        endOffsetMs: span.endMs,
+        ...labels.model
+      });
+      this.currentTurnOutput = '';
+      this.outputSpan = null;
+    }
+    this.finishTurnAudio(outputId);
+
+    if (items.length > 0) {
+      this.setState({
+        transcripts: [...this.state.transcripts, ...items],
+        currentInput: this.currentTurnInput,
+        currentOutput: this.splitDirectionTag(this.currentTurnOutput).text,
+      });
+    }
+  }
+
+  // The user talked over the model: keep what it had said so far, marked with how much was heard
+  private handleInterruption() {
+    const ctx = this.outputContext;
+    const playedSec = ctx ? this.turnPlayback.reduce((sum, chunk) =>
+      sum + Math.min(Math.max(0, ctx.currentTime - chunk.startTime) * chunk.rate, chunk.duration), 0) : 0;
+    const receivedMs = this.turnAudio.reduce((sum, chunk) => sum + pcmDurationMs(chunk), 0);
+    this.stopPlayback();
+
+    const { text, targetLang } = this.splitDirectionTag(this.currentTurnOutput);
+    const finalOutput = text.trim();
+    const outputId = finalOutput ? Date.now() + '-interrupted' : null;
+    if (outputId) {
+      const span = this.spanOrNow(this.outputSpan);
+      this.appendTranscripts([{
+        id: outputId,
+        role: 'model',
+        text: finalOutput,
+        isFinal: true,
+        timestamp: new Date(),
+        startOffsetMs: span.startMs,
+        endOffsetMs: span.endMs,
+        interruption: { playedMs: Math.round(playedSec * 1000), receivedMs: Math.round(receivedMs) },
+        ...this.labelTurnLanguages(this.currentTurnInput.trim(), finalOutput, this.sessionPair, targetLang).model
+      }]);
+    }
+    this.finishTurnAudio(outputId);
+    this.currentTurnOutput = '';
+    this.outputSpan = null;
+    this.setState({ currentOutput: '' });
+  }
+
+  // Playback volume, lowered while the user speaks if ducking is on (quick to duck, slower to recover)
+  private updateOutputVolume() {
+    const ctx = this.outputContext;
+    if (!ctx || !this.outputGain) return;
+    const ducked = this.bargeIn.duckWhileSpeaking && (this.state.isSpeaking || this.talkHeld);
+    const volume = this.playback.volume * (ducked ? this.bargeIn.duckLevel : 1);
+    this.outputGain.gain.setTargetAtTime(volume, ctx.currentTime, ducked ? 0.02 : 0.15);
+  }
+
+  private playAudio(base64Audio: string) {
+    this.turnAudio.push(base64Audio);
+    // Text-only: keep the encoded chunk for replay but never decode or play it
+    // (so the session recording has no model audio either)
+    const ctx = this.outputContext;
+    if (!ctx || this.playback.textOnly) return;
+    const startTime = Math.max(this.nextStartTime, ctx.currentTime);
+    const rate = this.playback.rate;
+
+    decodeAudioData(base64Audio, ctx, MODEL_SAMPLE_RATE).then(buffer => {
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.playbackRate.value = rate;
+      source.connect(this.outputGain ?? ctx.destination);
+      source.start(startTime);
+      this.turnPlayback.push({ startTime, duration: buffer.duration, rate });
+      this.recorder?.appendModel(buffer.getChannelData(0), startTime - ctx.currentTime);
+      this.nextStartTime = startTime + buffer.duration / rate;
+      this.audioSources.add(source);
+      source.onended = () => this.audioSources.delete(source);
+    }).catch(console.error);
+  }
+
+  // --- Tools ---
+
+  // Run a tool call and always answer it, so the model is never left waiting
+  private async handleToolCall(call: FunctionCall) {
+    const callId = call.id ?? `${call.name}-${Date.now()}`;
+    const connectionId = this.connectionId;
+    const requestedAtMs = this.getSessionOffsetMs();
+    const controller = new AbortController();
+    this.toolCalls.set(callId, controller);
+
+    let entrySeq = 0;
+    const append = (entry: ToolTranscriptEntry) => {
+      const id = `${Date.now()}-tool-${callId}-${entrySeq++}`;
+      this.appendTranscripts([{
+        ...entry,
+        id,
+        role: entry.role ?? 'system',
+        isFinal: true,
+        timestamp: new Date(),
+        startOffsetMs: requestedAtMs,
+        endOffsetMs: this.getSessionOffsetMs(),
+      }]);
+      return id;
+    };
+    const update = (id: string, patch: Partial<ToolTranscriptEntry>) => this.setState({
+      transcripts: this.state.transcripts.map(item =>
+        item.id === id ? { ...item, ...patch, endOffsetMs: this.getSessionOffsetMs() } : item),
+    });
+
+    const context = { sessionId: this.sessionId, sessionItems: () => this.sessionItems(), appendTranscript: append, updateTranscript: update };
+    const { response, entry } = this.options.tools
+      ? await this.options.tools.invoke(call, context, controller.signal)
+      : { response: { error: "No tools are available." }, entry: null };
+    this.toolCalls.delete(callId);
+    if (controller.signal.aborted || connectionId !== this.connectionId) return;
+
+    if (entry) append(entry);
+    try {
+      this.session?.sendToolResponse({ functionResponses: [{ id: call.id, name: call.name, response }] });
+    } catch (e) {
+      console.warn("Failed to send tool response", e);
+    }
+  }
+}
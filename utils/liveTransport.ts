@@ -0,0 +1,64 @@
+// Transport abstraction for the Live API session.
+//
+// App talks to a LiveTransport instead of calling ai.live.connect directly, so
+// the session can be driven by the real Gemini backend or by the scripted
+// in-process mock in ./mockLiveTransport.ts (offline development, e2e tests).
+
+import {
+  GoogleGenAI,
+  LiveConnectConfig,
+  LiveServerMessage,
+  LiveSendRealtimeInputParameters,
+  LiveSendClientContentParameters,
+  LiveSendToolResponseParameters,
+} from '@google/genai';
+
+export interface LiveConnectOptions {
+  model: string;
+  config: LiveConnectConfig;
+}
+
+export interface LiveCloseInfo {
+  code?: number;
+  reason?: string;
+}
+
+export interface LiveTransportCallbacks {
+  onOpen: () => void;
+  onMessage: (message: LiveServerMessage) => void;
+  onClose: (info: LiveCloseInfo) => void;
+  onError: (error: Error) => void;
+}
+
+// An open connection; send methods throw if the connection is no longer usable
+export interface LiveTransportSession {
+  sendRealtimeInput: (params: LiveSendRealtimeInputParameters) => void;
+  sendClientContent: (params: LiveSendClientContentParameters) => void; // Typed turns
+  sendToolResponse: (params: LiveSendToolResponseParameters) => void;
+  close: () => void;
+}
+
+export interface LiveTransport {
+  readonly name: string;
+  // Resolves once the connection is set up; callbacks may fire before it resolves
+  connect: (options: LiveConnectOptions, callbacks: LiveTransportCallbacks) => Promise<LiveTransportSession>;
+}
+
+// Adapter over @google/genai's Live client
+export function createGeminiTransport(apiKey: string): LiveTransport {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    name: 'gemini',
+    connect: ({ model, config }, callbacks) =>
+      ai.live.connect({
+        model,
+        config,
+        callbacks: {
+          onopen: callbacks.onOpen,
+          onmessage: callbacks.onMessage,
+          onclose: (e: CloseEvent) => callbacks.onClose({ code: e?.code, reason: e?.reason }),
+          onerror: (e: ErrorEvent) => callbacks.onError(e?.error instanceof Error ? e.error : new Error(e?.message || "Connection lost")),
+        },
+      }),
+  };
+}
@@ -0,0 +1,135 @@
+// Recorded-style LiveServerMessage sequences for the mock transport.
+// Select one with ?transport=mock&script=<name>.
+
+import { LiveServerMessage } from '@google/genai';
+import { MockScript, MockStep } from './mockLiveTransport';
+import { arrayBufferToBase64, floatTo16BitPcm } from './audio';
+
+const MODEL_RATE = 24000;
+
+const input = (text: string, delayMs = 150): MockStep => ({ delayMs, message: { serverContent: { inputTranscription: { text } } } });
+const output = (text: string, delayMs = 120): MockStep => ({ delayMs, message: { serverContent: { outputTranscription: { text } } } });
+const turnComplete = (delayMs = 100): MockStep => ({ delayMs, message: { serverContent: { turnComplete: true } } });
+const interrupted = (delayMs = 0): MockStep => ({ delayMs, message: { serverContent: { interrupted: true } } });
+
+// A quiet tone standing in for synthesized speech
+function audio(durationMs: number, frequency = 220, delayMs = 0): MockStep {
+  const samples = new Float32Array(Math.round((durationMs / 1000) * MODEL_RATE));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = 0.1 * Math.sin((2 * Math.PI * frequency * i) / MODEL_RATE);
+  }
+  const data = arrayBufferToBase64(floatTo16BitPcm(samples).buffer as ArrayBuffer);
+  const message: Partial<LiveServerMessage> = {
+    serverContent: { modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${MODEL_RATE}`, data } }] } },
+  };
+  return { delayMs, message };
+}
+
+// One spoken turn: source deltas, then translated deltas interleaved with audio
+function turn(source: string[], translation: string[]): MockStep[] {
+  return [
+    { waitFor: 'audio' },
+    ...source.map(text => input(text)),
+    ...translation.flatMap(text => [output(text), audio(400)]),
+    turnComplete(),
+  ];
+}
+
+export const MOCK_SCRIPTS: Record<string, MockScript> = {
+  translation: {
+    name: 'translation',
+    description: 'Two translated turns with audio',
+    steps: [
+      ...turn(['Hello, ', 'how are you today?'], ['你好，', '你今天好吗？']),
+      ...turn(['Let us review ', 'the quarterly numbers.'], ['我们来回顾一下', '季度数据。']),
+    ],
+  },
+  interruption: {
+    name: 'interruption',
+    description: 'A long answer cut off by the user, then a fresh turn',
+    steps: [
+      ...turn(['Tell me about the roadmap.'], ['路线图包括', '三个阶段，', '第一阶段']).slice(0, -1),
+      audio(1500),
+      input('Wait, stop.', 300),
+      interrupted(),
+      turnComplete(),
+      ...turn(['Just the first phase, please.'], ['请只说第一阶段。']),
+    ],
+  },
+  'tool-call': {
+    name: 'tool-call',
+    description: 'The model calls render_image and waits for the tool response',
+    steps: [
+      { waitFor: 'audio' },
+      input('Draw a cat wearing a hat.'),
+      { delayMs: 200, message: { toolCall: { functionCalls: [{ id: 'mock-call-1', name: 'render_image', args: { prompt: 'A cat wearing a hat' } }] } } },
+      { waitFor: 'toolResponse' },
+      output('Here is your cat.'),
+      audio(600),
+      turnComplete(),
+    ],
+  },
+  'unknown-tool': {
+    name: 'unknown-tool',
+    description: 'The model calls a tool the client does not have and waits for the error reply',
+    steps: [
+      { waitFor: 'audio' },
+      input('What is the weather in Paris?'),
+      { delayMs: 200, message: { toolCall: { functionCalls: [{ id: 'mock-call-2', name: 'get_weather', args: { city: 'Paris' } }] } } },
+      { waitFor: 'toolResponse' },
+      output('Sorry, I cannot look up the weather.'),
+      audio(600),
+      turnComplete(),
+    ],
+  },
+  typed: {
+    name: 'typed',
+    description: 'A typed message answered with a text reply and audio',
+    steps: [
+      { waitFor: 'clientContent' },
+      output('Le train part à '),
+      audio(400),
+      output('huit heures.'),
+      audio(400),
+      turnComplete(),
+    ],
+  },
+  camera: {
+    name: 'camera',
+    description: 'The model waits for a camera or screen frame and describes it',
+    steps: [
+      { waitFor: 'video' },
+      output('I can see a menu. '),
+      audio(400),
+      output('The first dish is grilled fish.'),
+      audio(600),
+      turnComplete(),
+    ],
+  },
+  drop: {
+    name: 'drop',
+    description: 'One turn, then a network error to exercise reconnection',
+    steps: [
+      ...turn(['Testing the connection.'], ['正在测试连接。']),
+      { delayMs: 1000, error: 'Mock network failure' },
+    ],
+  },
+  'go-away': {
+    name: 'go-away',
+    description: 'Issues a resumption handle, then announces a go-away before closing',
+    steps: [
+      { message: { sessionResumptionUpdate: { newHandle: 'mock-handle', resumable: true } } },
+      ...turn(['Are you still there?'], ['你还在吗？']),
+      { delayMs: 1000, message: { goAway: { timeLeft: '5s' } } },
+      { delayMs: 5000, close: { code: 1000, reason: 'Mock connection lifetime reached' } },
+    ],
+  },
+  'server-close': {
+    name: 'server-close',
+    description: 'One turn, then the server closes the socket',
+    steps: [
+      ...turn(['One more thing.'], ['还有一件事。']),
+      { delayMs: 1000, close: { code: 1011, reason: 'Mock server shutdown' } },
+    ],
+  },
+};
@@ -0,0 +1,130 @@
+// Scriptable in-process stand-in for the Live API.
+//
+// A MockScript is a list of steps replayed against the client: server messages
+// (transcription deltas, turnComplete, interrupted, toolCall, audio parts),
+// closes and errors, each after an optional delay, plus waits that pause the
+// script until the client sends something (first audio chunk, activityEnd, a
+// tool response...). Everything the client sends is kept in `sent` so tests can
+// assert on the uplink.
+
+import { LiveServerMessage, LiveSendRealtimeInputParameters, LiveSendClientContentParameters, LiveSendToolResponseParameters } from '@google/genai';
+import { LiveConnectOptions, LiveTransport, LiveTransportCallbacks, LiveTransportSession } from './liveTransport';
+
+// Client events a script can wait for
+export type MockClientEvent = 'audio' | 'video' | 'activityStart' | 'activityEnd' | 'audioStreamEnd' | 'clientContent' | 'toolResponse';
+
+export type MockStep =
+  | { delayMs?: number; message: Partial<LiveServerMessage> }
+  | { delayMs?: number; close: { code?: number; reason?: string } }
+  | { delayMs?: number; error: string }
+  | { waitFor: MockClientEvent };
+
+export interface MockScript {
+  name: string;
+  description: string;
+  steps: MockStep[];
+}
+
+export type MockSentEvent =
+  | { kind: 'realtimeInput'; params: LiveSendRealtimeInputParameters }
+  | { kind: 'clientContent'; params: LiveSendClientContentParameters }
+  | { kind: 'toolResponse'; params: LiveSendToolResponseParameters };
+
+export interface MockTransportOptions {
+  openDelayMs?: number; // Simulated handshake time
+  failConnects?: number; // Reject this many connect() calls before succeeding
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const clientEventsOf = (params: LiveSendRealtimeInputParameters): MockClientEvent[] => {
+  const events: MockClientEvent[] = [];
+  if (params.media || params.audio) events.push('audio');
+  if (params.video) events.push('video');
+  if (params.activityStart) events.push('activityStart');
+  if (params.activityEnd) events.push('activityEnd');
+  if (params.audioStreamEnd) events.push('audioStreamEnd');
+  return events;
+};
+
+export class MockLiveTransport implements LiveTransport {
+  readonly name = 'mock';
+  readonly sent: MockSentEvent[] = [];
+  readonly connections: LiveConnectOptions[] = [];
+  private failuresLeft: number;
+
+  constructor(private script: MockScript, private options: MockTransportOptions = {}) {
+    this.failuresLeft = options.failConnects ?? 0;
+  }
+
+  async connect(options: LiveConnectOptions, callbacks: LiveTransportCallbacks): Promise<LiveTransportSession> {
+    this.connections.push(options);
+    await sleep(this.options.openDelayMs ?? 50);
+    if (this.failuresLeft > 0) {
+      this.failuresLeft--;
+      throw new Error("Mock transport: connection refused");
+    }
+
+    let closed = false;
+    const waiters = new Map<MockClientEvent, () => void>();
+    const notify = (event: MockClientEvent) => {
+      waiters.get(event)?.();
+      waiters.delete(event);
+    };
+    const finish = (info: { code?: number; reason?: string }) => {
+      if (closed) return;
+      closed = true;
+      // Release a pending wait so the script loop sees the close and stops
+      waiters.forEach(resolve => resolve());
+      waiters.clear();
+      callbacks.onClose(info);
+    };
+    const assertOpen = () => {
+      if (closed) throw new Error("Mock transport: connection is closed");
+    };
+
+    const session: LiveTransportSession = {
+      sendRealtimeInput: params => {
+        assertOpen();
+        this.sent.push({ kind: 'realtimeInput', params });
+        clientEventsOf(params).forEach(notify);
+      },
+      sendClientContent: params => {
+        assertOpen();
+        this.sent.push({ kind: 'clientContent', params });
+        notify('clientContent');
+      },
+      sendToolResponse: params => {
+        assertOpen();
+        this.sent.push({ kind: 'toolResponse', params });
+        notify('toolResponse');
+      },
+      close: () => finish({ code: 1000, reason: 'Closed by client' }),
+    };
+
+    const run = async () => {
+      for (const step of this.script.steps) {
+        if (closed) return;
+        if ('waitFor' in step) {
+          await new Promise<void>(resolve => waiters.set(step.waitFor, resolve));
+          continue;
+        }
+        if (step.delayMs) await sleep(step.delayMs);
+        if (closed) return;
+
+        if ('message' in step) {
+          callbacks.onMessage(Object.assign(new LiveServerMessage(), step.message));
+        } else if ('error' in step) {
+          callbacks.onError(new Error(step.error));
+        } else {
+          finish(step.close);
+        }
+      }
+    };
+
+    // Like the real client, onopen fires before connect() resolves
+    callbacks.onOpen();
+    setTimeout(() => run().catch(e => console.error("Mock script failed", e)), 0);
+    return session;
+  }
+}
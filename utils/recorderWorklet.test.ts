@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { resample } from './resampler';
+import { WorkletMessage } from './audio';
+
+const INPUT_RATE = 48000;
+const RENDER_QUANTUM = 128;
+
+// Stand-in for AudioWorkletGlobalScope; the processor posts to this port
+class FakeProcessor {
+  port = { postMessage: vi.fn(), onmessage: null as ((event: { data: unknown }) => void) | null };
+}
+
+let Processor: new () => FakeProcessor & { process: (inputs: Float32Array[][]) => boolean };
+
+describe('RecorderProcessor', () => {
+  beforeAll(async () => {
+    vi.stubGlobal('sampleRate', INPUT_RATE);
+    vi.stubGlobal('AudioWorkletProcessor', FakeProcessor);
+    vi.stubGlobal('registerProcessor', (name: string, ctor: typeof Processor) => {
+      if (name === 'recorder-processor') Processor = ctor;
+    });
+    await import('./recorderWorklet');
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('posts 2048-sample chunks of the resampled input', () => {
+    const processor = new Processor();
+    const input = new Float32Array(INPUT_RATE);
+    for (let i = 0; i < input.length; i++) input[i] = 0.5 * Math.sin((2 * Math.PI * 440 * i) / INPUT_RATE);
+
+    for (let offset = 0; offset < input.length; offset += RENDER_QUANTUM) {
+      processor.process([[input.subarray(offset, offset + RENDER_QUANTUM)]]);
+    }
+    processor.port.onmessage?.({ data: { type: 'flush' } });
+
+    const messages = processor.port.postMessage.mock.calls.map(([message]) => message as WorkletMessage);
+    const chunks = messages.flatMap(message => (message.type === 'audio' ? [message.samples] : []));
+    expect(chunks.slice(0, -1).every(chunk => chunk.length === 2048)).toBe(true);
+    expect(messages.at(-1)).toEqual({ type: 'flushed' });
+
+    // Speech flags and VAD flips come along, but the samples are exactly the resampler's output
+    const expected = resample(input, INPUT_RATE, 16000);
+    const received = new Float32Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    chunks.reduce((offset, chunk) => (received.set(chunk, offset), offset + chunk.length), 0);
+    expect(received).toEqual(expected);
+    expect(messages).toContainEqual({ type: 'vad', speaking: true });
+  });
+});
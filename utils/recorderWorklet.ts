@@ -0,0 +1,75 @@
+// AudioWorklet processor that turns mic input into 16 kHz chunks for the uplink.
+//
+// Loaded with audioWorklet.addModule(RECORDER_WORKLET_URL); Vite bundles it with
+// the resampler and VAD it imports, so the worklet runs the same code the unit
+// tests cover.
+//
+// Messages posted to the main thread:
+//   { type: 'audio', samples: Float32Array, speech: boolean }  every 2048 samples at 16kHz
+//   { type: 'vad', speaking: boolean }                         when the detector flips
+//   { type: 'flushed' }                                        after a requested flush
+// Messages accepted:
+//   { type: 'vad-config', thresholdDb, hangoverMs }
+//   { type: 'flush' }  post the partially filled buffer now
+
+import { StreamingResampler } from './resampler';
+import { DEFAULT_VAD_SETTINGS, VoiceActivityDetector } from './vad';
+
+// AudioWorkletGlobalScope, which the DOM typings don't describe
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processorCtor: new () => AudioWorkletProcessor): void;
+
+const TARGET_SAMPLE_RATE = 16000;
+const CHUNK_SIZE = 2048; // ~128ms at 16kHz
+
+export class RecorderProcessor extends AudioWorkletProcessor {
+  private buffer = new Float32Array(CHUNK_SIZE);
+  private bufferIndex = 0;
+  private resampler = new StreamingResampler(sampleRate, TARGET_SAMPLE_RATE);
+  private vad = new VoiceActivityDetector(TARGET_SAMPLE_RATE, DEFAULT_VAD_SETTINGS);
+  private wasSpeaking = false;
+
+  constructor() {
+    super();
+    this.port.onmessage = (event) => {
+      if (!event.data) return;
+      if (event.data.type === 'vad-config') {
+        this.vad.configure(event.data);
+      } else if (event.data.type === 'flush') {
+        this.flush();
+        this.port.postMessage({ type: 'flushed' });
+      }
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    // If no input or empty channels, keep processor alive but do nothing
+    const channelData = inputs[0]?.[0];
+    if (!channelData) return true;
+
+    // Low-pass and resample to 16kHz, carrying filter state across calls
+    const samples = this.resampler.process(channelData);
+    for (let i = 0; i < samples.length; i++) {
+      this.buffer[this.bufferIndex++] = samples[i];
+      if (this.bufferIndex >= CHUNK_SIZE) this.flush();
+    }
+    return true;
+  }
+
+  private flush() {
+    if (this.bufferIndex === 0) return;
+    const data = this.buffer.slice(0, this.bufferIndex);
+    const speech = this.vad.process(data);
+    this.port.postMessage({ type: 'audio', samples: data, speech }, [data.buffer]);
+    if (this.vad.isSpeaking !== this.wasSpeaking) {
+      this.wasSpeaking = this.vad.isSpeaking;
+      this.port.postMessage({ type: 'vad', speaking: this.wasSpeaking });
+    }
+    this.bufferIndex = 0;
+  }
+}
+
+registerProcessor('recorder-processor', RecorderProcessor);
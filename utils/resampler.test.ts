@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { StreamingResampler, resample } from './resampler';
+
+const OUTPUT_RATE = 16000;
+const INPUT_RATES = [22050, 32000, 44100, 48000, 96000];
+
+const tone = (frequency: number, rate: number, seconds: number) => {
+  const samples = new Float32Array(Math.round(rate * seconds));
+  for (let i = 0; i < samples.length; i++) samples[i] = Math.sin((2 * Math.PI * frequency * i) / rate);
+  return samples;
+};
+
+const rms = (samples: Float32Array) => Math.sqrt(samples.reduce((sum, x) => sum + x * x, 0) / samples.length);
+
+// Feed the input in uneven blocks, like the worklet's render quanta after a device switch
+function resampleInBlocks(input: Float32Array, inputRate: number, blockSizes: number[]): Float32Array {
+  const resampler = new StreamingResampler(inputRate, OUTPUT_RATE);
+  const parts: Float32Array[] = [];
+  for (let offset = 0, i = 0; offset < input.length; i++) {
+    const size = blockSizes[i % blockSizes.length];
+    parts.push(resampler.process(input.subarray(offset, offset + size)));
+    offset += size;
+  }
+  const out = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0));
+  parts.reduce((offset, part) => (out.set(part, offset), offset + part.length), 0);
+  return out;
+}
+
+describe('StreamingResampler', () => {
+  it.each(INPUT_RATES)('produces the exact long-run sample count from %i Hz', inputRate => {
+    const input = tone(440, inputRate, 2);
+    const out = resampleInBlocks(input, inputRate, [128, 127, 500, 1, 4096]);
+    const expected = (input.length - 1) * OUTPUT_RATE / inputRate;
+    expect(Math.abs(out.length - expected)).toBeLessThanOrEqual(1);
+  });
+
+  it.each(INPUT_RATES)('gives the same output for any block size from %i Hz', inputRate => {
+    const input = tone(1000, inputRate, 0.5);
+    const whole = resample(input, inputRate, OUTPUT_RATE);
+    const blocks = resampleInBlocks(input, inputRate, [128, 37, 1000]);
+    expect(blocks.length).toBe(whole.length);
+    for (let i = 0; i < whole.length; i++) expect(blocks[i]).toBeCloseTo(whole[i], 4);
+  });
+
+  it.each(INPUT_RATES)('passes a 1 kHz tone from %i Hz', inputRate => {
+    const out = resample(tone(1000, inputRate, 1), inputRate, OUTPUT_RATE);
+    // Skip the filter's start-up transient
+    expect(rms(out.subarray(OUTPUT_RATE / 10))).toBeCloseTo(Math.SQRT1_2, 2);
+  });
+
+  it.each(INPUT_RATES.filter(rate => rate > OUTPUT_RATE))('removes tones above the output Nyquist from %i Hz', inputRate => {
+    const nyquist = OUTPUT_RATE / 2;
+    for (let frequency = nyquist + 500; frequency < inputRate / 2; frequency += 500) {
+      const out = resample(tone(frequency, inputRate, 0.5), inputRate, OUTPUT_RATE);
+      // At least 60 dB below the input tone
+      expect(rms(out.subarray(OUTPUT_RATE / 10)), `${frequency} Hz`).toBeLessThan(Math.SQRT1_2 / 1000);
+    }
+  });
+
+  it('keeps every sample when the rates match', () => {
+    const input = tone(440, OUTPUT_RATE, 0.1);
+    expect(resample(input, OUTPUT_RATE, OUTPUT_RATE)).toEqual(input);
+  });
+});
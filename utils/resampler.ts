@@ -0,0 +1,113 @@
+// Streaming anti-aliased resampler.
+//
+// Input is low-pass filtered with a windowed-sinc FIR (cutoff just below the
+// output Nyquist) and then linearly interpolated at fractional positions. Filter
+// history and the fractional read position carry over between process() calls,
+// so feeding a signal in arbitrary block sizes yields the same output as feeding
+// it in one go, and the long-run sample count is exact for non-integer ratios.
+
+// Passband edge as a fraction of the output Nyquist frequency
+const CUTOFF_RATIO = 0.9;
+// Width of the filter's transition band as a fraction of the output Nyquist
+const TRANSITION_RATIO = 0.2;
+
+// Blackman-windowed sinc low-pass, normalised to unity gain at DC
+export function designLowPass(inputRate: number, outputRate: number): Float32Array {
+  // Upsampling (or equal rates) has no content above the output Nyquist to remove
+  if (outputRate >= inputRate) return new Float32Array([1]);
+
+  const nyquist = outputRate / 2;
+  const cutoff = (nyquist * CUTOFF_RATIO) / inputRate; // cycles per input sample
+  const transition = (nyquist * TRANSITION_RATIO) / inputRate;
+  // Blackman main lobe is ~5.5/N wide; force an odd length for a symmetric, linear-phase filter
+  const taps = Math.ceil(5.5 / transition) | 1;
+  const mid = (taps - 1) / 2;
+
+  const coeffs = new Float32Array(taps);
+  let sum = 0;
+  for (let k = 0; k < taps; k++) {
+    const x = k - mid;
+    const sinc = x === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * x) / (Math.PI * x);
+    const window = 0.42 - 0.5 * Math.cos((2 * Math.PI * k) / (taps - 1)) + 0.08 * Math.cos((4 * Math.PI * k) / (taps - 1));
+    coeffs[k] = sinc * window;
+    sum += coeffs[k];
+  }
+  for (let k = 0; k < taps; k++) coeffs[k] /= sum;
+  return coeffs;
+}
+
+export class StreamingResampler {
+  readonly inputRate: number;
+  readonly outputRate: number;
+  private readonly step: number; // Input samples advanced per output sample
+  private readonly coeffs: Float32Array;
+  private readonly history: Float32Array; // Last (taps - 1) input samples
+  private buffer = new Float32Array(0); // history + current block
+  private position = 0; // Next output position relative to the current block, in [-1, ...)
+  private prevFiltered = 0; // Filtered value of the previous block's last sample
+
+  constructor(inputRate: number, outputRate: number) {
+    this.inputRate = inputRate;
+    this.outputRate = outputRate;
+    this.step = inputRate / outputRate;
+    this.coeffs = designLowPass(inputRate, outputRate);
+    this.history = new Float32Array(this.coeffs.length - 1);
+  }
+
+  // FIR output at index i of the current block (i = -1 is the previous block's last sample)
+  private filteredAt(i: number): number {
+    if (i < 0) return this.prevFiltered;
+    const coeffs = this.coeffs;
+    const base = i + this.history.length;
+    let acc = 0;
+    for (let k = 0; k < coeffs.length; k++) {
+      acc += coeffs[k] * this.buffer[base - k];
+    }
+    return acc;
+  }
+
+  process(input: Float32Array): Float32Array {
+    const n = input.length;
+    if (n === 0) return new Float32Array(0);
+
+    const hist = this.history.length;
+    if (this.buffer.length < hist + n) {
+      this.buffer = new Float32Array(hist + n);
+    }
+    this.buffer.set(this.history, 0);
+    this.buffer.set(input, hist);
+
+    const out = new Float32Array(Math.ceil((n - this.position) / this.step) + 1);
+    let count = 0;
+    let pos = this.position;
+
+    // Interpolation needs the sample after idx, so stop short of the block's last sample;
+    // a position landing exactly on it is picked up next block as index -1
+    while (pos < n - 1) {
+      const idx = Math.floor(pos);
+      const frac = pos - idx;
+      const a = this.filteredAt(idx);
+      const b = frac > 0 ? this.filteredAt(idx + 1) : a;
+      out[count++] = a + (b - a) * frac;
+      pos += this.step;
+    }
+
+    this.position = pos - n;
+    this.prevFiltered = this.filteredAt(n - 1);
+    this.history.set(this.buffer.subarray(n, n + hist));
+
+    return out.subarray(0, count);
+  }
+
+  reset() {
+    this.history.fill(0);
+    this.position = 0;
+    this.prevFiltered = 0;
+  }
+}
+
+// One-shot convenience for whole buffers
+export function resample(input: Float32Array, inputRate: number, outputRate: number): Float32Array {
+  if (inputRate === outputRate) return input.slice();
+  return new StreamingResampler(inputRate, outputRate).process(input).slice();
+}
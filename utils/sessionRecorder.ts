@@ -0,0 +1,276 @@
+import { RecordingMeta, RecordingTrack } from '../types';
+import { STORES, openDb, promisifyRequest, withStore } from './db';
+import { createWavHeader, floatTo16BitPcm } from './audio';
+
+export const MIC_SAMPLE_RATE = 16000;
+export const MODEL_SAMPLE_RATE = 24000;
+
+// Gaps on the wall clock longer than this (e.g. a reconnect) are kept as silence;
+// shorter ones are treated as scheduling jitter and the track stays contiguous
+const GAP_TOLERANCE_MS = 250;
+// Pending samples are flushed to IndexedDB roughly once per second of audio
+const FLUSH_SECONDS = 1;
+// Chunks fetched per IndexedDB read while rendering a WAV
+const READ_BATCH = 16;
+// Output frames rendered per step while building a WAV
+const RENDER_BLOCK_SECONDS = 1;
+
+interface ChunkRecord {
+  recordingId: string;
+  track: RecordingTrack;
+  seq: number;
+  offset: number; // First sample's position on the track timeline
+  samples: Int16Array;
+}
+
+interface TrackState {
+  sampleRate: number;
+  seq: number;
+  end: number; // Timeline position after the last appended sample
+  pending: Float32Array[];
+  pendingLength: number;
+  pendingOffset: number;
+}
+
+const createTrackState = (sampleRate: number): TrackState => ({
+  sampleRate,
+  seq: 0,
+  end: 0,
+  pending: [],
+  pendingLength: 0,
+  pendingOffset: 0,
+});
+
+// Captures mic and model audio for a whole session, streaming it to IndexedDB
+// in small chunks so memory stays flat however long the session runs.
+export class SessionRecorder {
+  readonly id: string;
+  private readonly startedAt = new Date();
+  private readonly startPerf = performance.now();
+  private readonly tracks: Record<RecordingTrack, TrackState> = {
+    mic: createTrackState(MIC_SAMPLE_RATE),
+    model: createTrackState(MODEL_SAMPLE_RATE),
+  };
+  private writes: Promise<unknown>[] = [];
+  private finished = false;
+
+  constructor(id: string) {
+    this.id = id;
+  }
+
+  // Mic PCM straight from the recorder worklet; it has just been captured
+  appendMic(data: Float32Array) {
+    const endMs = performance.now() - this.startPerf;
+    this.append('mic', data, endMs - (data.length / MIC_SAMPLE_RATE) * 1000);
+  }
+
+  // A decoded model buffer that will start playing delaySec from now
+  appendModel(data: Float32Array, delaySec: number) {
+    this.append('model', data, performance.now() - this.startPerf + delaySec * 1000);
+  }
+
+  private append(track: RecordingTrack, data: Float32Array, startMs: number) {
+    if (this.finished || data.length === 0) return;
+    const state = this.tracks[track];
+
+    const wallOffset = Math.round((startMs / 1000) * state.sampleRate);
+    const tolerance = Math.round((GAP_TOLERANCE_MS / 1000) * state.sampleRate);
+    const offset = wallOffset > state.end + tolerance ? wallOffset : state.end;
+
+    // A jump on the timeline starts a new chunk
+    if (offset !== state.end) this.flush(track);
+
+    if (state.pendingLength === 0) state.pendingOffset = offset;
+    state.pending.push(data.slice());
+    state.pendingLength += data.length;
+    state.end = offset + data.length;
+
+    if (state.pendingLength >= state.sampleRate * FLUSH_SECONDS) {
+      this.flush(track);
+    }
+  }
+
+  private flush(track: RecordingTrack) {
+    const state = this.tracks[track];
+    if (state.pendingLength === 0) return;
+
+    const merged = new Float32Array(state.pendingLength);
+    let pos = 0;
+    for (const part of state.pending) {
+      merged.set(part, pos);
+      pos += part.length;
+    }
+
+    const chunk: ChunkRecord = {
+      recordingId: this.id,
+      track,
+      seq: state.seq++,
+      offset: state.pendingOffset,
+      samples: floatTo16BitPcm(merged),
+    };
+    state.pending = [];
+    state.pendingLength = 0;
+
+    this.writes.push(
+      withStore(STORES.audioChunks, 'readwrite', store => store.put(chunk))
+        .catch(e => console.error("Failed to store audio chunk", e))
+    );
+  }
+
+  // Flush everything and store the metadata; resolves to null if nothing was captured
+  async finish(): Promise<RecordingMeta | null> {
+    if (this.finished) return null;
+    this.flush('mic');
+    this.flush('model');
+    this.finished = true;
+    await Promise.all(this.writes);
+    this.writes = [];
+
+    if (this.tracks.mic.end === 0 && this.tracks.model.end === 0) return null;
+
+    const meta: RecordingMeta = {
+      id: this.id,
+      startedAt: this.startedAt,
+      micSampleRate: MIC_SAMPLE_RATE,
+      modelSampleRate: MODEL_SAMPLE_RATE,
+      micLength: this.tracks.mic.end,
+      modelLength: this.tracks.model.end,
+    };
+    await withStore(STORES.recordings, 'readwrite', store => store.put(meta));
+    return meta;
+  }
+}
+
+export async function getRecordingMeta(id: string): Promise<RecordingMeta | undefined> {
+  return withStore<RecordingMeta>(STORES.recordings, 'readonly', store => store.get(id));
+}
+
+export async function deleteRecording(id: string): Promise<void> {
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction([STORES.recordings, STORES.audioChunks], 'readwrite');
+    tx.objectStore(STORES.recordings).delete(id);
+    tx.objectStore(STORES.audioChunks).delete(IDBKeyRange.bound([id, 'mic', 0], [id, 'model', Infinity]));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+// Forward-only reader over one stored track; only the chunks overlapping the
+// current read window are held in memory.
+class TrackCursor {
+  private chunks: ChunkRecord[] = [];
+  private nextSeq = 0;
+  private exhausted = false;
+
+  constructor(private recordingId: string, private track: RecordingTrack) {}
+
+  private async loadMore() {
+    const db = await openDb();
+    const tx = db.transaction(STORES.audioChunks, 'readonly');
+    const range = IDBKeyRange.bound(
+      [this.recordingId, this.track, this.nextSeq],
+      [this.recordingId, this.track, Infinity]
+    );
+    const batch = await promisifyRequest<ChunkRecord[]>(tx.objectStore(STORES.audioChunks).getAll(range, READ_BATCH));
+    if (batch.length < READ_BATCH) this.exhausted = true;
+    if (batch.length > 0) this.nextSeq = batch[batch.length - 1].seq + 1;
+    this.chunks.push(...batch);
+  }
+
+  // Samples [start, start + length) as floats; silence where nothing was recorded
+  async read(start: number, length: number): Promise<Float32Array> {
+    const end = start + length;
+    this.chunks = this.chunks.filter(c => c.offset + c.samples.length > start);
+    while (!this.exhausted && (this.chunks.length === 0 || this.lastEnd() < end)) {
+      await this.loadMore();
+    }
+
+    const out = new Float32Array(length);
+    for (const chunk of this.chunks) {
+      const from = Math.max(start, chunk.offset);
+      const to = Math.min(end, chunk.offset + chunk.samples.length);
+      for (let pos = from; pos < to; pos++) {
+        out[pos - start] = chunk.samples[pos - chunk.offset] / 32768;
+      }
+    }
+    return out;
+  }
+
+  private lastEnd() {
+    const last = this.chunks[this.chunks.length - 1];
+    return last.offset + last.samples.length;
+  }
+}
+
+// Linear interpolation of a sample at a fractional index
+const sampleAt = (data: Float32Array, index: number) => {
+  const i = Math.floor(index);
+  const frac = index - i;
+  const a = data[i] ?? 0;
+  const b = data[i + 1] ?? a;
+  return a + (b - a) * frac;
+};
+
+async function renderWav(
+  numChannels: number,
+  sampleRate: number,
+  totalFrames: number,
+  renderBlock: (start: number, frames: number) => Promise<Float32Array[]>
+): Promise<Blob> {
+  const parts: Blob[] = [];
+  const blockFrames = sampleRate * RENDER_BLOCK_SECONDS;
+
+  for (let start = 0; start < totalFrames; start += blockFrames) {
+    const frames = Math.min(blockFrames, totalFrames - start);
+    const channels = await renderBlock(start, frames);
+    const interleaved = new Float32Array(frames * numChannels);
+    for (let i = 0; i < frames; i++) {
+      for (let ch = 0; ch < numChannels; ch++) {
+        interleaved[i * numChannels + ch] = channels[ch][i];
+      }
+    }
+    // Wrap each block at once so the browser can move it out of the JS heap
+    parts.push(new Blob([floatTo16BitPcm(interleaved)]));
+  }
+
+  const dataSize = totalFrames * numChannels * 2;
+  return new Blob([createWavHeader(numChannels, sampleRate, dataSize), ...parts], { type: 'audio/wav' });
+}
+
+// One side of the session as a mono WAV at its native rate, aligned to session start
+export async function renderTrackWav(id: string, track: RecordingTrack): Promise<Blob> {
+  const meta = await getRecordingMeta(id);
+  if (!meta) throw new Error("Recording not found");
+
+  const sampleRate = track === 'mic' ? meta.micSampleRate : meta.modelSampleRate;
+  const length = track === 'mic' ? meta.micLength : meta.modelLength;
+  const cursor = new TrackCursor(id, track);
+
+  return renderWav(1, sampleRate, length, async (start, frames) => [await cursor.read(start, frames)]);
+}
+
+// Mic on the left channel, model on the right, both at the model's sample rate
+export async function renderStereoMixWav(id: string): Promise<Blob> {
+  const meta = await getRecordingMeta(id);
+  if (!meta) throw new Error("Recording not found");
+
+  const outRate = meta.modelSampleRate;
+  const micRatio = meta.micSampleRate / outRate;
+  const totalFrames = Math.max(Math.ceil(meta.micLength / micRatio), meta.modelLength);
+  const micCursor = new TrackCursor(id, 'mic');
+  const modelCursor = new TrackCursor(id, 'model');
+
+  return renderWav(2, outRate, totalFrames, async (start, frames) => {
+    const micStart = Math.floor(start * micRatio);
+    // One extra sample so interpolation at the block edge has a neighbour
+    const micSpan = Math.ceil(frames * micRatio) + 1;
+    const micData = await micCursor.read(micStart, micSpan);
+    const left = new Float32Array(frames);
+    for (let i = 0; i < frames; i++) {
+      left[i] = sampleAt(micData, (start + i) * micRatio - micStart);
+    }
+    const right = await modelCursor.read(start, frames);
+    return [left, right];
+  });
+}
@@ -0,0 +1,104 @@
+import { SessionRecord, SessionSummary } from '../types';
+import { STORES, openDb, promisifyRequest, withStore } from './db';
+import { deleteRecording } from './sessionRecorder';
+
+const SNIPPET_RADIUS = 40;
+
+export function createSessionId(): string {
+  return `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Default title for a freshly recorded session, e.g. "Session · 3/14/2025, 10:02 AM"
+export function defaultSessionTitle(startedAt: Date): string {
+  return `Session · ${startedAt.toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}`;
+}
+
+export async function saveSession(record: SessionRecord): Promise<void> {
+  await withStore(STORES.sessions, 'readwrite', store => store.put(record));
+}
+
+// Sessions archived before items carried offsets get them derived from their timestamps
+function normaliseRecord(record: SessionRecord): SessionRecord {
+  const startMs = record.startedAt.getTime();
+  return {
+    ...record,
+    items: record.items.map(item => {
+      if (typeof item.startOffsetMs === 'number' && typeof item.endOffsetMs === 'number') return item;
+      const offset = Math.max(0, item.timestamp.getTime() - startMs);
+      return { ...item, startOffsetMs: offset, endOffsetMs: offset };
+    }),
+  };
+}
+
+export async function getSession(id: string): Promise<SessionRecord | undefined> {
+  const record = await withStore<SessionRecord>(STORES.sessions, 'readonly', store => store.get(id));
+  return record ? normaliseRecord(record) : undefined;
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  const record = await getSession(id);
+  await withStore(STORES.sessions, 'readwrite', store => store.delete(id));
+  if (record?.recordingId) await deleteRecording(record.recordingId);
+}
+
+export async function renameSession(id: string, title: string): Promise<void> {
+  const record = await getSession(id);
+  if (!record) return;
+  await saveSession({ ...record, title: title.trim() || record.title });
+}
+
+function toSummary(record: SessionRecord, snippet?: string): SessionSummary {
+  return {
+    id: record.id,
+    title: record.title,
+    targetLang: record.targetLang,
+    startedAt: record.startedAt,
+    endedAt: record.endedAt,
+    itemCount: record.items.length,
+    interpreterPair: record.interpreterPair,
+    snippet,
+  };
+}
+
+// Build a short excerpt around the first occurrence of the query
+function makeSnippet(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
+
+function matchRecord(record: SessionRecord, terms: string[]): string | null {
+  const haystacks = [record.title, ...record.items.map(item => item.text)];
+  const lowered = haystacks.map(h => h.toLowerCase());
+
+  // Every term must appear somewhere in the session
+  if (!terms.every(term => lowered.some(h => h.includes(term)))) return null;
+
+  // Prefer a snippet from the transcript over the title
+  for (let i = 1; i < haystacks.length; i++) {
+    const idx = lowered[i].indexOf(terms[0]);
+    if (idx !== -1) return makeSnippet(haystacks[i], idx, terms[0].length);
+  }
+  return '';
+}
+
+// List sessions newest first, optionally filtered by a full-text query
+export async function listSessions(query = ''): Promise<SessionSummary[]> {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const db = await openDb();
+  const tx = db.transaction(STORES.sessions, 'readonly');
+  const records = await promisifyRequest<SessionRecord[]>(
+    tx.objectStore(STORES.sessions).index('startedAt').getAll()
+  );
+
+  const summaries: SessionSummary[] = [];
+  for (const record of records.reverse()) {
+    if (terms.length === 0) {
+      summaries.push(toSummary(record));
+      continue;
+    }
+    const snippet = matchRecord(record, terms);
+    if (snippet !== null) summaries.push(toSummary(record, snippet || undefined));
+  }
+  return summaries;
+}
@@ -0,0 +1,27 @@
+// Small localStorage helpers for user preferences that survive reloads
+
+const PREFIX = 'linguaflow:';
+
+export function loadSetting<T>(key: string, defaults: T): T {
+  try {
+    const raw = localStorage.getItem(PREFIX + key);
+    if (raw === null) return defaults;
+    const parsed = JSON.parse(raw);
+    // Merge objects so settings added in later versions pick up their defaults
+    if (defaults && typeof defaults === 'object' && !Array.isArray(defaults)) {
+      return { ...defaults, ...parsed };
+    }
+    return parsed as T;
+  } catch (e) {
+    console.warn(`Ignoring unreadable setting "${key}"`, e);
+    return defaults;
+  }
+}
+
+export function saveSetting<T>(key: string, value: T): void {
+  try {
+    localStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch (e) {
+    console.warn(`Could not save setting "${key}"`, e);
+  }
+}
@@ -0,0 +1,75 @@
+// Presentation-mode subtitles: turns the transcript and its live partials into
+// a few rolling caption cues, and keeps pop-out caption windows in sync with
+// the main window over a BroadcastChannel.
+
+import { SubtitleCue, SubtitleSettings, TranscriptItem } from '../types';
+
+export const DEFAULT_SUBTITLE_SETTINGS: SubtitleSettings = {
+  fontSize: 48,
+  lineCount: 2,
+  textColor: '#ffffff',
+  sourceColor: '#94a3b8',
+  backgroundColor: '#000000',
+  chromaKey: false,
+  chromaColor: '#00ff00',
+  stacking: 'source-above',
+};
+
+export const SOURCE_FONT_SCALE = 0.6;
+
+// Items further back than this can never reach the screen
+const MAX_SCANNED_ITEMS = 60;
+
+const CHANNEL_NAME = 'linguaflow:subtitles';
+
+export type SubtitleMessage =
+  | { type: 'update'; cues: SubtitleCue[]; settings: SubtitleSettings }
+  | { type: 'sync' }; // A pop-out window asking for the current captions
+
+export const isSubtitleChannelSupported = typeof BroadcastChannel !== 'undefined';
+
+// The latest cues to show: each user turn paired with the model turn that answers it,
+// then whatever is still being heard or spoken
+export function buildSubtitleCues(
+  items: TranscriptItem[],
+  currentInput: string,
+  currentOutput: string,
+  settings: SubtitleSettings
+): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  for (const item of items.slice(-MAX_SCANNED_ITEMS)) {
+    if (item.role === 'system' || item.image || item.imageId || item.imageStatus || !item.text.trim()) continue;
+    const last = cues[cues.length - 1];
+    if (item.role === 'model' && last && !last.translation) {
+      last.translation = item.text;
+    } else {
+      cues.push({ id: item.id, ...(item.role === 'user' ? { source: item.text } : { translation: item.text }), partial: false });
+    }
+  }
+  if (currentInput || currentOutput) {
+    cues.push({ id: 'partial', source: currentInput || undefined, translation: currentOutput || undefined, partial: true });
+  }
+
+  // Cues with nothing in the visible role would show as blank lines
+  const visible = cues.filter(cue => (settings.stacking === 'translation' ? cue.translation
+    : settings.stacking === 'source' ? cue.source
+    : cue.source || cue.translation));
+  return visible.slice(-settings.lineCount);
+}
+
+export function openSubtitleChannel(onMessage: (message: SubtitleMessage) => void) {
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<SubtitleMessage>) => onMessage(event.data);
+  return {
+    post: (message: SubtitleMessage) => channel.postMessage(message),
+    close: () => channel.close(),
+  };
+}
+
+// A captions-only window of this app, for a projector or a second screen
+export function openSubtitleWindow(): Window | null {
+  const url = new URL(window.location.href);
+  url.search = '?view=subtitles';
+  url.hash = '';
+  return window.open(url.toString(), 'linguaflow-subtitles', 'popup,width=1280,height=400');
+}
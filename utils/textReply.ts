@@ -0,0 +1,18 @@
+// One-off text replies for messages typed while no Live session is connected.
+
+import { GoogleGenAI } from '@google/genai';
+
+const TEXT_MODEL = 'gemini-2.5-flash';
+
+// Stream the answer to a typed message under the same instruction a Live session would use
+export async function* streamTextReply(apiKey: string, text: string, systemInstruction: string): AsyncGenerator<string> {
+  const ai = new GoogleGenAI({ apiKey });
+  const stream = await ai.models.generateContentStream({
+    model: TEXT_MODEL,
+    contents: text,
+    config: { systemInstruction },
+  });
+  for await (const chunk of stream) {
+    if (chunk.text) yield chunk.text;
+  }
+}
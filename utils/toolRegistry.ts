@@ -0,0 +1,114 @@
+// Function-calling tools offered to the Live model.
+//
+// Each tool pairs its FunctionDeclaration with an async handler, a timeout and
+// an optional transcript renderer. ToolRegistry.invoke always produces a
+// response for the model: unknown tools, failures and timeouts become error
+// replies, so a call never leaves the model waiting.
+
+import { FunctionCall, FunctionDeclaration } from '@google/genai';
+import { ImageStatus, TranscriptItem } from '../types';
+
+const DEFAULT_TOOL_TIMEOUT_MS = 15000;
+
+// What a tool shows in the transcript; system entries render as inline notices
+export interface ToolTranscriptEntry {
+  role?: 'model' | 'system';
+  text: string;
+  imageId?: string; // Image in the image store
+  imageStatus?: ImageStatus;
+  imageError?: string;
+}
+
+export interface ToolContext {
+  signal: AbortSignal; // Aborted on timeout, cancellation or session end
+  sessionId: string;
+  sessionItems: () => TranscriptItem[]; // Transcript of the running session
+  // Progress while the handler runs: add an entry, then update it in place by its id
+  appendTranscript: (entry: ToolTranscriptEntry) => string;
+  updateTranscript: (id: string, patch: Partial<ToolTranscriptEntry>) => void;
+}
+
+export type ToolArgs = Record<string, unknown>;
+export type ToolOutput = unknown;
+
+export interface LiveTool {
+  declaration: FunctionDeclaration;
+  handler: (args: ToolArgs, context: ToolContext) => Promise<ToolOutput>;
+  timeoutMs?: number;
+  // Transcript entry for a successful call; tools without one leave no trace
+  render?: (args: ToolArgs, output: ToolOutput) => ToolTranscriptEntry | null;
+}
+
+export interface ToolInvocation {
+  response: Record<string, unknown>; // { output } or { error }
+  entry: ToolTranscriptEntry | null;
+}
+
+export class ToolTimeoutError extends Error {
+  constructor(name: string, timeoutMs: number) {
+    super(`Tool "${name}" timed out after ${Math.round(timeoutMs / 1000)} s`);
+    this.name = 'ToolTimeoutError';
+  }
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, LiveTool>();
+
+  constructor(tools: LiveTool[] = []) {
+    tools.forEach(tool => this.register(tool));
+  }
+
+  // Add a tool, replacing any with the same name; takes effect on the next connect
+  register(tool: LiveTool) {
+    if (!tool.declaration.name) throw new Error("Tool declarations need a name");
+    this.tools.set(tool.declaration.name, tool);
+  }
+
+  unregister(name: string) {
+    this.tools.delete(name);
+  }
+
+  get(name: string): LiveTool | undefined {
+    return this.tools.get(name);
+  }
+
+  declarations(): FunctionDeclaration[] {
+    return [...this.tools.values()].map(tool => tool.declaration);
+  }
+
+  // Run a call to completion or failure; never rejects
+  async invoke(call: FunctionCall, context: Omit<ToolContext, 'signal'>, signal: AbortSignal): Promise<ToolInvocation> {
+    const name = call.name ?? '';
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return { response: { error: `Unknown tool "${name}". Available tools: ${[...this.tools.keys()].join(', ') || 'none'}.` }, entry: null };
+    }
+
+    const args = call.args ?? {};
+    const timeoutMs = tool.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS;
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal.addEventListener('abort', abort, { once: true });
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          reject(new ToolTimeoutError(name, timeoutMs));
+          controller.abort();
+        }, timeoutMs);
+      });
+      const cancelled = new Promise<never>((_, reject) => {
+        controller.signal.addEventListener('abort', () => reject(new Error(`Tool "${name}" was cancelled`)), { once: true });
+      });
+      const output = await Promise.race([tool.handler(args, { ...context, signal: controller.signal }), timeout, cancelled]);
+      return { response: { output }, entry: tool.render?.(args, output) ?? null };
+    } catch (e: any) {
+      console.warn(`Tool "${name}" failed`, e);
+      return { response: { error: e?.message || `Tool "${name}" failed` }, entry: null };
+    } finally {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', abort);
+    }
+  }
+}
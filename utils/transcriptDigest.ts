@@ -0,0 +1,36 @@
+// Compact excerpt of a running transcript, used to seed a rotated Live session
+// so terminology and context carry over into the fresh connection.
+
+import { TranscriptItem } from '../types';
+
+const DEFAULT_MAX_CHARS = 2000;
+const MAX_TURN_CHARS = 300;
+
+const clip = (text: string, max: number) => (text.length > max ? text.slice(0, max - 1).trimEnd() + '…' : text);
+
+// The most recent turns, oldest first, within a character budget; '' when there is nothing to carry
+export function buildTranscriptDigest(items: TranscriptItem[], maxChars = DEFAULT_MAX_CHARS): string {
+  const lines: string[] = [];
+  let used = 0;
+
+  for (let i = items.length - 1; i >= 0; i--) {
+    const item = items[i];
+    // Skip notices and generated-image captions; they are not part of the conversation
+    if (item.role === 'system' || item.image || item.imageStatus || !item.isFinal) continue;
+    const text = item.text.replace(/\s+/g, ' ').trim();
+    if (!text) continue;
+
+    const line = `${item.role === 'user' ? 'Speaker' : 'You'}: ${clip(text, MAX_TURN_CHARS)}`;
+    if (used + line.length > maxChars) break;
+    lines.unshift(line);
+    used += line.length + 1;
+  }
+  return lines.join('\n');
+}
+
+// System instruction addendum carrying the digest into a new session
+export function buildContextCarryover(items: TranscriptItem[], maxChars = DEFAULT_MAX_CHARS): string {
+  const digest = buildTranscriptDigest(items, maxChars);
+  if (!digest) return '';
+  return `\n\nThis conversation is continuing from an earlier session. The most recent exchanges were:\n${digest}\nUse them only for context and consistent terminology; do not repeat, translate or respond to them again.`;
+}
@@ -0,0 +1,189 @@
+import { ExportContent, ExportFormat, TranscriptItem } from '../types';
+import { SOURCE_LABELS } from './audioSources';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  content: ExportContent;
+  targetLang: string; // 'none' labels model turns as Gemini rather than Translation
+  title?: string;
+}
+
+// One cue/paragraph in the exported document, on a single continuous timeline
+interface ExportSegment {
+  startMs: number;
+  endMs: number;
+  lines: { speaker: string; text: string }[];
+  image?: string;
+  imageCaption?: string;
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  md: 'text/markdown',
+  json: 'application/json',
+  txt: 'text/plain',
+};
+
+// Cues shorter than this are stretched so subtitles stay readable
+const MIN_CUE_MS = 1000;
+
+export function getExportMimeType(format: ExportFormat): string {
+  return `${MIME_TYPES[format]};charset=utf-8`;
+}
+
+export function getExportFilename(format: ExportFormat, title = 'transcript'): string {
+  const base = title.replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '_').slice(0, 80) || 'transcript';
+  return `${base}.${format}`;
+}
+
+const speakerLabel = (item: TranscriptItem, targetLang: string) => {
+  const base = item.role === 'user'
+    ? (item.source ? SOURCE_LABELS[item.source] : 'You')
+    : targetLang === 'none' ? 'Gemini' : 'Translation';
+  // Interpreter turns name the language actually spoken on that side
+  const lang = item.role === 'user' ? item.sourceLang : item.targetLang;
+  const tags = [lang, item.typed && 'typed', item.interruption && 'interrupted'].filter(Boolean);
+  return tags.length > 0 ? `${base} (${tags.join(', ')})` : base;
+};
+
+// Items from consecutive sessions restart their offsets at zero; lay them end to end
+function toTimeline(items: TranscriptItem[]): { item: TranscriptItem; startMs: number; endMs: number }[] {
+  let base = 0;
+  let prevStart = 0;
+  let prevEnd = 0;
+  return items.map(item => {
+    if (item.startOffsetMs + base < prevStart) {
+      base = prevEnd;
+    }
+    const startMs = item.startOffsetMs + base;
+    const endMs = Math.max(startMs + MIN_CUE_MS, item.endOffsetMs + base);
+    prevStart = startMs;
+    prevEnd = Math.max(prevEnd, endMs);
+    return { item, startMs, endMs };
+  });
+}
+
+function buildSegments(items: TranscriptItem[], options: ExportOptions): ExportSegment[] {
+  const timeline = toTimeline(items);
+
+  if (options.content === 'paired') {
+    // Group each user turn with the model turns that answer it
+    const segments: ExportSegment[] = [];
+    let current: ExportSegment | null = null;
+    for (const { item, startMs, endMs } of timeline) {
+      if (item.role === 'user' || !current) {
+        current = { startMs, endMs, lines: [] };
+        segments.push(current);
+      }
+      current.lines.push({ speaker: speakerLabel(item, options.targetLang), text: item.text });
+      current.endMs = Math.max(current.endMs, endMs);
+      if (item.image) {
+        current.image = item.image;
+        current.imageCaption = item.text;
+      }
+    }
+    return segments;
+  }
+
+  return timeline
+    .filter(({ item }) => options.content === 'all' || item.role === options.content)
+    .map(({ item, startMs, endMs }) => ({
+      startMs,
+      endMs,
+      lines: [{ speaker: speakerLabel(item, options.targetLang), text: item.text }],
+      image: item.image,
+      imageCaption: item.image ? item.text : undefined,
+    }));
+}
+
+// 3723004 -> "01:02:03,004" (SRT) or "01:02:03.004" (WebVTT)
+function formatTimecode(ms: number, separator: ',' | '.'): string {
+  const total = Math.max(0, Math.round(ms));
+  const h = Math.floor(total / 3600000);
+  const m = Math.floor((total % 3600000) / 60000);
+  const s = Math.floor((total % 60000) / 1000);
+  const rest = total % 1000;
+  const pad = (n: number, len = 2) => String(n).padStart(len, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(rest, 3)}`;
+}
+
+// Subtitle cues stack source and translation without speaker names
+const cueText = (segment: ExportSegment) => segment.lines.map(l => l.text).join('\n');
+
+function toSrt(segments: ExportSegment[]): string {
+  return segments
+    .map((seg, i) => `${i + 1}\n${formatTimecode(seg.startMs, ',')} --> ${formatTimecode(seg.endMs, ',')}\n${cueText(seg)}\n`)
+    .join('\n');
+}
+
+function toVtt(segments: ExportSegment[]): string {
+  // WebVTT cue payloads may not contain "-->"
+  const body = segments
+    .map(seg => `${formatTimecode(seg.startMs, '.')} --> ${formatTimecode(seg.endMs, '.')}\n${cueText(seg).replace(/-->/g, '->')}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+}
+
+function toMarkdown(segments: ExportSegment[], options: ExportOptions): string {
+  const out: string[] = [`# ${options.title || 'Transcript'}`, ''];
+  for (const seg of segments) {
+    out.push(`**[${formatTimecode(seg.startMs, '.').slice(0, 8)}]**`, '');
+    for (const line of seg.lines) {
+      out.push(`**${line.speaker}:** ${line.text}`, '');
+    }
+    if (seg.image) {
+      const alt = (seg.imageCaption || 'Generated image').replace(/[\[\]]/g, '');
+      out.push(`![${alt}](${seg.image})`, '');
+    }
+  }
+  return out.join('\n');
+}
+
+function toText(segments: ExportSegment[]): string {
+  return segments
+    .map(seg => {
+      const stamp = `[${formatTimecode(seg.startMs, '.').slice(0, 8)}]`;
+      return seg.lines.map(line => `${stamp} ${line.speaker}: ${line.text}`).join('\n');
+    })
+    .join('\n\n') + '\n';
+}
+
+function toJson(items: TranscriptItem[], segments: ExportSegment[], options: ExportOptions): string {
+  const payload = {
+    title: options.title,
+    targetLang: options.targetLang,
+    content: options.content,
+    exportedAt: new Date().toISOString(),
+    segments: segments.map(seg => ({
+      startMs: seg.startMs,
+      endMs: seg.endMs,
+      lines: seg.lines,
+      ...(seg.image ? { image: seg.image } : {}),
+    })),
+    items: items
+      .filter(item => options.content === 'all' || options.content === 'paired' || item.role === options.content)
+      .map(item => ({ ...item, timestamp: item.timestamp.toISOString() })),
+  };
+  return JSON.stringify(payload, null, 2);
+}
+
+// Serialise finalised transcript items into the requested document format
+export function exportTranscript(items: TranscriptItem[], options: ExportOptions): string {
+  // System notices (e.g. language switches) are UI markers, not speech
+  const finalItems = items.filter(item => item.role !== 'system' && item.isFinal && item.text.trim());
+  const segments = buildSegments(finalItems, options);
+
+  switch (options.format) {
+    case 'srt':
+      return toSrt(segments);
+    case 'vtt':
+      return toVtt(segments);
+    case 'md':
+      return toMarkdown(segments, options);
+    case 'json':
+      return toJson(finalItems, segments, options);
+    case 'txt':
+      return toText(segments);
+  }
+}
@@ -0,0 +1,139 @@
+// Client-side voice activity detection for the uplink.
+//
+// VoiceActivityDetector classifies short frames by RMS energy and zero-crossing
+// rate, requires a few consecutive active frames before opening (so clicks don't
+// trigger it) and holds speech open for a hangover period after the last active
+// frame. UplinkGate sits on the main thread and decides which worklet chunks are
+// sent, replaying a short pre-roll so speech onsets aren't clipped.
+
+import { VadSettings } from '../types';
+
+export const VAD_FRAME_SIZE = 256; // 16ms at 16kHz
+// Frames louder than the threshold but noisier than this are treated as hiss,
+// unless they are well above the threshold (fricatives are loud enough to pass)
+const MAX_ZERO_CROSSING_RATE = 0.35;
+const LOUD_MARGIN_DB = 12;
+// Consecutive active frames required to open the gate
+const ATTACK_FRAMES = 3;
+
+export const DEFAULT_VAD_SETTINGS: VadSettings = {
+  enabled: true,
+  thresholdDb: -45,
+  hangoverMs: 800,
+  preRollMs: 300,
+  clientActivitySignals: false,
+};
+
+export class VoiceActivityDetector {
+  private thresholdDb: number;
+  private hangoverFrames: number;
+  private readonly frameMs: number;
+  private activeRun = 0;
+  private silentRun = 0;
+  private speaking = false;
+
+  constructor(sampleRate: number, settings: Pick<VadSettings, 'thresholdDb' | 'hangoverMs'>) {
+    this.frameMs = (VAD_FRAME_SIZE / sampleRate) * 1000;
+    this.thresholdDb = settings.thresholdDb;
+    this.hangoverFrames = Math.ceil(settings.hangoverMs / this.frameMs);
+  }
+
+  configure(settings: Pick<VadSettings, 'thresholdDb' | 'hangoverMs'>) {
+    this.thresholdDb = settings.thresholdDb;
+    this.hangoverFrames = Math.ceil(settings.hangoverMs / this.frameMs);
+  }
+
+  get isSpeaking() {
+    return this.speaking;
+  }
+
+  private isActiveFrame(samples: Float32Array, start: number, end: number): boolean {
+    let energy = 0;
+    let crossings = 0;
+    for (let i = start; i < end; i++) {
+      energy += samples[i] * samples[i];
+      if (i > start && (samples[i] >= 0) !== (samples[i - 1] >= 0)) crossings++;
+    }
+    const length = end - start;
+    const db = 10 * Math.log10(energy / length + 1e-12);
+    const zcr = crossings / length;
+    return db >= this.thresholdDb && (zcr <= MAX_ZERO_CROSSING_RATE || db >= this.thresholdDb + LOUD_MARGIN_DB);
+  }
+
+  // Analyse a chunk frame by frame; true if any part of it was speech
+  process(samples: Float32Array): boolean {
+    let anySpeech = false;
+    for (let start = 0; start < samples.length; start += VAD_FRAME_SIZE) {
+      const end = Math.min(samples.length, start + VAD_FRAME_SIZE);
+      if (this.isActiveFrame(samples, start, end)) {
+        this.activeRun++;
+        this.silentRun = 0;
+        if (this.activeRun >= ATTACK_FRAMES) this.speaking = true;
+      } else {
+        this.activeRun = 0;
+        this.silentRun++;
+        if (this.silentRun > this.hangoverFrames) this.speaking = false;
+      }
+      anySpeech = anySpeech || this.speaking;
+    }
+    return anySpeech;
+  }
+
+  reset() {
+    this.activeRun = 0;
+    this.silentRun = 0;
+    this.speaking = false;
+  }
+}
+
+export interface GateResult {
+  chunks: Float32Array[]; // What to send, oldest first
+  opened: boolean; // The gate just opened (speech onset)
+  closed: boolean; // The gate just closed (speech ended)
+}
+
+// Decides which chunks go upstream; silent chunks are held back in a short
+// pre-roll buffer and released ahead of the first speech chunk.
+export class UplinkGate {
+  private preRoll: Float32Array[] = [];
+  private preRollSamples = 0;
+  private open = false;
+
+  constructor(private preRollLimit: number) {}
+
+  // Pre-roll length in samples
+  configure(preRollLimit: number) {
+    this.preRollLimit = preRollLimit;
+  }
+
+  push(chunk: Float32Array, speech: boolean): GateResult {
+    if (speech) {
+      const opened = !this.open;
+      const chunks = opened ? [...this.preRoll, chunk] : [chunk];
+      this.open = true;
+      this.preRoll = [];
+      this.preRollSamples = 0;
+      return { chunks, opened, closed: false };
+    }
+
+    const closed = this.open;
+    this.open = false;
+    this.preRoll.push(chunk);
+    this.preRollSamples += chunk.length;
+    // Keep at most preRollLimit samples (always keep the newest chunk)
+    while (this.preRoll.length > 1 && this.preRollSamples - this.preRoll[0].length >= this.preRollLimit) {
+      this.preRollSamples -= this.preRoll.shift()!.length;
+    }
+    if (this.preRollLimit <= 0) {
+      this.preRoll = [];
+      this.preRollSamples = 0;
+    }
+    return { chunks: [], opened: false, closed };
+  }
+
+  reset() {
+    this.preRoll = [];
+    this.preRollSamples = 0;
+    this.open = false;
+  }
+}
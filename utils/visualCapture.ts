@@ -0,0 +1,59 @@
+// Visual input for the Live session: a camera or shared screen whose frames are
+// sent to the model as JPEGs alongside the audio, so it can read a menu, a sign
+// or whatever is on screen.
+
+import { VisualCaptureSettings, VisualSource } from '../types';
+
+export const DEFAULT_VISUAL_SETTINGS: VisualCaptureSettings = {
+  frameRate: 1,
+  quality: 0.6,
+  maxWidth: 1024,
+};
+
+// The Live API samples video at about one frame per second; faster rates mostly cost bandwidth
+export const FRAME_RATES = [0.2, 0.5, 1, 2];
+
+export const VISUAL_SOURCE_LABELS: Record<VisualSource, string> = {
+  camera: 'Camera',
+  screen: 'Screen',
+};
+
+// Open the camera (the rear one on phones) or ask which screen, window or tab to share
+export async function openVisualStream(source: VisualSource): Promise<MediaStream> {
+  if (source === 'camera') {
+    if (!navigator.mediaDevices?.getUserMedia) throw new Error("This browser cannot use the camera.");
+    return navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment', width: { ideal: 1280 } } });
+  }
+  if (!navigator.mediaDevices?.getDisplayMedia) throw new Error("This browser cannot share the screen.");
+  return navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+}
+
+// Grabs still frames from a video stream through an offscreen video element
+export class FrameGrabber {
+  private video = document.createElement('video');
+  private canvas = document.createElement('canvas');
+
+  constructor(readonly stream: MediaStream) {
+    this.video.muted = true;
+    this.video.playsInline = true;
+    this.video.srcObject = stream;
+    this.video.play().catch(e => console.warn("Frame capture video did not start", e));
+  }
+
+  // The current frame as a JPEG, or null before the first frame has arrived
+  async grab(settings: VisualCaptureSettings): Promise<Blob | null> {
+    const { videoWidth, videoHeight } = this.video;
+    if (!videoWidth || !videoHeight) return null;
+
+    const scale = Math.min(1, settings.maxWidth / videoWidth);
+    this.canvas.width = Math.round(videoWidth * scale);
+    this.canvas.height = Math.round(videoHeight * scale);
+    this.canvas.getContext('2d')!.drawImage(this.video, 0, 0, this.canvas.width, this.canvas.height);
+    return new Promise(resolve => this.canvas.toBlob(resolve, 'image/jpeg', settings.quality));
+  }
+
+  dispose() {
+    this.video.pause();
+    this.video.srcObject = null;
+  }
+}
@@ -0,0 +1,177 @@
+// Live model and voice choices, persisted per target language.
+//
+// Each target language (or interpreter pair) can have its own model, voice,
+// response modality and transcription options; anything not customised uses
+// the defaults. Voice previews are synthesised with the TTS model on demand
+// and cached for the page's lifetime.
+
+import { GoogleGenAI, Modality } from '@google/genai';
+import { LanguagePair, VoiceSettings } from '../types';
+import { loadSetting, saveSetting } from './settings';
+import { decodeAudioData } from './audio';
+import { setContextSink } from './audioDevices';
+
+const SETTING_KEY = 'voices';
+const PREVIEW_MODEL = 'gemini-2.5-flash-preview-tts';
+
+export interface LiveModelOption {
+  id: string;
+  label: string;
+  description: string;
+  supportsText: boolean; // Can answer with text instead of audio
+  allVoices: boolean; // Native audio models offer the full voice list
+}
+
+export const LIVE_MODELS: LiveModelOption[] = [
+  {
+    id: 'gemini-2.5-flash-native-audio-preview-09-2025',
+    label: 'Gemini 2.5 Flash native audio',
+    description: 'Most natural speech; audio responses only',
+    supportsText: false,
+    allVoices: true,
+  },
+  {
+    id: 'gemini-live-2.5-flash-preview',
+    label: 'Gemini 2.5 Flash Live',
+    description: 'Half-cascade; audio or text responses',
+    supportsText: true,
+    allVoices: false,
+  },
+  {
+    id: 'gemini-2.0-flash-live-001',
+    label: 'Gemini 2.0 Flash Live',
+    description: 'Half-cascade; audio or text responses',
+    supportsText: true,
+    allVoices: false,
+  },
+];
+
+export interface VoiceOption {
+  name: string;
+  style: string;
+  core: boolean; // Available on half-cascade models too
+}
+
+export const PREBUILT_VOICES: VoiceOption[] = [
+  { name: 'Zephyr', style: 'Bright', core: true },
+  { name: 'Puck', style: 'Upbeat', core: true },
+  { name: 'Charon', style: 'Informative', core: true },
+  { name: 'Kore', style: 'Firm', core: true },
+  { name: 'Fenrir', style: 'Excitable', core: true },
+  { name: 'Leda', style: 'Youthful', core: true },
+  { name: 'Orus', style: 'Firm', core: true },
+  { name: 'Aoede', style: 'Breezy', core: true },
+  { name: 'Callirrhoe', style: 'Easy-going', core: false },
+  { name: 'Autonoe', style: 'Bright', core: false },
+  { name: 'Enceladus', style: 'Breathy', core: false },
+  { name: 'Iapetus', style: 'Clear', core: false },
+  { name: 'Umbriel', style: 'Easy-going', core: false },
+  { name: 'Algieba', style: 'Smooth', core: false },
+  { name: 'Despina', style: 'Smooth', core: false },
+  { name: 'Erinome', style: 'Clear', core: false },
+  { name: 'Algenib', style: 'Gravelly', core: false },
+  { name: 'Rasalgethi', style: 'Informative', core: false },
+  { name: 'Laomedeia', style: 'Upbeat', core: false },
+  { name: 'Achernar', style: 'Soft', core: false },
+  { name: 'Alnilam', style: 'Firm', core: false },
+  { name: 'Schedar', style: 'Even', core: false },
+  { name: 'Gacrux', style: 'Mature', core: false },
+  { name: 'Pulcherrima', style: 'Forward', core: false },
+  { name: 'Achird', style: 'Friendly', core: false },
+  { name: 'Zubenelgenubi', style: 'Casual', core: false },
+  { name: 'Vindemiatrix', style: 'Gentle', core: false },
+  { name: 'Sadachbia', style: 'Lively', core: false },
+  { name: 'Sadaltager', style: 'Knowledgeable', core: false },
+  { name: 'Sulafat', style: 'Warm', core: false },
+];
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  model: LIVE_MODELS[0].id,
+  voiceName: 'Zephyr',
+  responseModality: 'audio',
+  inputTranscription: true,
+  outputTranscription: true,
+};
+
+// Customised settings by voiceSettingsKey
+export type VoiceSettingsMap = Record<string, VoiceSettings>;
+
+export function voiceSettingsKey(langCode: string, pair: LanguagePair | null): string {
+  return pair ? `${pair[0]}<>${pair[1]}` : langCode;
+}
+
+export function loadVoiceSettings(): VoiceSettingsMap {
+  return loadSetting<VoiceSettingsMap>(SETTING_KEY, {});
+}
+
+export function saveVoiceSettings(settings: VoiceSettingsMap): void {
+  saveSetting(SETTING_KEY, settings);
+}
+
+export function modelOption(modelId: string): LiveModelOption | undefined {
+  return LIVE_MODELS.find(model => model.id === modelId);
+}
+
+export function voicesForModel(modelId: string): VoiceOption[] {
+  return modelOption(modelId)?.allVoices === false ? PREBUILT_VOICES.filter(voice => voice.core) : PREBUILT_VOICES;
+}
+
+// Settings for a key, with defaults filled in and combinations the model cannot do corrected
+export function resolveVoiceSettings(settings: VoiceSettingsMap, key: string): VoiceSettings {
+  const resolved = { ...DEFAULT_VOICE_SETTINGS, ...settings[key] };
+  const model = modelOption(resolved.model);
+  if (!model) resolved.model = DEFAULT_VOICE_SETTINGS.model;
+  if (model && !model.supportsText) resolved.responseModality = 'audio';
+  if (!voicesForModel(resolved.model).some(voice => voice.name === resolved.voiceName)) {
+    resolved.voiceName = DEFAULT_VOICE_SETTINGS.voiceName;
+  }
+  return resolved;
+}
+
+const previewCache = new Map<string, Promise<string | null>>();
+
+// A short spoken sample of a voice; resolves to base64 24 kHz PCM, or null if the model returned none
+export function generateVoicePreview(apiKey: string, voiceName: string, text: string): Promise<string | null> {
+  const cacheKey = `${voiceName}\n${text}`;
+  let preview = previewCache.get(cacheKey);
+  if (!preview) {
+    preview = synthesizePreview(apiKey, voiceName, text);
+    // Failures are not cached, so the next click tries again
+    preview.catch(() => previewCache.delete(cacheKey));
+    previewCache.set(cacheKey, preview);
+  }
+  return preview;
+}
+
+async function synthesizePreview(apiKey: string, voiceName: string, text: string): Promise<string | null> {
+  const ai = new GoogleGenAI({ apiKey });
+  const response = await ai.models.generateContent({
+    model: PREVIEW_MODEL,
+    contents: [{ parts: [{ text }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } },
+    },
+  });
+
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData?.data) return part.inlineData.data;
+  }
+  return null;
+}
+
+// Play a preview clip on the chosen speaker ('' for the default one)
+export async function playVoicePreview(base64Audio: string, sinkId: string): Promise<void> {
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  const ctx: AudioContext = new AudioContextClass();
+  try {
+    if (sinkId) await setContextSink(ctx, sinkId);
+    const source = ctx.createBufferSource();
+    source.buffer = await decodeAudioData(base64Audio, ctx, 24000);
+    source.connect(ctx.destination);
+    source.start();
+    await new Promise<void>(resolve => { source.onended = () => resolve(); });
+  } finally {
+    ctx.close().catch(() => {});
+  }
+}